@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Circle } from "@/types";
+import { Lock, Unlock } from "lucide-react";
+
+interface BudgetSettingsPopoverProps {
+  circle: Circle;
+}
+
+// Thresholds are typed as "75, 90"
+const parseThresholds = (value: string): number[] | null => {
+  const thresholds = value.split(",").map((part) => part.trim()).filter(Boolean).map(Number);
+  return thresholds.every((t) => Number.isInteger(t) && t >= 1 && t <= 100) ? thresholds : null;
+};
+
+export function BudgetSettingsPopover({ circle }: BudgetSettingsPopoverProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [thresholds, setThresholds] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: { budgetLocked: boolean; budgetAlertThresholds: number[] }) => {
+      const response = await apiRequest("PATCH", `/api/circles/${circle.id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id] });
+      setOpen(false);
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      saveMutation.reset();
+      setLocked(!!circle.budgetLocked);
+      setThresholds((circle.budgetAlertThresholds ?? []).join(", "));
+    }
+    setOpen(isOpen);
+  };
+
+  const parsedThresholds = parseThresholds(thresholds);
+
+  const handleSave = () => {
+    if (!parsedThresholds) return;
+    saveMutation.mutate({ budgetLocked: locked, budgetAlertThresholds: parsedThresholds });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Budget settings">
+          {circle.budgetLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="budget-locked">Lock budget</Label>
+            <p className="text-xs text-gray-500">Refuse items that would go over it</p>
+          </div>
+          <Switch id="budget-locked" checked={locked} onCheckedChange={setLocked} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="budget-thresholds">Alert at (% of budget)</Label>
+          <Input
+            id="budget-thresholds"
+            placeholder="75, 90"
+            value={thresholds}
+            onChange={(e) => setThresholds(e.target.value)}
+          />
+          <p className="text-xs text-gray-500">Everyone is also alerted when spending goes over the budget.</p>
+        </div>
+        {!parsedThresholds && (
+          <p className="text-sm text-[hsl(var(--error))]">Use whole percentages from 1 to 100</p>
+        )}
+        {saveMutation.isError && (
+          <p className="text-sm text-[hsl(var(--error))]">Couldn't save: {saveMutation.error.message}</p>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={!parsedThresholds || saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,66 +1,355 @@
-import { useState, useEffect, useRef } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSocket } from "@/contexts/SocketContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Message } from "@/types";
-import { Send, Reply, Heart, Paperclip, Smile } from "lucide-react";
+import { ThreadPanel } from "@/components/ThreadPanel";
+import { MessageBody } from "@/components/MessageBody";
+import { MessageReactions, ReactionPicker } from "@/components/MessageReactions";
+import { MessageAttachments, PendingAttachments } from "@/components/MessageAttachments";
+import { MentionSuggestions, matchMentionCandidates } from "@/components/MentionSuggestions";
+import { uploadFile } from "@/lib/queryClient";
+import { getMentionQuery, insertMention, MentionQuery } from "@/lib/mentions";
+import {
+  appendMessage, patchMessage, withReactions, eventMessage, type MessagePages, type MessageEvent, type ReactionEvent
+} from "@/lib/messageCache";
+import { useToast } from "@/hooks/use-toast";
+import { CircleMember, Message, MessageAttachment, MessagePage, ReadReceipt, SearchResult } from "@/types";
+import type { ServerEvent } from "@shared/protocol";
+import { Send, Reply, Heart, Paperclip, Smile, CheckCheck } from "lucide-react";
+
+// Mirrors the server's per-message limit
+const MAX_ATTACHMENTS = 5;
 
 interface ChatPanelProps {
   circleId: number;
   isActive: boolean;
+  canModerate?: boolean;
+  // Offered as @mention suggestions in the composer
+  members?: CircleMember[];
+  // A search result to jump to; onSearchTargetHandled fires once it has been
+  // shown (or turned out not to be in the history)
+  searchTarget?: SearchResult | null;
+  onSearchTargetHandled?: () => void;
 }
 
-export function ChatPanel({ circleId, isActive }: ChatPanelProps) {
+// How long a message jumped to from search stays highlighted
+const HIGHLIGHT_MS = 2000;
+// Read markers are reported once scrolling has settled for this long
+const READ_DELAY_MS = 1000;
+
+export function ChatPanel({
+  circleId,
+  isActive,
+  canModerate,
+  members = [],
+  searchTarget,
+  onSearchTargetHandled,
+}: ChatPanelProps) {
   const { user, token } = useAuth();
-  const { sendMessage, sendTyping, typingUsers } = useSocket();
+  const { sendMessage, sendTyping, markRead, addReaction, typingUsers } = useSocket();
+  const { toast } = useToast();
   const [messageInput, setMessageInput] = useState("");
-  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const messageInputRef = useRef<HTMLInputElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [openThread, setOpenThread] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  const [highlightedReplyId, setHighlightedReplyId] = useState<number | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the list when an older page was requested,
+  // so the view can be put back in place once it is prepended
+  const scrollAnchorRef = useRef<number | null>(null);
+  // The newest message that has been on screen, and the newest one reported
+  const readMarkerRef = useRef({ seen: 0, sent: 0 });
   const queryClient = useQueryClient();
 
-  const { data: messages = [] } = useQuery({
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
     queryKey: ["/api/circles", circleId, "messages"],
-    queryFn: async () => {
-      const response = await fetch(`/api/circles/${circleId}/messages`, {
+    queryFn: async ({ pageParam }): Promise<MessagePage> => {
+      const params = pageParam ? `?before=${pageParam}` : "";
+      const response = await fetch(`/api/circles/${circleId}/messages${params}`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       return response.json();
     },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!circleId,
   });
 
+  // Pages come back newest first; each page is already oldest-to-newest
+  const messages = (data?.pages ?? []).slice().reverse().flatMap((page) => page.messages);
+  const newestMessageId = messages[messages.length - 1]?.id;
+  // Keep the open thread's parent in step with edits and deletes
+  const threadParent = openThread && (messages.find((message) => message.id === openThread.id) ?? openThread);
+
+  const { data: receipts = [] } = useQuery({
+    queryKey: ["/api/circles", circleId, "reads"],
+    queryFn: async (): Promise<ReadReceipt[]> => {
+      const response = await fetch(`/api/circles/${circleId}/reads`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return response.json();
+    },
+    enabled: !!circleId,
+  });
+
+  // Each member is listed under the newest loaded message they have read,
+  // unless they wrote it
+  const seenBy: Record<number, string[]> = {};
+  for (const receipt of receipts) {
+    const lastRead = receipt.last_read_message_id;
+    if (receipt.user_id === user?.id || !receipt.user || !lastRead) continue;
+
+    const seen = messages.filter((message) => message.id <= lastRead).pop();
+    if (seen && seen.user?.id !== receipt.user_id) {
+      (seenBy[seen.id] ??= []).push(receipt.user.first_name);
+    }
+  }
+
+  useEffect(() => {
+    setOpenThread(null);
+    readMarkerRef.current = { seen: 0, sent: 0 };
+  }, [circleId]);
+
+  useEffect(() => {
+    const handleReadUpdated = (event: CustomEvent) => {
+      if (event.detail.circleId !== circleId) return;
+      queryClient.setQueryData<ReadReceipt[]>(["/api/circles", circleId, "reads"], (current) =>
+        current?.map((receipt) =>
+          receipt.user_id === event.detail.userId
+            ? { ...receipt, last_read_message_id: event.detail.messageId }
+            : receipt
+        )
+      );
+    };
+
+    window.addEventListener("read_updated", handleReadUpdated as EventListener);
+    return () => window.removeEventListener("read_updated", handleReadUpdated as EventListener);
+  }, [circleId, queryClient]);
+
+  // Messages count as read once half of them has been on screen. Reports
+  // wait until the tab is visible, so a message that arrives in a
+  // background tab stays unread until the user comes back.
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!isActive || !container) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const report = () => {
+      const marker = readMarkerRef.current;
+      if (document.visibilityState !== "visible" || marker.seen <= marker.sent) return;
+      marker.sent = marker.seen;
+      markRead(marker.seen);
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const id = Number((entry.target as HTMLElement).dataset.messageId);
+          if (entry.isIntersecting && id > readMarkerRef.current.seen) {
+            readMarkerRef.current.seen = id;
+          }
+        }
+        clearTimeout(timeout);
+        timeout = setTimeout(report, READ_DELAY_MS);
+      },
+      { root: container, threshold: 0.5 }
+    );
+    container.querySelectorAll("[data-message-id]").forEach((element) => observer.observe(element));
+    document.addEventListener("visibilitychange", report);
+
+    return () => {
+      observer.disconnect();
+      clearTimeout(timeout);
+      document.removeEventListener("visibilitychange", report);
+    };
+  }, [isActive, circleId, data]);
+
+  // The timeline holds top-level messages; a reply only updates its
+  // parent's thread summary
   useEffect(() => {
-    const handleNewMessage = (event: CustomEvent) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/circles", circleId, "messages"] });
+    const queryKey = ["/api/circles", circleId, "messages"];
+    const update = (change: (data?: MessagePages<"messages">) => MessagePages<"messages"> | undefined) => {
+      queryClient.setQueryData<MessagePages<"messages">>(queryKey, change);
+    };
+
+    const handleMessageAdded = (event: CustomEvent<ServerEvent<"new_message">>) => {
+      if (event.detail.circleId !== circleId) return;
+      const message = eventMessage(event.detail);
+      if (!message.reply_to) {
+        update((data) => appendMessage(data, "messages", message));
+      } else if (event.detail.thread) {
+        const { message_id: parentId, ...summary } = event.detail.thread;
+        update((data) => patchMessage(data, "messages", parentId, (parent) => ({ ...parent, ...summary })));
+      }
     };
 
-    window.addEventListener("new_message", handleNewMessage as EventListener);
-    return () => window.removeEventListener("new_message", handleNewMessage as EventListener);
+    const handleMessageChanged = (event: CustomEvent<MessageEvent>) => {
+      const message = eventMessage(event.detail);
+      if (event.detail.circleId !== circleId || message.reply_to) return;
+      update((data) => patchMessage(data, "messages", message.id, (loaded) => ({ ...loaded, ...message })));
+    };
+
+    const handleReactionUpdated = (event: CustomEvent<ReactionEvent>) => {
+      if (event.detail.circleId !== circleId || event.detail.reply_to) return;
+      update((data) => patchMessage(data, "messages", event.detail.message_id, withReactions(event.detail)));
+    };
+
+    window.addEventListener("new_message", handleMessageAdded as EventListener);
+    window.addEventListener("message_updated", handleMessageChanged as EventListener);
+    window.addEventListener("message_deleted", handleMessageChanged as EventListener);
+    window.addEventListener("reaction_updated", handleReactionUpdated as EventListener);
+    return () => {
+      window.removeEventListener("new_message", handleMessageAdded as EventListener);
+      window.removeEventListener("message_updated", handleMessageChanged as EventListener);
+      window.removeEventListener("message_deleted", handleMessageChanged as EventListener);
+      window.removeEventListener("reaction_updated", handleReactionUpdated as EventListener);
+    };
   }, [circleId, queryClient]);
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [newestMessageId]);
+
+  // Search results for replies jump to their thread's parent and open the
+  // thread. Older pages are loaded until the target is in the list.
+  useEffect(() => {
+    if (searchTarget?.type !== "message" || isFetchingNextPage) return;
+
+    const targetId = searchTarget.reply_to ?? searchTarget.id;
+    const target = messages.find((message) => message.id === targetId);
+    if (!target) {
+      if (hasNextPage && (messages[0]?.id ?? Infinity) > targetId) {
+        fetchNextPage();
+      } else {
+        onSearchTargetHandled?.();
+      }
+      return;
+    }
+
+    document.getElementById(`message-${targetId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(targetId);
+    if (searchTarget.reply_to) {
+      setOpenThread(target);
+      setHighlightedReplyId(searchTarget.id);
+    }
+    onSearchTargetHandled?.();
+  }, [searchTarget, data, hasNextPage, isFetchingNextPage]);
+
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && scrollAnchorRef.current !== null && !isFetchingNextPage) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
+  }, [data, isFetchingNextPage]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || !hasNextPage || isFetchingNextPage) return;
+
+    if (container.scrollTop < 100) {
+      scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      fetchNextPage();
+    }
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const handleSendMessage = () => {
-    if (messageInput.trim()) {
-      sendMessage(messageInput.trim(), replyingTo?.id);
+  const canSend = (!!messageInput.trim() || pendingAttachments.length > 0) && !isUploading && !isSending;
+
+  // The draft is kept until the server acks the message, so a failed send
+  // can be retried
+  const handleSendMessage = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await sendMessage(messageInput.trim(), undefined, pendingAttachments.map((attachment) => attachment.id));
       setMessageInput("");
-      setReplyingTo(null);
+      setMentionQuery(null);
+      setPendingAttachments([]);
       setIsTyping(false);
       sendTyping(false);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't send message",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
     }
   };
 
-  const handleInputChange = (value: string) => {
+  const handleAddReaction = (messageId: number, emoji: string) => {
+    addReaction(messageId, emoji).catch((error) => {
+      toast({
+        title: "Couldn't add reaction",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    const selected = Array.from(files ?? []).slice(0, MAX_ATTACHMENTS - pendingAttachments.length);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (!selected.length) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of selected) {
+        const response = await uploadFile(`/api/circles/${circleId}/attachments`, file);
+        const attachment: MessageAttachment = await response.json();
+        setPendingAttachments((current) => [...current, attachment]);
+      }
+    } catch (error: any) {
+      toast({
+        title: "Couldn't upload file",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const mentionCandidates = mentionQuery ? matchMentionCandidates(members, mentionQuery.query, user?.id) : [];
+
+  const pickMention = (member: CircleMember) => {
+    const input = messageInputRef.current;
+    if (!mentionQuery || !input) return;
+
+    const next = insertMention(messageInput, mentionQuery, input.selectionStart ?? messageInput.length, member.user.username);
+    setMessageInput(next.value);
+    setMentionQuery(null);
+    requestAnimationFrame(() => input.setSelectionRange(next.caret, next.caret));
+  };
+
+  const handleInputChange = (value: string, caret: number | null) => {
     setMessageInput(value);
+    setMentionQuery(getMentionQuery(value, caret ?? value.length));
+    setActiveSuggestion(0);
     
     if (value.trim() && !isTyping) {
       setIsTyping(true);
@@ -71,6 +360,21 @@ export function ChatPanel({ circleId, isActive }: ChatPanelProps) {
     }
   };
 
+  const handleMentionKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionCandidates.length === 0) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveSuggestion((index) => (index + step + mentionCandidates.length) % mentionCandidates.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      pickMention(mentionCandidates[Math.min(activeSuggestion, mentionCandidates.length - 1)]);
+    } else if (e.key === "Escape") {
+      setMentionQuery(null);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -106,128 +410,168 @@ export function ChatPanel({ circleId, isActive }: ChatPanelProps) {
   if (!isActive) return null;
 
   return (
-    <div className="flex-1 flex flex-col bg-white">
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message: Message) => (
-          <div key={message.id} className="flex items-start space-x-3">
-            <div className={`w-8 h-8 ${getAvatarColor(message.userId)} rounded-full flex items-center justify-center text-white text-sm font-medium`}>
-              {getInitials(message.user.firstName, message.user.lastName)}
+    <div className="flex-1 flex bg-white min-w-0">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Messages */}
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto p-4 space-y-4"
+        >
+          {isFetchingNextPage && (
+            <div className="text-center text-sm text-gray-500">Loading older messages...</div>
+          )}
+
+          {messages.map((message: Message) => (
+            <div
+              key={message.id}
+              id={`message-${message.id}`}
+              data-message-id={message.id}
+              className={`flex items-start space-x-3 rounded-lg transition-colors ${
+                message.id === highlightedMessageId ? "bg-yellow-50" : ""
+              }`}
+            >
+              <div className={`w-8 h-8 ${getAvatarColor(message.userId)} rounded-full flex items-center justify-center text-white text-sm font-medium`}>
+                {getInitials(message.user.firstName, message.user.lastName)}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">
+                    {message.user.firstName} {message.user.lastName}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatTime(message.createdAt)}
+                  </span>
+                </div>
+                <MessageBody message={message} canModerate={canModerate} />
+                <MessageAttachments attachments={message.attachments} />
+                <MessageReactions message={message} />
+                {!message.deletedAt && (
+                  <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
+                    <button
+                      onClick={() => setOpenThread(message)}
+                      className="hover:text-primary transition-colors"
+                    >
+                      <Reply className="w-4 h-4 mr-1 inline" />
+                      Reply
+                    </button>
+                    <ReactionPicker onPick={(emoji) => handleAddReaction(message.id, emoji)}>
+                      <button className="hover:text-primary transition-colors">
+                        <Heart className="w-4 h-4 mr-1 inline" />
+                        React
+                      </button>
+                    </ReactionPicker>
+                  </div>
+                )}
+
+                {/* Thread Summary */}
+                {!!message.replyCount && (
+                  <button
+                    onClick={() => setOpenThread(message)}
+                    className="mt-2 text-sm text-primary hover:underline"
+                  >
+                    {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+                    {message.lastReplyAt && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        Last reply {formatTime(message.lastReplyAt)}
+                      </span>
+                    )}
+                  </button>
+                )}
+
+                {seenBy[message.id] && (
+                  <div className="mt-1 flex items-center text-xs text-gray-400">
+                    <CheckCheck className="w-3 h-3 mr-1" />
+                    Seen by {seenBy[message.id].join(", ")}
+                  </div>
+                )}
+              </div>
             </div>
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center space-x-2">
-                <span className="font-medium text-gray-900">
-                  {message.user.firstName} {message.user.lastName}
-                </span>
-                <span className="text-xs text-gray-500">
-                  {formatTime(message.createdAt)}
-                </span>
+          ))}
+
+          {/* Typing Indicator */}
+          {typingUsers.length > 0 && (
+            <div className="flex items-center space-x-3 text-gray-500">
+              <div className="w-8 h-8 bg-gray-300 rounded-full" />
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce animate-bounce-delayed" />
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce animate-bounce-delayed" />
               </div>
-              <div className="mt-1 text-gray-700">{message.content}</div>
-              <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
+              <span className="text-sm">
+                {typingUsers.map(u => u.userName).join(", ")} {typingUsers.length === 1 ? "is" : "are"} typing...
+              </span>
+            </div>
+          )}
+
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Input */}
+        <div className="border-t border-gray-200 p-4">
+          <PendingAttachments
+            attachments={pendingAttachments}
+            onRemove={(removed) =>
+              setPendingAttachments((current) => current.filter((attachment) => attachment.id !== removed.id))
+            }
+          />
+          <div className="flex items-center space-x-3">
+            <div className="flex-1 relative">
+              <MentionSuggestions
+                candidates={mentionCandidates}
+                activeIndex={activeSuggestion}
+                onPick={pickMention}
+              />
+              <Input
+                ref={messageInputRef}
+                value={messageInput}
+                onChange={(e) => handleInputChange(e.target.value, e.target.selectionStart)}
+                onKeyDown={handleMentionKeyDown}
+                onKeyPress={handleKeyPress}
+                onBlur={() => setMentionQuery(null)}
+                placeholder="Type a message..."
+                className="pr-20"
+              />
+              <div className="absolute right-3 top-2.5 flex items-center space-x-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept="image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain"
+                  className="hidden"
+                  onChange={(e) => handleFilesSelected(e.target.files)}
+                />
                 <button
-                  onClick={() => setReplyingTo(message)}
-                  className="hover:text-primary transition-colors"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading || pendingAttachments.length >= MAX_ATTACHMENTS}
+                  title="Attach files"
+                  className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
                 >
-                  <Reply className="w-4 h-4 mr-1 inline" />
-                  Reply
+                  <Paperclip className="w-4 h-4" />
                 </button>
-                <button className="hover:text-primary transition-colors">
-                  <Heart className="w-4 h-4 mr-1 inline" />
-                  React
+                <button className="text-gray-400 hover:text-gray-600 transition-colors">
+                  <Smile className="w-4 h-4" />
                 </button>
               </div>
-
-              {/* Thread Replies */}
-              {message.replies && message.replies.length > 0 && (
-                <div className="mt-3 ml-4 border-l-2 border-gray-200 pl-4 space-y-3">
-                  {message.replies.map((reply) => (
-                    <div key={reply.id} className="flex items-start space-x-3">
-                      <div className={`w-6 h-6 ${getAvatarColor(reply.userId)} rounded-full flex items-center justify-center text-white text-xs font-medium`}>
-                        {getInitials(reply.user.firstName, reply.user.lastName)}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-2">
-                          <span className="font-medium text-gray-900">
-                            {reply.user.firstName} {reply.user.lastName}
-                          </span>
-                          <span className="text-xs text-gray-500">
-                            {formatTime(reply.createdAt)}
-                          </span>
-                        </div>
-                        <div className="mt-1 text-gray-700">{reply.content}</div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          </div>
-        ))}
-
-        {/* Typing Indicator */}
-        {typingUsers.length > 0 && (
-          <div className="flex items-center space-x-3 text-gray-500">
-            <div className="w-8 h-8 bg-gray-300 rounded-full" />
-            <div className="flex space-x-1">
-              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce animate-bounce-delayed" />
-              <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce animate-bounce-delayed" />
             </div>
-            <span className="text-sm">
-              {typingUsers.map(u => u.userName).join(", ")} {typingUsers.length === 1 ? "is" : "are"} typing...
-            </span>
+            <Button onClick={handleSendMessage} disabled={!canSend}>
+              <Send className="w-4 h-4" />
+            </Button>
           </div>
-        )}
-
-        <div ref={messagesEndRef} />
+        </div>
       </div>
 
-      {/* Reply Preview */}
-      {replyingTo && (
-        <div className="border-t border-gray-200 p-2 bg-gray-50">
-          <div className="flex items-center justify-between">
-            <div className="text-sm text-gray-600">
-              Replying to <span className="font-medium">{replyingTo.user.firstName}</span>
-            </div>
-            <button
-              onClick={() => setReplyingTo(null)}
-              className="text-gray-400 hover:text-gray-600"
-            >
-              ×
-            </button>
-          </div>
-          <div className="text-sm text-gray-700 mt-1 truncate">
-            {replyingTo.content}
-          </div>
-        </div>
+      {threadParent && (
+        <ThreadPanel
+          parent={threadParent}
+          canModerate={canModerate}
+          highlightId={highlightedReplyId}
+          onClose={() => {
+            setOpenThread(null);
+            setHighlightedReplyId(null);
+          }}
+        />
       )}
-
-      {/* Input */}
-      <div className="border-t border-gray-200 p-4">
-        <div className="flex items-center space-x-3">
-          <div className="flex-1 relative">
-            <Input
-              value={messageInput}
-              onChange={(e) => handleInputChange(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Type a message..."
-              className="pr-20"
-            />
-            <div className="absolute right-3 top-2.5 flex items-center space-x-2">
-              <button className="text-gray-400 hover:text-gray-600 transition-colors">
-                <Paperclip className="w-4 h-4" />
-              </button>
-              <button className="text-gray-400 hover:text-gray-600 transition-colors">
-                <Smile className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
-          <Button onClick={handleSendMessage} disabled={!messageInput.trim()}>
-            <Send className="w-4 h-4" />
-          </Button>
-        </div>
-      </div>
     </div>
   );
 }
@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Circle, CheckoutPreview, Order, OrderItem } from "@/types";
+import { ShoppingBag, ThumbsUp, ThumbsDown, Loader2 } from "lucide-react";
+
+interface CheckoutDialogProps {
+  isOpen: boolean;
+  circle: Circle;
+  onClose: () => void;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export function OrderItemRow({ item }: { item: OrderItem }) {
+  return (
+    <div className="flex items-start justify-between py-2">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+        <p className="text-xs text-gray-500">
+          {formatCents(item.price)} × {item.quantity}
+          {item.assignee_name && ` • ${item.assignee_name}`}
+        </p>
+        {item.notes && <p className="text-xs text-gray-500 truncate">{item.notes}</p>}
+      </div>
+      <div className="flex items-center space-x-3 text-xs text-gray-500 shrink-0">
+        <span className="flex items-center space-x-1">
+          <ThumbsUp className="w-3 h-3" />
+          <span>{item.upvotes}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <ThumbsDown className="w-3 h-3" />
+          <span>{item.downvotes}</span>
+        </span>
+        <span className="text-sm font-medium text-gray-900">{formatCents(item.price * item.quantity)}</span>
+      </div>
+    </div>
+  );
+}
+
+// Shows the order for review, and places it with the total that was reviewed
+// so a cart that changed in the meantime isn't ordered unseen
+export function CheckoutDialog({ isOpen, circle, onClose }: CheckoutDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preview, isLoading, refetch } = useQuery<CheckoutPreview>({
+    queryKey: ["/api/circles", circle.id, "checkout"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/circles/${circle.id}/checkout`);
+      return response.json();
+    },
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (expectedTotal: number) => {
+      const response = await apiRequest("POST", `/api/circles/${circle.id}/checkout`, { expectedTotal });
+      return response.json() as Promise<Order>;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id, "cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id, "orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id] });
+      toast({ title: "Order placed", description: `${order.items.length} items for ${formatCents(order.total)}` });
+      onClose();
+    },
+    onError: (error: any) => {
+      refetch();
+      toast({
+        title: "Failed to place order",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cart items are already charged to the budget, so placing the order
+  // leaves what's spent as it is
+  const remaining = circle.budget - circle.spent;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShoppingBag className="w-5 h-5" />
+            <span>Review Order</span>
+          </DialogTitle>
+          <DialogDescription>
+            Approved and purchased items are ordered and leave the cart. The order can't be changed once placed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preview ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        ) : preview.items.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">There are no approved items to check out.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+              {preview.items.map((item) => (
+                <OrderItemRow key={item.cart_item_id} item={item} />
+              ))}
+            </div>
+            <div className="border-t border-gray-200 pt-3 space-y-1 text-sm">
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>Total</span>
+                <span>{formatCents(preview.total)}</span>
+              </div>
+              <div className="flex justify-between text-gray-500">
+                <span>Budget remaining</span>
+                <span className={remaining < 0 ? "text-[hsl(var(--error))]" : undefined}>
+                  {formatCents(remaining)} of {formatCents(circle.budget)}
+                </span>
+              </div>
+            </div>
+            {(preview.proposedCount > 0 || preview.rejectedCount > 0) && (
+              <p className="text-xs text-gray-500">
+                {preview.proposedCount > 0 && `${preview.proposedCount} proposed items stay in the cart. `}
+                {preview.rejectedCount > 0 && `${preview.rejectedCount} rejected items will be cleared.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[hsl(var(--success))] hover:bg-[hsl(var(--success))]/90"
+            disabled={!preview || preview.items.length === 0 || checkoutMutation.isPending}
+            onClick={() => preview && checkoutMutation.mutate(preview.total)}
+          >
+            {checkoutMutation.isPending ? "Placing order..." : "Place order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
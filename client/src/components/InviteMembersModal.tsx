@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CircleInvite } from "@/types";
+import { UserPlus, Copy, Trash2 } from "lucide-react";
+
+interface InviteMembersModalProps {
+  isOpen: boolean;
+  circleId: number;
+  onClose: () => void;
+}
+
+const USAGE_OPTIONS = [
+  { value: "1", label: "Single use" },
+  { value: "5", label: "Up to 5 people" },
+  { value: "unlimited", label: "Unlimited" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "24", label: "1 day" },
+  { value: "168", label: "7 days" },
+  { value: "720", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+export const getInviteLink = (token: string) => {
+  return `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+};
+
+export function InviteMembersModal({ isOpen, circleId, onClose }: InviteMembersModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [usage, setUsage] = useState("1");
+  const [expiry, setExpiry] = useState("168");
+
+  const invitesQueryKey = ["/api/circles", circleId, "invites"];
+
+  const { data: invites = [] } = useQuery<CircleInvite[]>({
+    queryKey: invitesQueryKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/circles/${circleId}/invites`);
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/circles/${circleId}/invites`, {
+        email: email.trim() || undefined,
+        maxUses: usage === "unlimited" ? null : parseInt(usage),
+        expiresInHours: expiry === "never" ? null : parseInt(expiry),
+      });
+      return response.json() as Promise<CircleInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey });
+      setEmail("");
+      copyLink(invite.token);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create invite",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      await apiRequest("DELETE", `/api/circles/${circleId}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey });
+      toast({ title: "Invite revoked" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to revoke invite",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(token));
+      toast({ title: "Invite link copied", description: "Share it with the people you want to invite." });
+    } catch {
+      toast({ title: "Invite link", description: getInviteLink(token) });
+    }
+  };
+
+  const describeInvite = (invite: CircleInvite) => {
+    const uses = invite.max_uses ? `${invite.uses}/${invite.max_uses} uses` : `${invite.uses} uses`;
+    const expires = invite.expires_at
+      ? `expires ${new Date(invite.expires_at).toLocaleDateString()}`
+      : "never expires";
+    return `${uses} • ${expires}`;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-[hsl(var(--walmart-blue))] rounded-full flex items-center justify-center">
+              <UserPlus className="w-4 h-4 text-white" />
+            </div>
+            <span>Invite Members</span>
+          </DialogTitle>
+          <DialogDescription>
+            Create an invite link to share, or tie it to someone's email address.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email (Optional)</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="friend@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Usage</Label>
+              <Select value={usage} onValueChange={setUsage}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => createInviteMutation.mutate()}
+              disabled={createInviteMutation.isPending}
+            >
+              {createInviteMutation.isPending ? "Creating..." : "Create Invite Link"}
+            </Button>
+          </div>
+
+          {invites.length > 0 && (
+            <div className="pt-4 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Invite links</h4>
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {invite.email || "Anyone with the link"}
+                        </span>
+                        {invite.status !== "valid" && (
+                          <Badge variant="secondary">{invite.status}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">{describeInvite(invite)}</p>
+                    </div>
+                    {invite.status === "valid" && (
+                      <div className="flex items-center space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => copyLink(invite.token)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeInviteMutation.mutate(invite.id)}
+                          disabled={revokeInviteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-[hsl(var(--error))]" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
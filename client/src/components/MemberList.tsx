@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { PRESENCE_DOT_CLASSES, PRESENCE_LABELS } from "@/lib/presence";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Circle, CircleMember } from "@/types";
+import { MoreVertical, Crown, Shield, LogOut } from "lucide-react";
+
+interface MemberListProps {
+  circle: Circle;
+  onLeft?: () => void;
+}
+
+const ROLE_OPTIONS = [
+  { role: "admin", label: "Make admin" },
+  { role: "member", label: "Make member" },
+  { role: "viewer", label: "Make viewer (read-only)" },
+];
+
+type PendingAction =
+  | { type: "remove"; member: CircleMember }
+  | { type: "transfer"; member: CircleMember }
+  | { type: "leave" };
+
+export function MemberList({ circle, onLeft }: MemberListProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const members = circle.members || [];
+  const permissions = circle.permissions || [];
+  const isOwner = circle.userRole === "owner";
+
+  const refreshCircle = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/circles"] });
+  };
+
+  const memberMutation = useMutation({
+    mutationFn: async (action: PendingAction | { type: "set_role"; member: CircleMember; role: string }) => {
+      switch (action.type) {
+        case "set_role":
+          return apiRequest("PATCH", `/api/circles/${circle.id}/members/${action.member.userId}`, { role: action.role });
+        case "remove":
+          return apiRequest("DELETE", `/api/circles/${circle.id}/members/${action.member.userId}`);
+        case "transfer":
+          return apiRequest("POST", `/api/circles/${circle.id}/transfer-ownership`, { userId: action.member.userId });
+        case "leave":
+          return apiRequest("POST", `/api/circles/${circle.id}/leave`);
+      }
+    },
+    onSuccess: (_response, action) => {
+      refreshCircle();
+      if (action.type === "leave") {
+        toast({ title: `You left ${circle.name}` });
+        onLeft?.();
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't update membership",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmPendingAction = () => {
+    if (pendingAction) {
+      memberMutation.mutate(pendingAction);
+    }
+    setPendingAction(null);
+  };
+
+  const getInitials = (firstName: string, lastName: string) => {
+    return `${firstName?.charAt(0) ?? ""}${lastName?.charAt(0) ?? ""}`.toUpperCase();
+  };
+
+  const describePendingAction = () => {
+    switch (pendingAction?.type) {
+      case "remove":
+        return {
+          title: `Remove ${pendingAction.member.user.firstName}?`,
+          description: "They will lose access to this circle's chat, cart and tasks.",
+        };
+      case "transfer":
+        return {
+          title: `Make ${pendingAction.member.user.firstName} the owner?`,
+          description: "You will stay an admin, but only the new owner can transfer ownership again.",
+        };
+      case "leave":
+        return {
+          title: `Leave ${circle.name}?`,
+          description: "You will need a new invite to rejoin.",
+        };
+      default:
+        return { title: "", description: "" };
+    }
+  };
+
+  const pendingCopy = describePendingAction();
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900">Members</h3>
+        <span className="text-sm text-gray-500">{members.length}</span>
+      </div>
+
+      <div className="space-y-3">
+        {members.map((member) => {
+          const memberIsOwner = circle.createdBy === member.userId;
+          const isSelf = member.userId === user?.id;
+          const canManage = permissions.includes("member.kick") && !isSelf && !memberIsOwner;
+          const canChangeRole = permissions.includes("member.role") && !isSelf && !memberIsOwner;
+
+          return (
+            <div key={member.id} className="flex items-center justify-between">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="relative w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                  {getInitials(member.user.firstName, member.user.lastName)}
+                  <span
+                    className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white ${
+                      PRESENCE_DOT_CLASSES[member.presence ?? "offline"]
+                    }`}
+                    title={PRESENCE_LABELS[member.presence ?? "offline"]}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <h4 className="font-medium text-gray-900 truncate">
+                    {member.user.firstName} {member.user.lastName}
+                    {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                  </h4>
+                  <div className="flex items-center space-x-1">
+                    {memberIsOwner ? (
+                      <Badge variant="secondary" className="text-xs">
+                        <Crown className="w-3 h-3 mr-1" />
+                        Owner
+                      </Badge>
+                    ) : member.role === "admin" ? (
+                      <Badge variant="secondary" className="text-xs">
+                        <Shield className="w-3 h-3 mr-1" />
+                        Admin
+                      </Badge>
+                    ) : member.role === "viewer" ? (
+                      <span className="text-xs text-gray-500">Viewer</span>
+                    ) : (
+                      <span className="text-xs text-gray-500">Member</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {(canManage || canChangeRole || (isOwner && !isSelf) || isSelf) && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" disabled={memberMutation.isPending}>
+                      <MoreVertical className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {canChangeRole && ROLE_OPTIONS.filter((option) => option.role !== member.role).map((option) => (
+                      <DropdownMenuItem
+                        key={option.role}
+                        onClick={() => memberMutation.mutate({ type: "set_role", member, role: option.role })}
+                      >
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))}
+                    {isOwner && !isSelf && (
+                      <DropdownMenuItem onClick={() => setPendingAction({ type: "transfer", member })}>
+                        Transfer ownership
+                      </DropdownMenuItem>
+                    )}
+                    {canManage && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-[hsl(var(--error))]"
+                          onClick={() => setPendingAction({ type: "remove", member })}
+                        >
+                          Remove from circle
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                    {isSelf && (
+                      <DropdownMenuItem
+                        className="text-[hsl(var(--error))]"
+                        onClick={() => setPendingAction({ type: "leave" })}
+                      >
+                        <LogOut className="w-4 h-4 mr-2" />
+                        Leave circle
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingCopy.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingCopy.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingAction}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { CircleMember } from "@/types";
+
+const MAX_SUGGESTIONS = 5;
+
+// Members whose username or first name starts with what has been typed
+// after the "@"
+export const matchMentionCandidates = (members: CircleMember[], query: string, selfId?: string) => {
+  return members
+    .filter((member) => member.userId !== selfId && member.user?.username)
+    .filter((member) =>
+      member.user.username.toLowerCase().startsWith(query) ||
+      member.user.firstName?.toLowerCase().startsWith(query)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+interface MentionSuggestionsProps {
+  candidates: CircleMember[];
+  activeIndex: number;
+  onPick: (member: CircleMember) => void;
+}
+
+export function MentionSuggestions({ candidates, activeIndex, onPick }: MentionSuggestionsProps) {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-64 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+      {candidates.map((member, index) => (
+        <button
+          key={member.userId}
+          // Keep focus in the input so the caret position survives the pick
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onPick(member);
+          }}
+          className={`flex w-full items-center space-x-2 px-3 py-1.5 text-left text-sm ${
+            index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50"
+          }`}
+        >
+          <span className="font-medium text-gray-900">
+            {member.user.firstName} {member.user.lastName}
+          </span>
+          <span className="text-gray-500">@{member.user.username}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { MENTION_PATTERN } from "@/lib/mentions";
+import { MentionedUser } from "@/types";
+
+interface MentionTextProps {
+  content: string;
+  mentions?: MentionedUser[];
+}
+
+// Highlights the @usernames the server resolved to circle members; anything
+// else that looks like a mention stays plain text
+export function MentionText({ content, mentions }: MentionTextProps) {
+  const { user } = useAuth();
+  const mentioned = new Set((mentions || []).map((mention) => mention.username.toLowerCase()));
+  if (mentioned.size === 0) {
+    return <>{content}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    const username = match[2].replace(/[.-]+$/, "");
+    if (!mentioned.has(username.toLowerCase())) continue;
+
+    const start = (match.index ?? 0) + match[1].length;
+    const isSelf = username.toLowerCase() === user?.username?.toLowerCase();
+    parts.push(content.slice(last, start));
+    parts.push(
+      <span
+        key={start}
+        className={`rounded px-0.5 font-medium ${isSelf ? "bg-yellow-100 text-yellow-800" : "bg-blue-50 text-primary"}`}
+      >
+        @{username}
+      </span>
+    );
+    last = start + username.length + 1;
+  }
+  parts.push(content.slice(last));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { fetchBlob } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MessageAttachment } from "@/types";
+import { FileText, X } from "lucide-react";
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Attachment downloads need the auth header, so images are fetched and
+// shown through an object URL
+function useAuthorizedUrl(url: string | null) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    let created: string | null = null;
+
+    fetchBlob(url)
+      .then((blob) => {
+        if (cancelled) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      .catch(() => setObjectUrl(null));
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [url]);
+
+  return objectUrl;
+}
+
+function AttachmentThumbnail({ attachment }: { attachment: MessageAttachment }) {
+  const src = useAuthorizedUrl(`/api/attachments/${attachment.id}/thumbnail`);
+
+  return src ? (
+    <img src={src} alt={attachment.file_name} className="max-h-48 max-w-xs rounded-md border border-gray-200" />
+  ) : (
+    <div className="h-24 w-32 rounded-md bg-gray-100 animate-pulse" />
+  );
+}
+
+interface MessageAttachmentsProps {
+  attachments?: MessageAttachment[];
+}
+
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  const { toast } = useToast();
+
+  if (!attachments?.length) {
+    return null;
+  }
+
+  const openAttachment = async (attachment: MessageAttachment) => {
+    try {
+      const url = URL.createObjectURL(await fetchBlob(`/api/attachments/${attachment.id}`));
+      const link = document.createElement("a");
+      link.href = url;
+      if (attachment.thumbnail_key) {
+        link.target = "_blank";
+      } else {
+        link.download = attachment.file_name;
+      }
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't open attachment",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <button
+          key={attachment.id}
+          onClick={() => openAttachment(attachment)}
+          title={attachment.file_name}
+          className="text-left"
+        >
+          {attachment.thumbnail_key ? (
+            <AttachmentThumbnail attachment={attachment} />
+          ) : (
+            <div className="flex items-center space-x-2 rounded-md border border-gray-200 px-3 py-2 text-sm hover:bg-gray-50 transition-colors">
+              <FileText className="w-4 h-4 text-gray-500" />
+              <span className="max-w-[12rem] truncate text-gray-700">{attachment.file_name}</span>
+              <span className="text-xs text-gray-400">{formatFileSize(attachment.size)}</span>
+            </div>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PendingAttachmentsProps {
+  attachments: MessageAttachment[];
+  onRemove: (attachment: MessageAttachment) => void;
+}
+
+// Uploaded files waiting for the message to be sent
+export function PendingAttachments({ attachments, onRemove }: PendingAttachmentsProps) {
+  if (!attachments.length) {
+    return null;
+  }
+
+  return (
+    <div className="mb-2 flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <span
+          key={attachment.id}
+          className="flex items-center space-x-1 rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700"
+        >
+          <span className="max-w-[10rem] truncate">{attachment.file_name}</span>
+          <span className="text-gray-400">{formatFileSize(attachment.size)}</span>
+          <button onClick={() => onRemove(attachment)} className="text-gray-400 hover:text-gray-600">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MentionText } from "@/components/MentionText";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Message } from "@/types";
+import { Pencil, Trash2 } from "lucide-react";
+
+interface MessageBodyProps {
+  message: Message;
+  // Circle admins may delete anyone's message; everyone else only their own
+  canModerate?: boolean;
+}
+
+export function MessageBody({ message, canModerate }: MessageBodyProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const isAuthor = message.userId === user?.id;
+
+  const refreshMessages = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/circles", message.circleId, "messages"] });
+    if (message.replyTo) {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", message.replyTo, "replies"] });
+    }
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async (content: string) => {
+      await apiRequest("PATCH", `/api/messages/${message.id}`, { content });
+    },
+    onSuccess: () => {
+      setDraft(null);
+      refreshMessages();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't edit message",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/messages/${message.id}`);
+    },
+    onSuccess: refreshMessages,
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't delete message",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveDraft = () => {
+    if (draft?.trim()) {
+      editMutation.mutate(draft.trim());
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      saveDraft();
+    } else if (e.key === "Escape") {
+      setDraft(null);
+    }
+  };
+
+  if (message.deletedAt) {
+    return <div className="mt-1 text-gray-400 italic">This message was deleted</div>;
+  }
+
+  if (draft !== null) {
+    return (
+      <div className="mt-1 flex items-center space-x-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus
+        />
+        <Button size="sm" onClick={saveDraft} disabled={!draft.trim() || editMutation.isPending}>
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mt-1 text-gray-700">
+        <MentionText content={message.content} mentions={message.mentions} />
+        {message.editedAt && (
+          <span
+            className="ml-1 text-xs text-gray-400"
+            title={`Edited ${new Date(message.editedAt).toLocaleString()}`}
+          >
+            (edited)
+          </span>
+        )}
+      </div>
+
+      {(isAuthor || canModerate) && (
+        <div className="mt-1 flex items-center space-x-3 text-xs text-gray-500">
+          {isAuthor && (
+            <button onClick={() => setDraft(message.content)} className="hover:text-primary transition-colors">
+              <Pencil className="w-3 h-3 mr-1 inline" />
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            disabled={deleteMutation.isPending}
+            className="hover:text-[hsl(var(--error))] transition-colors"
+          >
+            <Trash2 className="w-3 h-3 mr-1 inline" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the circle will see that a message was deleted, but not what it said.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
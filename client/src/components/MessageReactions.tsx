@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSocket } from "@/contexts/SocketContext";
+import { useToast } from "@/hooks/use-toast";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Message } from "@/types";
+import { Smile } from "lucide-react";
+
+export const REACTION_EMOJI = ["👍", "❤️", "😂", "😮", "😢", "🛒"];
+
+interface ReactionPickerProps {
+  onPick: (emoji: string) => void;
+  children: React.ReactNode;
+}
+
+export function ReactionPicker({ onPick, children }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="flex space-x-1">
+          {REACTION_EMOJI.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onPick(emoji);
+                setOpen(false);
+              }}
+              className="text-xl p-1 rounded hover:bg-gray-100 transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface MessageReactionsProps {
+  message: Message;
+  // Show a button to add a new reaction next to the existing ones
+  showPicker?: boolean;
+}
+
+export function MessageReactions({ message, showPicker }: MessageReactionsProps) {
+  const { user } = useAuth();
+  const { addReaction, removeReaction } = useSocket();
+  const { toast } = useToast();
+  const reactions = message.reactions ?? [];
+
+  const toggleReaction = (emoji: string, reacted: boolean) => {
+    (reacted ? removeReaction : addReaction)(message.id, emoji).catch((error) => {
+      toast({
+        title: "Couldn't update reaction",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  if (message.deletedAt || (reactions.length === 0 && !showPicker)) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1">
+      {reactions.map((reaction) => {
+        const reacted = reaction.users.some((reactor) => reactor.id === user?.id);
+        const names = reaction.users.map((reactor) => `${reactor.first_name} ${reactor.last_name}`).join(", ");
+
+        return (
+          <button
+            key={reaction.emoji}
+            title={names}
+            onClick={() => toggleReaction(reaction.emoji, reacted)}
+            className={`px-2 py-0.5 rounded-full border text-sm transition-colors ${
+              reacted ? "border-primary bg-blue-50" : "border-gray-200 bg-white hover:bg-gray-50"
+            }`}
+          >
+            {reaction.emoji} <span className="text-xs text-gray-600">{reaction.count}</span>
+          </button>
+        );
+      })}
+
+      {showPicker && (
+        <ReactionPicker onPick={(emoji) => toggleReaction(emoji, false)}>
+          <button className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+            <Smile className="w-4 h-4" />
+          </button>
+        </ReactionPicker>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { OrderItemRow } from "@/components/CheckoutDialog";
+import { Order } from "@/types";
+import { History } from "lucide-react";
+
+interface OrderHistoryDialogProps {
+  isOpen: boolean;
+  circleId: number;
+  onClose: () => void;
+}
+
+export function OrderHistoryDialog({ isOpen, circleId, onClose }: OrderHistoryDialogProps) {
+  const queryClient = useQueryClient();
+
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ["/api/circles", circleId, "orders"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/circles/${circleId}/orders`);
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    const handleOrderPlaced = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circleId, "orders"] });
+    };
+
+    window.addEventListener("order_placed", handleOrderPlaced);
+    return () => window.removeEventListener("order_placed", handleOrderPlaced);
+  }, [circleId, queryClient]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Past Orders</span>
+          </DialogTitle>
+          <DialogDescription>Everything this circle has checked out, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-4">
+          {!isLoading && orders.length === 0 && (
+            <p className="text-sm text-gray-500 py-4">No orders placed yet.</p>
+          )}
+          {orders.map((order) => (
+            <div key={order.id} className="rounded-lg border border-gray-200 p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-semibold text-gray-900">Order #{order.id}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(order.created_at).toLocaleString()}
+                    {order.placed_by_user &&
+                      ` • ${order.placed_by_user.first_name} ${order.placed_by_user.last_name}`}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-primary">${(order.total / 100).toFixed(2)}</span>
+              </div>
+              <div className="mt-2 divide-y divide-gray-100">
+                {order.items.map((item) => (
+                  <OrderItemRow key={item.cart_item_id} item={item} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
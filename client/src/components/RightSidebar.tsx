@@ -1,26 +1,74 @@
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSocket } from "@/contexts/SocketContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { CartItem, Task } from "@/types";
-import { ThumbsUp, ThumbsDown, ShoppingBag, Plus, CheckCircle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { MemberList } from "@/components/MemberList";
+import { VotingPolicyPopover } from "@/components/VotingPolicyPopover";
+import { CheckoutDialog } from "@/components/CheckoutDialog";
+import { OrderHistoryDialog } from "@/components/OrderHistoryDialog";
+import { SocketRequestError } from "@/lib/socket";
+import { Circle, CartItem, CartItemStatus, SearchResult, Task } from "@/types";
+import type { CartItemUpdates } from "@shared/protocol";
+import { ThumbsUp, ThumbsDown, ShoppingBag, Plus, CheckCircle, Loader2, Pencil, History } from "lucide-react";
 import { useState, useEffect } from "react";
 
 interface RightSidebarProps {
   circleId: number;
   activeTab: string;
+  circle?: Circle;
+  onLeftCircle?: () => void;
+  // A cart item or task search result to scroll to and highlight
+  searchTarget?: SearchResult | null;
+  onSearchTargetHandled?: () => void;
 }
 
-export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
+const HIGHLIGHT_MS = 2000;
+
+// Select items can't have an empty value
+const UNASSIGNED = "unassigned";
+
+const STATUS_BADGES: Record<CartItemStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  proposed: { label: "Proposed", variant: "outline" },
+  approved: { label: "Approved", variant: "secondary" },
+  rejected: { label: "Rejected", variant: "destructive" },
+  purchased: { label: "Purchased", variant: "default" },
+};
+
+const isVotingOpen = (item: CartItem) =>
+  item.status !== "purchased" && (!item.votingClosesAt || new Date(item.votingClosesAt).getTime() > Date.now());
+
+interface ItemDraft {
+  name: string;
+  price: string;
+  quantity: string;
+  notes: string;
+}
+
+export function RightSidebar({
+  circleId,
+  activeTab,
+  circle,
+  onLeftCircle,
+  searchTarget,
+  onSearchTargetHandled,
+}: RightSidebarProps) {
   const { user, token } = useAuth();
-  const { voteItem, addCartItem } = useSocket();
+  const { voteItem, addCartItem, updateCartItem, markItemPurchased } = useSocket();
   const [newItemName, setNewItemName] = useState("");
   const [newItemPrice, setNewItemPrice] = useState("");
   const [showAddItem, setShowAddItem] = useState(false);
+  const [editingItemId, setEditingItemId] = useState<number | null>(null);
+  const [itemDraft, setItemDraft] = useState<ItemDraft>({ name: "", price: "", quantity: "", notes: "" });
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [showOrders, setShowOrders] = useState(false);
   const queryClient = useQueryClient();
 
-  const { data: cartItems = [] } = useQuery({
+  const { data: cartItems = [], isSuccess: cartLoaded } = useQuery({
     queryKey: ["/api/circles", circleId, "cart"],
     queryFn: async () => {
       const response = await fetch(`/api/circles/${circleId}/cart`, {
@@ -31,7 +79,7 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
     enabled: !!circleId,
   });
 
-  const { data: tasks = [] } = useQuery({
+  const { data: tasks = [], isSuccess: tasksLoaded } = useQuery({
     queryKey: ["/api/circles", circleId, "tasks"],
     queryFn: async () => {
       const response = await fetch(`/api/circles/${circleId}/tasks`, {
@@ -60,20 +108,126 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
     };
   }, [circleId, queryClient]);
 
-  const handleVote = (itemId: number, vote: number) => {
-    voteItem(itemId, vote);
-  };
+  useEffect(() => {
+    if (!searchTarget || searchTarget.type === "message") return;
+    if (!(searchTarget.type === "cart_item" ? cartLoaded : tasksLoaded)) return;
 
-  const handleAddItem = () => {
-    if (newItemName.trim() && newItemPrice.trim()) {
-      const price = Math.round(parseFloat(newItemPrice) * 100); // Convert to cents
-      addCartItem(newItemName.trim(), price, 1);
+    const elementId = `${searchTarget.type === "cart_item" ? "cart-item" : "task"}-${searchTarget.id}`;
+    const element = document.getElementById(elementId);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlighted(elementId);
+    }
+    onSearchTargetHandled?.();
+  }, [searchTarget, cartLoaded, tasksLoaded]);
+
+  useEffect(() => {
+    if (!highlighted) return;
+    const timeout = setTimeout(() => setHighlighted(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlighted]);
+
+  const highlightClass = (elementId: string) => (highlighted === elementId ? "ring-2 ring-yellow-300" : "");
+
+  // Both go over the socket and settle when the server acks; the cart
+  // itself refreshes from the broadcast that follows
+  const addItemMutation = useMutation({
+    mutationFn: ({ name, price, overrideBudgetLock }: { name: string; price: number; overrideBudgetLock?: boolean }) =>
+      addCartItem(name, price, 1, overrideBudgetLock),
+    onSuccess: () => {
       setNewItemName("");
       setNewItemPrice("");
       setShowAddItem(false);
+    },
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: ({ itemId, vote }: { itemId: number; vote: 1 | -1 }) => voteItem(itemId, vote),
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: ({ itemId, purchased }: { itemId: number; purchased: boolean }) => markItemPurchased(itemId, purchased),
+  });
+
+  // Saves from the inline editor and the assignee picker
+  const updateItemMutation = useMutation({
+    mutationFn: ({ itemId, updates, overrideBudgetLock }: {
+      itemId: number;
+      updates: CartItemUpdates;
+      overrideBudgetLock?: boolean;
+    }) => updateCartItem(itemId, updates, overrideBudgetLock),
+    onSuccess: (_result, { updates }) => {
+      if (!("assigned_to" in updates)) {
+        setEditingItemId(null);
+      }
+    },
+  });
+
+  const permissions = circle?.permissions ?? [];
+  const isAdmin = circle?.userRole === "owner" || circle?.userRole === "admin";
+  // Members may edit the items they added; taking an item on yourself only
+  // needs cart.add, handing it to anyone else needs cart.assign
+  const canEditItem = (item: CartItem) => permissions.includes("cart.update") && (isAdmin || item.addedBy === user?.id);
+  const canAssignAnyone = permissions.includes("cart.assign");
+  const assignableMembers = (circle?.members ?? []).filter(
+    (member) => member.role !== "viewer" && (canAssignAnyone || member.userId === user?.id)
+  );
+  const canChangeAssignee = (item: CartItem) =>
+    permissions.includes("cart.add") && (canAssignAnyone || !item.assignedTo || item.assignedTo === user?.id);
+  // Whoever the item is assigned to, or who added it while it's unassigned
+  const canMarkPurchased = (item: CartItem) =>
+    permissions.includes("cart.purchase") && (isAdmin || (item.assignedTo ?? item.addedBy) === user?.id);
+  // Admins can go ahead when a locked budget refuses an item
+  const canOverrideLock = (error: Error | null) =>
+    permissions.includes("budget.edit") && error instanceof SocketRequestError && error.code === "budget_locked";
+
+  const handleEditItem = (item: CartItem) => {
+    updateItemMutation.reset();
+    setItemDraft({
+      name: item.name,
+      price: (item.price / 100).toFixed(2),
+      quantity: String(item.quantity),
+      notes: item.notes ?? "",
+    });
+    setEditingItemId(item.id);
+  };
+
+  const handleSaveItem = (itemId: number) => {
+    const price = parseFloat(itemDraft.price);
+    const quantity = parseInt(itemDraft.quantity, 10);
+    if (!itemDraft.name.trim() || isNaN(price) || isNaN(quantity)) return;
+
+    updateItemMutation.mutate({
+      itemId,
+      updates: { name: itemDraft.name.trim(), price, quantity, notes: itemDraft.notes.trim() || null },
+    });
+  };
+
+  const handleCancelEditItem = () => {
+    updateItemMutation.reset();
+    setEditingItemId(null);
+  };
+
+  const handleAssign = (itemId: number, value: string) => {
+    updateItemMutation.mutate({ itemId, updates: { assigned_to: value === UNASSIGNED ? null : value } });
+  };
+
+  const handleVote = (itemId: number, vote: 1 | -1) => {
+    voteMutation.mutate({ itemId, vote });
+  };
+
+  const handleAddItem = () => {
+    const price = parseFloat(newItemPrice); // In dollars, as the server expects
+    if (newItemName.trim() && !isNaN(price)) {
+      addItemMutation.mutate({ name: newItemName.trim(), price });
     }
   };
 
+  const handleCancelAddItem = () => {
+    addItemMutation.reset();
+    setShowAddItem(false);
+  };
+
   const getVoteScore = (votes: any[]) => {
     return votes.reduce((sum, vote) => sum + vote.vote, 0);
   };
@@ -83,7 +237,10 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
     return userVote ? userVote.vote : 0;
   };
 
-  const cartTotal = cartItems.reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0);
+  // Rejected items don't count, same as in the budget
+  const cartTotal = cartItems
+    .filter((item: CartItem) => item.status !== "rejected")
+    .reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0);
 
   return (
     <div className="w-80 bg-gray-50 border-l border-gray-200 overflow-y-auto">
@@ -94,6 +251,7 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
             <h3 className="font-semibold text-gray-900">Shopping Cart</h3>
             <div className="flex items-center space-x-2">
               <span className="text-sm text-gray-500">{cartItems.length} items</span>
+              {circle && permissions.includes("circle.update") && <VotingPolicyPopover circle={circle} />}
               <Button
                 variant="ghost"
                 size="sm"
@@ -118,11 +276,25 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
                 type="number"
                 step="0.01"
               />
+              {addItemMutation.isError && (
+                <p className="text-sm text-[hsl(var(--error))]">
+                  Couldn't add the item: {addItemMutation.error.message}
+                </p>
+              )}
               <div className="flex space-x-2">
-                <Button size="sm" onClick={handleAddItem}>
-                  Add Item
+                <Button size="sm" onClick={handleAddItem} disabled={addItemMutation.isPending}>
+                  {addItemMutation.isPending ? "Adding..." : addItemMutation.isError ? "Retry" : "Add Item"}
                 </Button>
-                <Button size="sm" variant="ghost" onClick={() => setShowAddItem(false)}>
+                {canOverrideLock(addItemMutation.error) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => addItemMutation.mutate({ ...addItemMutation.variables!, overrideBudgetLock: true })}
+                  >
+                    Add anyway
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={handleCancelAddItem}>
                   Cancel
                 </Button>
               </div>
@@ -133,35 +305,191 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
             {cartItems.map((item: CartItem) => {
               const userVote = getUserVote(item.votes);
               const voteScore = getVoteScore(item.votes);
-              
+              const isThisItem = voteMutation.variables?.itemId === item.id;
+              const voting = voteMutation.isPending && isThisItem;
+              const voteFailed = voteMutation.isError && isThisItem;
+              const votingOpen = isVotingOpen(item);
+              const isPurchasingThisItem = purchaseMutation.variables?.itemId === item.id;
+              const purchasing = purchaseMutation.isPending && isPurchasingThisItem;
+              const purchaseFailed = purchaseMutation.isError && isPurchasingThisItem;
+              const statusBadge = item.status && (circle?.votingPolicy || item.status !== "approved")
+                ? STATUS_BADGES[item.status]
+                : null;
+              const isUpdatingThisItem = updateItemMutation.variables?.itemId === item.id;
+              const updating = updateItemMutation.isPending && isUpdatingThisItem;
+              const updateFailed = updateItemMutation.isError && isUpdatingThisItem;
+              const assignFailed = updateFailed && "assigned_to" in updateItemMutation.variables!.updates;
+
+              if (editingItemId === item.id) {
+                return (
+                  <div key={item.id} id={`cart-item-${item.id}`} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <Input
+                      placeholder="Item name"
+                      value={itemDraft.name}
+                      onChange={(e) => setItemDraft({ ...itemDraft, name: e.target.value })}
+                    />
+                    <div className="flex space-x-2">
+                      <Input
+                        placeholder="Price"
+                        value={itemDraft.price}
+                        onChange={(e) => setItemDraft({ ...itemDraft, price: e.target.value })}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                      />
+                      <Input
+                        placeholder="Qty"
+                        value={itemDraft.quantity}
+                        onChange={(e) => setItemDraft({ ...itemDraft, quantity: e.target.value })}
+                        type="number"
+                        step="1"
+                        min="1"
+                        className="w-20"
+                      />
+                    </div>
+                    <Textarea
+                      placeholder="Notes (brand, size, ...)"
+                      value={itemDraft.notes}
+                      onChange={(e) => setItemDraft({ ...itemDraft, notes: e.target.value })}
+                      rows={2}
+                    />
+                    {updateFailed && (
+                      <p className="text-sm text-[hsl(var(--error))]">
+                        Couldn't save the item: {updateItemMutation.error.message}
+                      </p>
+                    )}
+                    <div className="flex space-x-2">
+                      <Button size="sm" onClick={() => handleSaveItem(item.id)} disabled={updating}>
+                        {updating ? "Saving..." : updateFailed ? "Retry" : "Save"}
+                      </Button>
+                      {updateFailed && canOverrideLock(updateItemMutation.error) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            updateItemMutation.mutate({ ...updateItemMutation.variables!, overrideBudgetLock: true })
+                          }
+                        >
+                          Save anyway
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={handleCancelEditItem}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                );
+              }
+
               return (
-                <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div
+                  key={item.id}
+                  id={`cart-item-${item.id}`}
+                  className={`flex items-center justify-between p-3 bg-gray-50 rounded-lg ${highlightClass(`cart-item-${item.id}`)}`}
+                >
                   <div className="flex items-center space-x-3">
                     <div className="w-10 h-10 bg-gray-200 rounded-lg flex items-center justify-center">
                       <ShoppingBag className="w-5 h-5 text-gray-500" />
                     </div>
                     <div>
-                      <h4 className="font-medium text-gray-900">{item.name}</h4>
+                      <h4 className="font-medium text-gray-900 flex items-center gap-2">
+                        {item.name}
+                        {statusBadge && <Badge variant={statusBadge.variant}>{statusBadge.label}</Badge>}
+                      </h4>
                       <p className="text-sm text-gray-500">
-                        ${(item.price / 100).toFixed(2)} • Added by {item.user.firstName}
+                        ${(item.price / 100).toFixed(2)}
+                        {item.quantity > 1 && ` × ${item.quantity}`} • Added by {item.user.firstName}
                       </p>
+                      {item.notes && <p className="text-xs text-gray-500 italic">{item.notes}</p>}
+                      {item.status === "proposed" && item.votingClosesAt && (
+                        <p className="text-xs text-gray-500">
+                          Voting {votingOpen ? "closes" : "closed"} {new Date(item.votingClosesAt).toLocaleString()}
+                        </p>
+                      )}
+                      <Select
+                        value={item.assignedTo ?? UNASSIGNED}
+                        onValueChange={(value) => handleAssign(item.id, value)}
+                        disabled={!canChangeAssignee(item) || updating}
+                      >
+                        <SelectTrigger className="mt-1 h-7 w-40 text-xs">
+                          <SelectValue placeholder="Unassigned" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {item.assignedUser && !assignableMembers.some((member) => member.userId === item.assignedTo) && (
+                            <SelectItem value={item.assignedUser.id}>
+                              {item.assignedUser.firstName} {item.assignedUser.lastName}
+                            </SelectItem>
+                          )}
+                          {assignableMembers.map((member) => (
+                            <SelectItem key={member.userId} value={member.userId}>
+                              {member.userId === user?.id ? "Me" : `${member.user.firstName} ${member.user.lastName}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {assignFailed && (
+                        <p className="text-xs text-[hsl(var(--error))]">
+                          Couldn't assign: {updateItemMutation.error.message}
+                        </p>
+                      )}
+                      {purchaseFailed && (
+                        <p className="text-xs text-[hsl(var(--error))]">
+                          Couldn't update: {purchaseMutation.error.message}
+                        </p>
+                      )}
+                      {voteFailed && (
+                        <p className="text-xs text-[hsl(var(--error))]">
+                          Vote failed: {voteMutation.error.message}{" "}
+                          <button className="underline" onClick={() => voteMutation.mutate(voteMutation.variables!)}>
+                            Retry
+                          </button>
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {canEditItem(item) && (
+                      <button
+                        onClick={() => handleEditItem(item)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Edit item"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(item.status === "approved" || item.status === "purchased") && canMarkPurchased(item) && (
+                      <button
+                        onClick={() => purchaseMutation.mutate({ itemId: item.id, purchased: item.status !== "purchased" })}
+                        disabled={purchasing}
+                        className={`${
+                          item.status === "purchased" ? "text-[hsl(var(--success))]" : "text-gray-400"
+                        } hover:text-[hsl(var(--success))] transition-colors`}
+                        title={item.status === "purchased" ? "Mark not purchased" : "Mark purchased"}
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                      </button>
+                    )}
                     <div className="flex items-center space-x-1">
                       <button
                         onClick={() => handleVote(item.id, 1)}
+                        disabled={voting || !votingOpen}
                         className={`${
                           userVote === 1 ? "text-[hsl(var(--success))]" : "text-gray-400"
                         } hover:text-[hsl(var(--success))] transition-colors`}
                       >
                         <ThumbsUp className="w-4 h-4" />
                       </button>
-                      <span className="text-sm font-medium text-gray-700">
-                        {voteScore}
-                      </span>
+                      {voting ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                      ) : (
+                        <span className="text-sm font-medium text-gray-700">
+                          {voteScore}
+                        </span>
+                      )}
                       <button
                         onClick={() => handleVote(item.id, -1)}
+                        disabled={voting || !votingOpen}
                         className={`${
                           userVote === -1 ? "text-[hsl(var(--error))]" : "text-gray-400"
                         } hover:text-[hsl(var(--error))] transition-colors`}
@@ -182,11 +510,24 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
                 ${(cartTotal / 100).toFixed(2)}
               </span>
             </div>
-            <Button className="w-full bg-[hsl(var(--success))] hover:bg-[hsl(var(--success))]/90">
-              <ShoppingBag className="w-4 h-4 mr-2" />
-              Proceed to Checkout
+            {permissions.includes("cart.checkout") && (
+              <Button
+                className="w-full bg-[hsl(var(--success))] hover:bg-[hsl(var(--success))]/90"
+                onClick={() => setShowCheckout(true)}
+              >
+                <ShoppingBag className="w-4 h-4 mr-2" />
+                Proceed to Checkout
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => setShowOrders(true)}>
+              <History className="w-4 h-4 mr-2" />
+              Past orders
             </Button>
           </div>
+          {circle && (
+            <CheckoutDialog isOpen={showCheckout} circle={circle} onClose={() => setShowCheckout(false)} />
+          )}
+          <OrderHistoryDialog isOpen={showOrders} circleId={circleId} onClose={() => setShowOrders(false)} />
         </div>
 
         {/* Tasks Section */}
@@ -200,7 +541,11 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
 
           <div className="space-y-3">
             {tasks.map((task: Task) => (
-              <div key={task.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+              <div
+                key={task.id}
+                id={`task-${task.id}`}
+                className={`flex items-center space-x-3 p-3 bg-gray-50 rounded-lg ${highlightClass(`task-${task.id}`)}`}
+              >
                 <input
                   type="checkbox"
                   checked={task.completed}
@@ -226,27 +571,8 @@ export function RightSidebar({ circleId, activeTab }: RightSidebarProps) {
           </div>
         </div>
 
-        {/* Active Members */}
-        <div className="bg-white rounded-lg p-4 shadow-sm">
-          <h3 className="font-semibold text-gray-900 mb-4">Active Members</h3>
-          <div className="space-y-3">
-            {/* This would be populated with real member data */}
-            <div className="flex items-center space-x-3">
-              <div className="relative">
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                  {user?.firstName.charAt(0)}{user?.lastName.charAt(0)}
-                </div>
-                <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-[hsl(var(--success))] rounded-full border-2 border-white" />
-              </div>
-              <div>
-                <h4 className="font-medium text-gray-900">
-                  {user?.firstName} {user?.lastName}
-                </h4>
-                <p className="text-xs text-gray-500">Active now</p>
-              </div>
-            </div>
-          </div>
-        </div>
+        {/* Members */}
+        {circle && <MemberList circle={circle} onLeft={onLeftCircle} />}
       </div>
     </div>
   );
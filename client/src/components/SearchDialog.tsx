@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CircleMember, SearchPage, SearchResult, SearchResultType } from "@/types";
+import { CheckSquare, MessageSquare, Search, ShoppingBag } from "lucide-react";
+
+interface SearchDialogProps {
+  isOpen: boolean;
+  circleId: number;
+  members?: CircleMember[];
+  onClose: () => void;
+  onSelect: (result: SearchResult) => void;
+}
+
+const TYPE_OPTIONS: { type: SearchResultType; label: string; icon: typeof Search }[] = [
+  { type: "message", label: "Messages", icon: MessageSquare },
+  { type: "cart_item", label: "Cart items", icon: ShoppingBag },
+  { type: "task", label: "Tasks", icon: CheckSquare },
+];
+
+const SEARCH_DELAY_MS = 300;
+
+// The server marks matched words with these control characters
+const MATCH_PATTERN = /\u0002([^\u0003]*)\u0003/g;
+
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(MATCH_PATTERN);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchDialog({ isOpen, circleId, members = [], onClose, onSelect }: SearchDialogProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [types, setTypes] = useState<SearchResultType[]>([]);
+  const [authorId, setAuthorId] = useState("anyone");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (types.length) params.set("type", types.join(","));
+  if (authorId !== "anyone") params.set("author", authorId);
+  if (from) params.set("from", new Date(`${from}T00:00`).toISOString());
+  // The date inputs are inclusive, the API's `to` is exclusive
+  if (to) params.set("to", new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+  const { data, fetchNextPage, hasNextPage, isFetching, error } = useInfiniteQuery({
+    queryKey: ["/api/circles", circleId, "search", params.toString()],
+    queryFn: async ({ pageParam }): Promise<SearchPage> => {
+      const offset = pageParam ? `&offset=${pageParam}` : "";
+      const response = await apiRequest("GET", `/api/circles/${circleId}/search?${params}${offset}`);
+      return response.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: isOpen && !!debouncedQuery,
+  });
+
+  const results = data?.pages.flatMap((page) => page.results) ?? [];
+
+  const toggleType = (type: SearchResultType) => {
+    setTypes((current) => (current.includes(type) ? current.filter((t) => t !== type) : [...current, type]));
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    onSelect(result);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Search this circle</DialogTitle>
+          <DialogDescription>Find messages, cart items and tasks.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='Try apples, "farm stand" or milk -oat'
+              className="pl-9"
+              autoFocus
+            />
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex space-x-1">
+              {TYPE_OPTIONS.map(({ type, label, icon: Icon }) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant={types.includes(type) ? "default" : "outline"}
+                  onClick={() => toggleType(type)}
+                >
+                  <Icon className="w-4 h-4 mr-1" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">By</Label>
+              <Select value={authorId} onValueChange={setAuthorId}>
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="anyone">Anyone</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.user.firstName} {member.user.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {error && <p className="py-4 text-sm text-[hsl(var(--error))]">{(error as Error).message}</p>}
+            {!error && debouncedQuery && !isFetching && results.length === 0 && (
+              <p className="py-4 text-sm text-gray-500">No results for "{debouncedQuery}".</p>
+            )}
+            {results.map((result) => {
+              const Icon = TYPE_OPTIONS.find((option) => option.type === result.type)?.icon ?? Search;
+              return (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  onClick={() => handleSelect(result)}
+                  className="flex w-full items-start space-x-3 px-2 py-3 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <Icon className="mt-0.5 w-4 h-4 flex-shrink-0 text-gray-400" />
+                  <div className="min-w-0 flex-1">
+                    {result.title && <div className="font-medium text-gray-900 truncate">{result.title}</div>}
+                    <div className="text-sm text-gray-700 break-words">
+                      <Snippet text={result.snippet} />
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500">
+                      {result.user ? `${result.user.first_name} ${result.user.last_name} • ` : ""}
+                      {new Date(result.created_at).toLocaleDateString()}
+                      {result.reply_to && " • in a thread"}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+            {hasNextPage && (
+              <div className="py-2 text-center">
+                <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetching}>
+                  More results
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Circle } from "@/types";
 import { Users, Plus, LogOut } from "lucide-react";
 
+const MAX_BADGE_COUNT = 99;
+
 interface SidebarProps {
   circles: Circle[];
   selectedCircleId: number | null;
@@ -82,14 +84,18 @@ export function Sidebar({ circles, selectedCircleId, onCircleSelect, onCreateCir
                     {circle.name}
                   </h4>
                   <p className="text-sm text-gray-500">
-                    {circle.memberCount} members
+                    {circle.memberCount} members • {circle.onlineCount} online
                   </p>
                 </div>
                 <div className="flex flex-col items-end">
-                  <div className="w-2 h-2 bg-[hsl(var(--success))] rounded-full mb-1" />
-                  <div className="text-xs bg-[hsl(var(--error))] text-white px-2 py-1 rounded-full">
-                    {Math.floor(Math.random() * 5)}
-                  </div>
+                  {!!circle.unreadCount && (
+                    <div
+                      className="text-xs bg-[hsl(var(--error))] text-white px-2 py-1 rounded-full"
+                      title={`${circle.unreadCount} unread ${circle.unreadCount === 1 ? "message" : "messages"}`}
+                    >
+                      {circle.unreadCount > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : circle.unreadCount}
+                    </div>
+                  )}
                 </div>
               </button>
             ))}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef } from "react";
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSocket } from "@/contexts/SocketContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageBody } from "@/components/MessageBody";
+import { MessageReactions } from "@/components/MessageReactions";
+import { MessageAttachments } from "@/components/MessageAttachments";
+import { MentionText } from "@/components/MentionText";
+import {
+  appendMessage, patchMessage, withReactions, eventMessage, type MessagePages, type MessageEvent, type ReactionEvent
+} from "@/lib/messageCache";
+import { Message, MessageRepliesPage } from "@/types";
+import { Send, X } from "lucide-react";
+
+interface ThreadPanelProps {
+  parent: Message;
+  canModerate?: boolean;
+  // A reply to scroll to and highlight, e.g. a search result
+  highlightId?: number | null;
+  onClose: () => void;
+}
+
+export function ThreadPanel({ parent, canModerate, highlightId, onClose }: ThreadPanelProps) {
+  const { token } = useAuth();
+  const { sendMessage } = useSocket();
+  const { toast } = useToast();
+  const [replyInput, setReplyInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const scrolledToHighlightRef = useRef<number | null>(null);
+  const queryClient = useQueryClient();
+
+  const repliesQueryKey = ["/api/messages", parent.id, "replies"];
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: repliesQueryKey,
+    queryFn: async ({ pageParam }): Promise<MessageRepliesPage> => {
+      const params = pageParam ? `?before=${pageParam}` : "";
+      const response = await fetch(`/api/messages/${parent.id}/replies${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return response.json();
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // Pages come back newest first; each page is already oldest-to-newest
+  const replies = (data?.pages ?? []).slice().reverse().flatMap((page) => page.replies);
+
+  // Loads older replies until the highlighted one is in the list, then
+  // scrolls to it once
+  useEffect(() => {
+    if (!highlightId || scrolledToHighlightRef.current === highlightId || isFetchingNextPage) return;
+
+    if (replies.some((reply) => reply.id === highlightId)) {
+      document.getElementById(`reply-${highlightId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      scrolledToHighlightRef.current = highlightId;
+    } else if (hasNextPage && (replies[0]?.id ?? Infinity) > highlightId) {
+      fetchNextPage();
+    }
+  }, [highlightId, data, hasNextPage, isFetchingNextPage]);
+
+  // Only replies to this thread are patched in; the parent's own changes
+  // reach it through the timeline
+  useEffect(() => {
+    const update = (change: (data?: MessagePages<"replies">) => MessagePages<"replies"> | undefined) => {
+      queryClient.setQueryData<MessagePages<"replies">>(repliesQueryKey, change);
+    };
+
+    const handleReplyAdded = (event: CustomEvent<MessageEvent>) => {
+      const reply = eventMessage(event.detail);
+      if (reply.reply_to !== parent.id) return;
+      update((data) => appendMessage(data, "replies", reply));
+    };
+
+    const handleReplyChanged = (event: CustomEvent<MessageEvent>) => {
+      const reply = eventMessage(event.detail);
+      if (reply.reply_to !== parent.id) return;
+      update((data) => patchMessage(data, "replies", reply.id, (loaded) => ({ ...loaded, ...reply })));
+    };
+
+    const handleReactionUpdated = (event: CustomEvent<ReactionEvent>) => {
+      if (event.detail.reply_to !== parent.id) return;
+      update((data) => patchMessage(data, "replies", event.detail.message_id, withReactions(event.detail)));
+    };
+
+    window.addEventListener("new_message", handleReplyAdded as EventListener);
+    window.addEventListener("message_updated", handleReplyChanged as EventListener);
+    window.addEventListener("message_deleted", handleReplyChanged as EventListener);
+    window.addEventListener("reaction_updated", handleReactionUpdated as EventListener);
+    return () => {
+      window.removeEventListener("new_message", handleReplyAdded as EventListener);
+      window.removeEventListener("message_updated", handleReplyChanged as EventListener);
+      window.removeEventListener("message_deleted", handleReplyChanged as EventListener);
+      window.removeEventListener("reaction_updated", handleReactionUpdated as EventListener);
+    };
+  }, [parent.id, queryClient]);
+
+  const canSend = !!replyInput.trim() && !parent.deletedAt && !isSending;
+
+  // Kept in the input until the server acks it, as in the chat panel
+  const handleSendReply = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await sendMessage(replyInput.trim(), parent.id);
+      setReplyInput("");
+    } catch (error: any) {
+      toast({
+        title: "Couldn't send reply",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSendReply();
+    }
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const getInitials = (firstName: string, lastName: string) => {
+    return `${firstName?.charAt(0) ?? ""}${lastName?.charAt(0) ?? ""}`.toUpperCase();
+  };
+
+  return (
+    <div className="w-80 flex flex-col border-l border-gray-200 bg-white">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h3 className="font-semibold text-gray-900">Thread</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="pb-4 border-b border-gray-100">
+          <div className="flex items-center space-x-2">
+            <span className="font-medium text-gray-900">
+              {parent.user.firstName} {parent.user.lastName}
+            </span>
+            <span className="text-xs text-gray-500">{formatTime(parent.createdAt)}</span>
+          </div>
+          {parent.deletedAt ? (
+            <div className="mt-1 text-gray-400 italic">This message was deleted</div>
+          ) : (
+            <>
+              <div className="mt-1 text-gray-700">
+                <MentionText content={parent.content} mentions={parent.mentions} />
+              </div>
+              <MessageAttachments attachments={parent.attachments} />
+            </>
+          )}
+        </div>
+
+        {hasNextPage && (
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full text-sm text-primary hover:underline"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load older replies"}
+          </button>
+        )}
+
+        {replies.map((reply) => (
+          <div
+            key={reply.id}
+            id={`reply-${reply.id}`}
+            className={`flex items-start space-x-3 rounded-lg ${reply.id === highlightId ? "bg-yellow-50" : ""}`}
+          >
+            <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-xs font-medium">
+              {getInitials(reply.user.firstName, reply.user.lastName)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">
+                  {reply.user.firstName} {reply.user.lastName}
+                </span>
+                <span className="text-xs text-gray-500">{formatTime(reply.createdAt)}</span>
+              </div>
+              <MessageBody message={reply} canModerate={canModerate} />
+              <MessageAttachments attachments={reply.attachments} />
+              <MessageReactions message={reply} showPicker />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 p-4">
+        <div className="flex items-center space-x-2">
+          <Input
+            value={replyInput}
+            onChange={(e) => setReplyInput(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder={parent.deletedAt ? "This message was deleted" : "Reply in thread..."}
+            disabled={!!parent.deletedAt}
+          />
+          <Button onClick={handleSendReply} disabled={!canSend}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Circle } from "@/types";
+import type { VotingPolicy } from "@shared/protocol";
+import { Vote } from "lucide-react";
+
+interface VotingPolicyPopoverProps {
+  circle: Circle;
+}
+
+export function VotingPolicyPopover({ circle }: VotingPolicyPopoverProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [quorum, setQuorum] = useState("");
+  const [approvalPercent, setApprovalPercent] = useState("");
+  const [deadlineHours, setDeadlineHours] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: async (votingPolicy: VotingPolicy) => {
+      const response = await apiRequest("PATCH", `/api/circles/${circle.id}`, { votingPolicy });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", circle.id] });
+      setOpen(false);
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      const policy = circle.votingPolicy;
+      saveMutation.reset();
+      setEnabled(!!policy);
+      setQuorum(String(policy?.quorum ?? 2));
+      setApprovalPercent(String(policy?.approvalPercent ?? 50));
+      setDeadlineHours(policy?.deadlineHours ? String(policy.deadlineHours) : "");
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = () => {
+    if (!enabled) {
+      saveMutation.mutate(null);
+      return;
+    }
+    saveMutation.mutate({
+      quorum: parseInt(quorum, 10),
+      approvalPercent: parseInt(approvalPercent, 10),
+      deadlineHours: deadlineHours.trim() ? parseInt(deadlineHours, 10) : null,
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Voting policy">
+          <Vote className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="voting-enabled">Vote on new items</Label>
+            <p className="text-xs text-gray-500">Rejected items don't count against the budget</p>
+          </div>
+          <Switch id="voting-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+        {enabled && (
+          <div className="space-y-2">
+            <div className="space-y-1">
+              <Label htmlFor="voting-quorum">Votes needed</Label>
+              <Input
+                id="voting-quorum"
+                type="number"
+                min="1"
+                value={quorum}
+                onChange={(e) => setQuorum(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="voting-approval">Approve with more than (% upvotes)</Label>
+              <Input
+                id="voting-approval"
+                type="number"
+                min="0"
+                max="99"
+                value={approvalPercent}
+                onChange={(e) => setApprovalPercent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="voting-deadline">Voting closes after (hours)</Label>
+              <Input
+                id="voting-deadline"
+                type="number"
+                min="1"
+                placeholder="Never"
+                value={deadlineHours}
+                onChange={(e) => setDeadlineHours(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+        {saveMutation.isError && (
+          <p className="text-sm text-[hsl(var(--error))]">Couldn't save: {saveMutation.error.message}</p>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
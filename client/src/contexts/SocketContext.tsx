@@ -1,20 +1,33 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { useAuth } from "./AuthContext";
-import { WebSocketMessage, TypingUser } from "@/types";
+import { toast } from "@/hooks/use-toast";
+import { startHeartbeat } from "@/lib/presence";
+import { SocketManager, SocketRequestError } from "@/lib/socket";
+import { TypingUser } from "@/types";
+import type { AckResult, CartItemUpdates, ClientMessage, ClientMutation, ServerEvent, ServerMessage } from "@shared/protocol";
 
 interface SocketContextType {
-  socket: WebSocket | null;
   isConnected: boolean;
   currentCircleId: number | null;
   joinCircle: (circleId: number) => void;
   leaveCircle: () => void;
-  sendMessage: (content: string, replyTo?: number) => void;
+  sendMessage: (content: string, replyTo?: number, attachmentIds?: number[]) => Promise<AckResult>;
   sendTyping: (isTyping: boolean) => void;
-  voteItem: (itemId: number, vote: number) => void;
-  addCartItem: (name: string, price: number, quantity?: number) => void;
+  markRead: (messageId: number) => void;
+  addReaction: (messageId: number, emoji: string) => Promise<AckResult>;
+  removeReaction: (messageId: number, emoji: string) => Promise<AckResult>;
+  // Resolve with the updated or added item once the server confirms
+  voteItem: (itemId: number, vote: 1 | -1) => Promise<AckResult>;
+  // overrideBudgetLock lets admins go over a locked budget
+  addCartItem: (name: string, price: number, quantity?: number, overrideBudgetLock?: boolean) => Promise<AckResult>;
+  updateCartItem: (itemId: number, updates: CartItemUpdates, overrideBudgetLock?: boolean) => Promise<AckResult>;
+  markItemPurchased: (itemId: number, purchased: boolean) => Promise<AckResult>;
   typingUsers: TypingUser[];
 }
 
+// Shown as a toast as they arrive; everything else only updates the list
+const TOASTED_NOTIFICATIONS = ["mention", "budget_alert", "item_approved"];
+
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
 export const useSocket = () => {
@@ -31,7 +44,7 @@ interface SocketProviderProps {
 
 export const SocketProvider = ({ children }: SocketProviderProps) => {
   const { user, token } = useAuth();
-  const [socket, setSocket] = useState<WebSocket | null>(null);
+  const [manager, setManager] = useState<SocketManager | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [currentCircleId, setCurrentCircleId] = useState<number | null>(null);
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
@@ -39,47 +52,33 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
   useEffect(() => {
     if (!user || !token) return;
 
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    const ws = new WebSocket(wsUrl);
-
-    ws.onopen = () => {
-      console.log("WebSocket connected");
-      setIsConnected(true);
-      
-      // Authenticate
-      ws.send(JSON.stringify({
-        type: "auth",
-        data: { token }
-      }));
-    };
+    const socketManager = new SocketManager(token);
+    let stopHeartbeat: (() => void) | undefined;
 
-    ws.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        handleSocketMessage(message);
-      } catch (error) {
-        console.error("Failed to parse WebSocket message:", error);
+    socketManager.onMessage((message) => {
+      if (message.type === "auth_success") {
+        stopHeartbeat?.();
+        stopHeartbeat = startHeartbeat((beat) => socketManager.send(beat), message.heartbeatMs);
       }
-    };
-
-    ws.onclose = () => {
-      console.log("WebSocket disconnected");
-      setIsConnected(false);
-    };
-
-    ws.onerror = (error) => {
-      console.error("WebSocket error:", error);
-    };
+      handleSocketMessage(message);
+    });
+    socketManager.onStatusChange((connected) => {
+      setIsConnected(connected);
+      if (!connected) {
+        stopHeartbeat?.();
+        stopHeartbeat = undefined;
+      }
+    });
 
-    setSocket(ws);
+    setManager(socketManager);
 
     return () => {
-      ws.close();
+      stopHeartbeat?.();
+      socketManager.disconnect();
     };
   }, [user, token]);
 
-  const handleSocketMessage = (message: WebSocketMessage) => {
+  const handleSocketMessage = (message: ServerMessage) => {
     switch (message.type) {
       case "auth_success":
         console.log("WebSocket authenticated");
@@ -87,15 +86,54 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
       case "auth_error":
         console.error("WebSocket authentication failed:", message.message);
         break;
+      case "ack":
+        // Settles the promise returned by request()
+        break;
+      case "error":
+        if (!message.requestId) {
+          console.error("WebSocket error:", message.message);
+        }
+        break;
+      case "rate_limited":
+        // Requests are rejected by request(); a dropped typing event doesn't matter
+        if (!message.requestId && message.policy !== "typing") {
+          toast({
+            title: "Slow down",
+            description: `You're sending too fast. Try again in ${Math.ceil(message.retryAfterMs / 1000)}s.`,
+            variant: "destructive",
+          });
+        }
+        break;
       case "joined_circle":
         setCurrentCircleId(message.circleId);
         break;
       case "left_circle":
         setCurrentCircleId(null);
         break;
+      case "resync_required":
+        // Missed too much while disconnected to replay; refetch instead
+        window.dispatchEvent(new CustomEvent("resync_required", { detail: message }));
+        break;
       case "new_message":
-        // Handle new message - this could trigger a query refetch
-        window.dispatchEvent(new CustomEvent("new_message", { detail: message.message }));
+      case "message_updated":
+      case "message_deleted":
+        window.dispatchEvent(new CustomEvent(message.type, { detail: message }));
+        break;
+      case "reaction_updated":
+        window.dispatchEvent(new CustomEvent("reaction_updated", { detail: message }));
+        break;
+      case "presence":
+        window.dispatchEvent(new CustomEvent("presence", { detail: message }));
+        break;
+      case "read_updated":
+      case "unread_changed":
+        window.dispatchEvent(new CustomEvent(message.type, { detail: message }));
+        break;
+      case "notification":
+        if (TOASTED_NOTIFICATIONS.includes(message.notification.type)) {
+          toast({ title: message.notification.title, description: message.notification.message });
+        }
+        window.dispatchEvent(new CustomEvent("notification", { detail: message.notification }));
         break;
       case "typing":
         handleTypingMessage(message);
@@ -108,6 +146,11 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
         // Handle item added
         window.dispatchEvent(new CustomEvent("item_added", { detail: message.item }));
         break;
+      case "budget_updated":
+      case "circle_updated":
+      case "order_placed":
+        window.dispatchEvent(new CustomEvent(message.type, { detail: message }));
+        break;
       case "task_updated":
         // Handle task update
         window.dispatchEvent(new CustomEvent("task_updated", { detail: message.task }));
@@ -117,12 +160,24 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
         // Handle user presence changes
         window.dispatchEvent(new CustomEvent("user_presence", { detail: message }));
         break;
+      case "member_joined":
+      case "member_left":
+      case "member_removed":
+      case "member_role_changed":
+      case "ownership_transferred":
+        // Handle membership changes
+        window.dispatchEvent(new CustomEvent("circle_members_updated", { detail: message }));
+        break;
+      case "removed_from_circle":
+        setCurrentCircleId(prev => (prev === message.circleId ? null : prev));
+        window.dispatchEvent(new CustomEvent("removed_from_circle", { detail: message }));
+        break;
       default:
-        console.log("Unknown message type:", message.type);
+        console.log("Unknown message:", message);
     }
   };
 
-  const handleTypingMessage = (message: WebSocketMessage) => {
+  const handleTypingMessage = (message: ServerEvent<"typing">) => {
     const { userId, userName, isTyping } = message;
     
     setTypingUsers(prev => {
@@ -141,70 +196,106 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
     }
   };
 
-  const joinCircle = (circleId: number) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify({
-        type: "join_circle",
-        data: { circleId }
-      }));
+  const send = (message: ClientMessage) => {
+    if (manager && isConnected) {
+      manager.send(message);
     }
   };
 
-  const leaveCircle = () => {
-    if (socket && isConnected && currentCircleId) {
-      socket.send(JSON.stringify({
-        type: "leave_circle",
-        data: { circleId: currentCircleId }
-      }));
+  const request = (message: ClientMutation) => {
+    if (!manager) {
+      return Promise.reject(new SocketRequestError("Not connected"));
     }
+    return manager.request(message);
   };
 
-  const sendMessage = (content: string, replyTo?: number) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify({
-        type: "send_message",
-        data: { content, replyTo }
-      }));
-    }
+  // The manager remembers the circle, so a join made while disconnected
+  // happens once the connection is back
+  const joinCircle = (circleId: number) => {
+    manager?.joinCircle(circleId);
+  };
+
+  const leaveCircle = () => {
+    manager?.leaveCircle();
+  };
+
+  const sendMessage = (content: string, replyTo?: number, attachmentIds?: number[]) => {
+    return request({
+      type: "send_message",
+      data: { content, replyTo, attachmentIds }
+    });
   };
 
   const sendTyping = (isTyping: boolean) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify({
-        type: "typing",
-        data: { isTyping }
-      }));
-    }
+    send({
+      type: "typing",
+      data: { isTyping }
+    });
   };
 
-  const voteItem = (itemId: number, vote: number) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify({
-        type: "vote_item",
-        data: { itemId, vote }
-      }));
-    }
+  const markRead = (messageId: number) => {
+    send({
+      type: "mark_read",
+      data: { messageId }
+    });
   };
 
-  const addCartItem = (name: string, price: number, quantity?: number) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify({
-        type: "add_cart_item",
-        data: { name, price, quantity }
-      }));
-    }
+  const addReaction = (messageId: number, emoji: string) => {
+    return request({
+      type: "add_reaction",
+      data: { messageId, emoji }
+    });
+  };
+
+  const removeReaction = (messageId: number, emoji: string) => {
+    return request({
+      type: "remove_reaction",
+      data: { messageId, emoji }
+    });
+  };
+
+  const voteItem = (itemId: number, vote: 1 | -1) => {
+    return request({
+      type: "vote_item",
+      data: { itemId, vote }
+    });
+  };
+
+  const markItemPurchased = (itemId: number, purchased: boolean) => {
+    return request({
+      type: "mark_item_purchased",
+      data: { itemId, purchased }
+    });
+  };
+
+  const addCartItem = (name: string, price: number, quantity?: number, overrideBudgetLock?: boolean) => {
+    return request({
+      type: "add_cart_item",
+      data: { name, price, quantity, overrideBudgetLock }
+    });
+  };
+
+  const updateCartItem = (itemId: number, updates: CartItemUpdates, overrideBudgetLock?: boolean) => {
+    return request({
+      type: "update_cart_item",
+      data: { itemId, updates, overrideBudgetLock }
+    });
   };
 
   const value = {
-    socket,
     isConnected,
     currentCircleId,
     joinCircle,
     leaveCircle,
     sendMessage,
     sendTyping,
+    markRead,
+    addReaction,
+    removeReaction,
     voteItem,
     addCartItem,
+    updateCartItem,
+    markItemPurchased,
     typingUsers,
   };
 
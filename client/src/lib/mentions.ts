@@ -0,0 +1,25 @@
+// Same rule as server/mentions.ts: an "@" that doesn't follow a word
+// character, then the username
+export const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_][\w.-]*)/g;
+
+export interface MentionQuery {
+  // Index of the "@"
+  start: number;
+  query: string;
+}
+
+// The partial "@name" being typed just before the caret, if any
+export const getMentionQuery = (value: string, caret: number): MentionQuery | null => {
+  const match = /(^|[^\w@])@([\w.-]*)$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2].toLowerCase() };
+};
+
+// Replaces the partial mention with the full username and a trailing space
+export const insertMention = (value: string, mention: MentionQuery, caret: number, username: string) => {
+  const inserted = `@${username} `;
+  return {
+    value: value.slice(0, mention.start) + inserted + value.slice(caret),
+    caret: mention.start + inserted.length,
+  };
+};
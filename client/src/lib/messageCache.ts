@@ -0,0 +1,54 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import type { ServerEvent } from "@shared/protocol";
+import type { Message, MessageReaction } from "@/types";
+
+// Socket events are applied to the loaded pages of the timeline and thread
+// lists in place, so one edit or reaction doesn't refetch every page the
+// user has scrolled back through. Pages are newest first and each page is
+// oldest to newest, the same as they come from the API.
+
+type PageKey = "messages" | "replies";
+type Page<K extends PageKey> = Record<K, Message[]> & { nextCursor: number | null };
+export type MessagePages<K extends PageKey> = InfiniteData<Page<K>, number | null>;
+
+export type MessageEvent = ServerEvent<"new_message" | "message_updated" | "message_deleted">;
+export type ReactionEvent = ServerEvent<"reaction_updated">;
+
+// Events carry rows as the server sends them
+export const eventMessage = (event: MessageEvent) => event.message as unknown as Message & { reply_to?: number | null };
+
+// Adds a message after the newest one loaded, unless it's already there
+export const appendMessage = <K extends PageKey>(
+  data: MessagePages<K> | undefined,
+  key: K,
+  message: Message
+): MessagePages<K> | undefined => {
+  if (!data?.pages.length) return data;
+  if (data.pages.some((page) => page[key].some((loaded) => loaded.id === message.id))) return data;
+
+  const [newest, ...older] = data.pages;
+  return { ...data, pages: [{ ...newest, [key]: [...newest[key], message] }, ...older] };
+};
+
+// Applies a change to the loaded copy of one message, wherever its page is
+export const patchMessage = <K extends PageKey>(
+  data: MessagePages<K> | undefined,
+  key: K,
+  messageId: number,
+  patch: (message: Message) => Message
+): MessagePages<K> | undefined => {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) =>
+      page[key].some((message) => message.id === messageId)
+        ? { ...page, [key]: page[key].map((message) => (message.id === messageId ? patch(message) : message)) }
+        : page
+    ),
+  };
+};
+
+export const withReactions = (event: ReactionEvent) => (message: Message): Message => ({
+  ...message,
+  reactions: event.reactions as MessageReaction[],
+});
@@ -0,0 +1,50 @@
+import { PresenceStatus } from "@/types";
+import type { ClientMessage } from "@shared/protocol";
+
+const ACTIVITY_EVENTS = ["keydown", "pointerdown", "pointermove", "wheel", "touchstart"];
+
+// Sends a heartbeat every intervalMs saying whether the user did anything
+// since the last one, which is how the server tells online from idle.
+// Coming back to the tab reports activity straight away. Returns a stop
+// function.
+export const startHeartbeat = (send: (message: ClientMessage) => void, intervalMs: number) => {
+  let lastActivity = Date.now();
+  let lastBeat = Date.now();
+
+  const beat = () => {
+    const active = lastActivity > lastBeat;
+    lastBeat = Date.now();
+    send({ type: "heartbeat", data: { active } });
+  };
+  const markActive = () => {
+    lastActivity = Date.now();
+  };
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      markActive();
+      beat();
+    }
+  };
+
+  const timer = setInterval(beat, intervalMs);
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    clearInterval(timer);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+};
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: "Online",
+  idle: "Idle",
+  offline: "Offline",
+};
+
+export const PRESENCE_DOT_CLASSES: Record<PresenceStatus, string> = {
+  online: "bg-[hsl(var(--success))]",
+  idle: "bg-[hsl(var(--warning))]",
+  offline: "bg-gray-300",
+};
@@ -28,6 +28,34 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart upload of a single file under the "file" field
+export async function uploadFile(url: string, file: File): Promise<Response> {
+  const token = localStorage.getItem('token');
+  const body = new FormData();
+  body.append("file", file);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: token ? { "Authorization": `Bearer ${token}` } : {},
+    body,
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Fetches an authenticated file, e.g. an attachment, which can't be
+// loaded through a plain <img src> because the token travels in a header
+export async function fetchBlob(url: string): Promise<Blob> {
+  const token = localStorage.getItem('token');
+  const res = await fetch(url, {
+    headers: token ? { "Authorization": `Bearer ${token}` } : {},
+  });
+
+  await throwIfResNotOk(res);
+  return res.blob();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,11 +1,58 @@
-import { WebSocketMessage } from "@/types";
+import {
+  serverMessageSchema,
+  type AckResult,
+  type ClientMessage,
+  type ClientMutation,
+  type ServerMessage,
+} from "@shared/protocol";
 
+type MessageListener = (message: ServerMessage) => void;
+type StatusListener = (connected: boolean) => void;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Why a request() failed: the server's error, in which case field names
+// the invalid part of the request if there was one, or a local failure
+export class SocketRequestError extends Error {
+  constructor(message: string, public field?: string, public code?: string) {
+    super(message);
+    this.name = "SocketRequestError";
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: AckResult) => void;
+  reject: (error: SocketRequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// The circle the manager is in and how far into its event stream it got.
+// seq and epoch come from the server (see server/replay.ts).
+interface CircleCursor {
+  id: number;
+  seq: number | null;
+  epoch: string | null;
+}
+
+// Owns the connection: authenticates, reconnects with backoff and, once
+// authenticated again, rejoins the circle it was in with the last sequence
+// number seen. The server then replays what was missed, or sends
+// resync_required when it no longer has those events. Messages that don't
+// match the protocol are logged and dropped before listeners see them.
 export class SocketManager {
   private socket: WebSocket | null = null;
-  private token: string | null = null;
+  private token: string;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private authenticated = false;
+  private circle: CircleCursor | null = null;
+  private pendingRequests = new Map<string, PendingRequest>();
+  private nextRequestId = 1;
+  private messageListeners = new Set<MessageListener>();
+  private statusListeners = new Set<StatusListener>();
 
   constructor(token: string) {
     this.token = token;
@@ -15,13 +62,13 @@ export class SocketManager {
   private connect() {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
+
     this.socket = new WebSocket(wsUrl);
 
     this.socket.onopen = () => {
       console.log("WebSocket connected");
       this.reconnectAttempts = 0;
-      
+
       // Authenticate
       this.send({
         type: "auth",
@@ -29,9 +76,27 @@ export class SocketManager {
       });
     };
 
+    this.socket.onmessage = (event) => {
+      try {
+        const parsed = serverMessageSchema.safeParse(JSON.parse(event.data));
+        if (!parsed.success) {
+          console.error("Invalid WebSocket message:", parsed.error.issues);
+          return;
+        }
+        this.track(parsed.data);
+        this.messageListeners.forEach((listener) => listener(parsed.data));
+      } catch (error) {
+        console.error("Failed to parse WebSocket message:", error);
+      }
+    };
+
     this.socket.onclose = () => {
       console.log("WebSocket disconnected");
-      this.handleReconnect();
+      this.setAuthenticated(false);
+      this.failPendingRequests("Connection lost");
+      if (!this.closed) {
+        this.handleReconnect();
+      }
     };
 
     this.socket.onerror = (error) => {
@@ -43,8 +108,8 @@ export class SocketManager {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       console.log(`Reconnecting... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      
-      setTimeout(() => {
+
+      this.reconnectTimer = setTimeout(() => {
         this.connect();
       }, this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1));
     } else {
@@ -52,7 +117,69 @@ export class SocketManager {
     }
   }
 
-  public send(message: WebSocketMessage) {
+  private setAuthenticated(authenticated: boolean) {
+    if (this.authenticated === authenticated) return;
+    this.authenticated = authenticated;
+    this.statusListeners.forEach((listener) => listener(authenticated));
+  }
+
+  private sendJoin() {
+    if (!this.circle) return;
+
+    const { id, seq, epoch } = this.circle;
+    this.send({
+      type: "join_circle",
+      data: seq === null ? { circleId: id } : { circleId: id, lastSeq: seq, epoch: epoch ?? undefined }
+    });
+  }
+
+  // Keeps the circle cursor up to date with what the server has sent
+  private track(message: ServerMessage) {
+    const circle = this.circle;
+    switch (message.type) {
+      case "auth_success":
+        this.setAuthenticated(true);
+        this.sendJoin();
+        return;
+      case "joined_circle":
+      case "resync_required":
+        if (circle && circle.id === message.circleId) {
+          circle.seq = message.type === "joined_circle" ? Math.max(circle.seq ?? 0, message.seq) : message.seq;
+          circle.epoch = message.epoch;
+        }
+        return;
+      case "ack":
+        this.takePendingRequest(message.requestId)?.resolve(message.result);
+        return;
+      case "error":
+        if (message.requestId) {
+          this.takePendingRequest(message.requestId)?.reject(
+            new SocketRequestError(message.message, message.field, message.code)
+          );
+        }
+        return;
+      case "rate_limited":
+        if (message.requestId) {
+          const seconds = Math.ceil(message.retryAfterMs / 1000);
+          this.takePendingRequest(message.requestId)?.reject(
+            new SocketRequestError(`Too many requests, try again in ${seconds}s`)
+          );
+        }
+        return;
+      case "left_circle":
+      case "removed_from_circle":
+        if (circle && circle.id === message.circleId) {
+          this.circle = null;
+        }
+        return;
+    }
+
+    if (circle && "seq" in message && circle.id === message.circleId && typeof message.seq === "number") {
+      circle.seq = Math.max(circle.seq ?? 0, message.seq);
+    }
+  }
+
+  public send(message: ClientMessage) {
     if (this.socket && this.socket.readyState === WebSocket.OPEN) {
       this.socket.send(JSON.stringify(message));
     } else {
@@ -60,20 +187,77 @@ export class SocketManager {
     }
   }
 
-  public onMessage(callback: (message: WebSocketMessage) => void) {
-    if (this.socket) {
-      this.socket.onmessage = (event) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(event.data);
-          callback(message);
-        } catch (error) {
-          console.error("Failed to parse WebSocket message:", error);
-        }
-      };
+  // Sends a mutation and resolves with the entity from the server's ack.
+  // Rejects with the server's error, or when the socket isn't connected,
+  // drops before the answer arrives or no answer comes in time.
+  public request(message: ClientMutation): Promise<AckResult> {
+    if (!this.authenticated || !this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new SocketRequestError("Not connected"));
     }
+
+    const requestId = String(this.nextRequestId++);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.takePendingRequest(requestId)?.reject(new SocketRequestError("Request timed out"));
+      }, REQUEST_TIMEOUT_MS);
+      this.pendingRequests.set(requestId, { resolve, reject, timer });
+      this.send({ ...message, requestId });
+    });
+  }
+
+  private takePendingRequest(requestId: string) {
+    const pending = this.pendingRequests.get(requestId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(requestId);
+    }
+    return pending;
+  }
+
+  private failPendingRequests(reason: string) {
+    Array.from(this.pendingRequests.keys()).forEach((requestId) => {
+      this.takePendingRequest(requestId)?.reject(new SocketRequestError(reason));
+    });
+  }
+
+  // Joins straight away when authenticated, otherwise as soon as the
+  // connection is back
+  public joinCircle(circleId: number) {
+    this.circle = { id: circleId, seq: null, epoch: null };
+    if (this.authenticated) {
+      this.sendJoin();
+    }
+  }
+
+  public leaveCircle() {
+    if (!this.circle) return;
+
+    if (this.authenticated) {
+      this.send({ type: "leave_circle", data: { circleId: this.circle.id } });
+    }
+    this.circle = null;
+  }
+
+  public onMessage(callback: MessageListener) {
+    this.messageListeners.add(callback);
+    return () => {
+      this.messageListeners.delete(callback);
+    };
+  }
+
+  public onStatusChange(callback: StatusListener) {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
   }
 
   public disconnect() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.failPendingRequests("Disconnected");
     if (this.socket) {
       this.socket.close();
       this.socket = null;
@@ -1,14 +1,19 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSocket } from "@/contexts/SocketContext";
 import { Sidebar } from "@/components/Sidebar";
 import { ChatPanel } from "@/components/ChatPanel";
 import { RightSidebar } from "@/components/RightSidebar";
 import { CreateCircleModal } from "@/components/CreateCircleModal";
+import { InviteMembersModal } from "@/components/InviteMembersModal";
+import { SearchDialog } from "@/components/SearchDialog";
+import { BudgetSettingsPopover } from "@/components/BudgetSettingsPopover";
 import { Button } from "@/components/ui/button";
-import { Circle } from "@/types";
-import { Users, ShoppingCart, CheckSquare, BarChart3, Settings, Bell } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Circle, InvitePreview, SearchResult } from "@/types";
+import { Users, ShoppingCart, CheckSquare, BarChart3, Settings, Bell, UserPlus, Search, Lock } from "lucide-react";
 
 type TabType = "chat" | "cart" | "tasks" | "analytics";
 
@@ -18,6 +23,11 @@ export default function Dashboard() {
   const [selectedCircleId, setSelectedCircleId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>("chat");
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchTarget, setSearchTarget] = useState<SearchResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: circles = [] } = useQuery({
     queryKey: ["/api/circles"],
@@ -41,14 +51,120 @@ export default function Dashboard() {
     enabled: !!selectedCircleId,
   });
 
+  // Invite links look like /?invite=<token>; accept them once the user is signed in
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const inviteToken = params.get("invite");
+    if (!inviteToken) return;
+
+    window.history.replaceState(null, "", window.location.pathname);
+    acceptInvite(inviteToken);
+  }, []);
+
+  useEffect(() => {
+    const handleMembersUpdated = (event: CustomEvent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", event.detail.circleId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"] });
+    };
+
+    const handleRemovedFromCircle = (event: CustomEvent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"] });
+      if (event.detail.circleId === selectedCircleId) {
+        setSelectedCircleId(null);
+        toast({
+          title: "Removed from circle",
+          description: "You are no longer a member of this circle.",
+        });
+      }
+    };
+
+    // Only the list carries unread counts, so leave the open circle alone
+    const handleUnreadChanged = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"], exact: true });
+    };
+
+    // Presence feeds the list's online counts and the open circle's member dots
+    const handlePresence = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", selectedCircleId], exact: true });
+    };
+
+    // Keeps the Budget/Spent/Remaining cards current without a refetch
+    const handleBudgetUpdated = (event: CustomEvent<{ circleId: number; budget: number; spent: number }>) => {
+      const { circleId, budget, spent } = event.detail;
+      queryClient.setQueryData(["/api/circles", circleId], (circle: Circle | null | undefined) =>
+        circle ? { ...circle, budget, spent } : circle
+      );
+    };
+
+    // Renames, lock changes and alert thresholds
+    const handleCircleUpdated = (event: CustomEvent<{ circleId: number }>) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles", event.detail.circleId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"], exact: true });
+    };
+
+    // The socket missed more than the server could replay, so anything
+    // cached for the circles may be out of date
+    const handleResync = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circles"] });
+    };
+
+    window.addEventListener("circle_members_updated", handleMembersUpdated as EventListener);
+    window.addEventListener("removed_from_circle", handleRemovedFromCircle as EventListener);
+    window.addEventListener("unread_changed", handleUnreadChanged);
+    window.addEventListener("presence", handlePresence);
+    window.addEventListener("budget_updated", handleBudgetUpdated as EventListener);
+    window.addEventListener("circle_updated", handleCircleUpdated as EventListener);
+    window.addEventListener("resync_required", handleResync);
+    return () => {
+      window.removeEventListener("circle_members_updated", handleMembersUpdated as EventListener);
+      window.removeEventListener("removed_from_circle", handleRemovedFromCircle as EventListener);
+      window.removeEventListener("unread_changed", handleUnreadChanged);
+      window.removeEventListener("presence", handlePresence);
+      window.removeEventListener("budget_updated", handleBudgetUpdated as EventListener);
+      window.removeEventListener("circle_updated", handleCircleUpdated as EventListener);
+      window.removeEventListener("resync_required", handleResync);
+    };
+  }, [selectedCircleId, queryClient]);
+
+  const acceptInvite = async (inviteToken: string) => {
+    try {
+      const previewResponse = await apiRequest("GET", `/api/invites/${encodeURIComponent(inviteToken)}`);
+      const preview: InvitePreview = await previewResponse.json();
+
+      if (!preview.alreadyMember) {
+        await apiRequest("POST", `/api/circles/${preview.circleId}/join`, { token: inviteToken });
+        toast({
+          title: `Joined ${preview.circleName}`,
+          description: "You can now chat and shop with this circle.",
+        });
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ["/api/circles"] });
+      handleCircleSelect(preview.circleId);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't accept invite",
+        description: error.message || "The invite link may be invalid or expired.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCircleSelect = (circleId: number) => {
     if (currentCircleId && currentCircleId !== circleId) {
       leaveCircle();
     }
     setSelectedCircleId(circleId);
+    setSearchTarget(null);
     joinCircle(circleId);
   };
 
+  const handleSearchSelect = (result: SearchResult) => {
+    setActiveTab(result.type === "message" ? "chat" : result.type === "cart_item" ? "cart" : "tasks");
+    setSearchTarget(result);
+  };
+
   const handleCreateCircle = () => {
     setShowCreateModal(true);
   };
@@ -93,7 +209,10 @@ export default function Dashboard() {
               {selectedCircle && (
                 <div className="ml-8 flex items-center space-x-4">
                   <div className="bg-gray-50 px-4 py-2 rounded-lg">
-                    <div className="text-sm text-gray-500">Budget</div>
+                    <div className="text-sm text-gray-500 flex items-center">
+                      Budget
+                      {selectedCircle.budgetLocked && <Lock className="w-3 h-3 ml-1" aria-label="Locked" />}
+                    </div>
                     <div className="font-semibold text-gray-900">
                       ${(selectedCircle.budget / 100).toFixed(2)}
                     </div>
@@ -110,11 +229,25 @@ export default function Dashboard() {
                       ${((selectedCircle.budget - selectedCircle.spent) / 100).toFixed(2)}
                     </div>
                   </div>
+                  {selectedCircle.permissions?.includes("budget.edit") && (
+                    <BudgetSettingsPopover circle={selectedCircle} />
+                  )}
                 </div>
               )}
             </div>
 
             <div className="flex items-center space-x-3">
+              {selectedCircle?.permissions?.includes("member.invite") && (
+                <Button variant="outline" size="sm" onClick={() => setShowInviteModal(true)}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Invite members
+                </Button>
+              )}
+              {selectedCircle && (
+                <Button variant="ghost" size="sm" onClick={() => setShowSearch(true)} title="Search this circle">
+                  <Search className="w-5 h-5" />
+                </Button>
+              )}
               <Button variant="ghost" size="sm">
                 <Bell className="w-5 h-5" />
               </Button>
@@ -152,10 +285,18 @@ export default function Dashboard() {
               <ChatPanel
                 circleId={selectedCircle.id}
                 isActive={activeTab === "chat"}
+                canModerate={selectedCircle.userRole === "owner" || selectedCircle.userRole === "admin"}
+                members={selectedCircle.members}
+                searchTarget={searchTarget}
+                onSearchTargetHandled={() => setSearchTarget(null)}
               />
               <RightSidebar
                 circleId={selectedCircle.id}
                 activeTab={activeTab}
+                circle={selectedCircle}
+                onLeftCircle={() => setSelectedCircleId(null)}
+                searchTarget={searchTarget}
+                onSearchTargetHandled={() => setSearchTarget(null)}
               />
             </>
           ) : (
@@ -183,6 +324,24 @@ export default function Dashboard() {
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
       />
+
+      {selectedCircle && (
+        <InviteMembersModal
+          isOpen={showInviteModal}
+          circleId={selectedCircle.id}
+          onClose={() => setShowInviteModal(false)}
+        />
+      )}
+
+      {selectedCircle && (
+        <SearchDialog
+          isOpen={showSearch}
+          circleId={selectedCircle.id}
+          members={selectedCircle.members}
+          onClose={() => setShowSearch(false)}
+          onSelect={handleSearchSelect}
+        />
+      )}
     </div>
   );
 }
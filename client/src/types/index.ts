@@ -1,3 +1,5 @@
+import type { VotingPolicy } from "@shared/protocol";
+
 export interface AuthUser {
   id: string;
   username: string;
@@ -17,10 +19,44 @@ export interface Circle {
   createdAt: string;
   memberCount: number;
   onlineCount: number;
-  userRole?: string;
+  idleCount?: number;
+  // Top-level messages from others the user hasn't seen yet
+  unreadCount?: number;
+  budgetLocked?: boolean;
+  // Percentages of the budget that alert every member
+  budgetAlertThresholds?: number[];
+  // Null when items are approved without a vote
+  votingPolicy?: VotingPolicy;
+  userRole?: CircleRole;
+  permissions?: CircleAction[];
   members?: CircleMember[];
 }
 
+export type CircleRole = "owner" | "admin" | "member" | "viewer";
+
+export type CircleAction =
+  | "circle.view"
+  | "circle.update"
+  | "circle.transfer"
+  | "budget.edit"
+  | "message.send"
+  | "message.edit"
+  | "message.delete"
+  | "message.react"
+  | "cart.add"
+  | "cart.update"
+  | "cart.remove"
+  | "cart.vote"
+  | "cart.assign"
+  | "cart.purchase"
+  | "cart.checkout"
+  | "task.create"
+  | "task.update"
+  | "task.assign"
+  | "member.invite"
+  | "member.kick"
+  | "member.role";
+
 export interface CircleMember {
   id: number;
   circleId: number;
@@ -28,17 +64,123 @@ export interface CircleMember {
   role: string;
   joinedAt: string;
   user: AuthUser;
+  presence?: PresenceStatus;
 }
 
+export type PresenceStatus = "online" | "idle" | "offline";
+
 export interface Message {
   id: number;
   circleId: number;
   userId: string;
   content: string;
   replyTo?: number;
+  editedAt?: string | null;
+  deletedAt?: string | null;
   createdAt: string;
   user: AuthUser;
-  replies?: Message[];
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  reactions?: MessageReaction[];
+  attachments?: MessageAttachment[];
+  mentions?: MentionedUser[];
+}
+
+export interface MentionedUser {
+  id: string;
+  username: string;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  users: { id: string; first_name: string; last_name: string }[];
+}
+
+export interface MessageAttachment {
+  id: number;
+  circle_id: number;
+  message_id: number | null;
+  uploaded_by: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  thumbnail_key: string | null;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+export type SearchResultType = "message" | "cart_item" | "task";
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  user_id: string;
+  user: { id: string; first_name: string; last_name: string } | null;
+  title: string | null;
+  // Matched words are wrapped in \u0002 ... \u0003
+  snippet: string;
+  rank: number;
+  reply_to: number | null;
+  created_at: string;
+}
+
+// An item as it was when the order was placed
+export interface OrderItem {
+  cart_item_id: number;
+  name: string;
+  price: number;
+  quantity: number;
+  notes: string | null;
+  status: CartItemStatus;
+  added_by: string;
+  added_by_name: string | null;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface Order {
+  id: number;
+  circle_id: number;
+  placed_by: string | null;
+  placed_by_user: { id: string; first_name: string; last_name: string } | null;
+  total: number;
+  items: OrderItem[];
+  created_at: string;
+}
+
+// What checking out now would order; proposed items stay in the cart and
+// rejected ones are cleared
+export interface CheckoutPreview {
+  items: OrderItem[];
+  total: number;
+  proposedCount: number;
+  rejectedCount: number;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextOffset: number | null;
+}
+
+// Where a member has read up to in a circle
+export interface ReadReceipt {
+  user_id: string;
+  user: { id: string; first_name: string; last_name: string } | null;
+  last_read_message_id: number | null;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  nextCursor: number | null;
+}
+
+export interface MessageRepliesPage {
+  replies: Message[];
+  nextCursor: number | null;
 }
 
 export interface CartItem {
@@ -49,12 +191,18 @@ export interface CartItem {
   quantity: number;
   addedBy: string;
   assignedTo?: string;
+  notes?: string | null;
+  status?: CartItemStatus;
+  // Until when proposed items can be voted on; unset means no deadline
+  votingClosesAt?: string | null;
   createdAt: string;
   user: AuthUser;
   assignedUser?: AuthUser;
   votes: ItemVote[];
 }
 
+export type CartItemStatus = "proposed" | "approved" | "rejected" | "purchased";
+
 export interface ItemVote {
   id: number;
   itemId: number;
@@ -94,8 +242,26 @@ export interface TypingUser {
   isTyping: boolean;
 }
 
-export interface WebSocketMessage {
-  type: string;
-  data?: any;
-  [key: string]: any;
+export interface CircleInvite {
+  id: number;
+  circle_id: number;
+  token: string;
+  created_by: string;
+  email?: string;
+  max_uses?: number;
+  uses: number;
+  expires_at?: string;
+  revoked_at?: string;
+  created_at: string;
+  status: "valid" | "revoked" | "expired" | "exhausted";
+}
+
+export interface InvitePreview {
+  circleId: number;
+  circleName: string;
+  description?: string;
+  memberCount: number;
+  status: CircleInvite["status"];
+  emailMatches: boolean;
+  alreadyMember: boolean;
 }
@@ -0,0 +1,176 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { Request, Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import type { Readable } from "stream";
+import { blobStore } from "./blobStore";
+import { authorize, PermissionError } from "./permissions";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import type { MessageAttachment } from "./supabase";
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const THUMBNAIL_SIZE = 320;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain'
+];
+
+const isImage = (contentType: string) => contentType.startsWith('image/');
+
+export class AttachmentError extends HttpError {}
+
+// Buffers a single multipart "file" field in memory, enforcing the size and
+// type limits before anything reaches the blob store
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new AttachmentError(`Files of type ${file.mimetype} can't be attached`, 415));
+    }
+  }
+}).single('file');
+
+export const parseAttachmentUpload = (req: Request, res: Response): Promise<Express.Multer.File> => {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return reject(error.code === 'LIMIT_FILE_SIZE'
+          ? new AttachmentError(`Attachments can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`, 413)
+          : new AttachmentError(error.message));
+      }
+      if (error) return reject(error);
+      if (!req.file) return reject(new AttachmentError('No file uploaded'));
+      resolve(req.file);
+    });
+  });
+};
+
+const createThumbnail = async (data: Buffer) => {
+  try {
+    const { width, height, orientation } = await sharp(data).metadata();
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+
+    // EXIF orientations 5-8 are rotated a quarter turn, so the displayed
+    // image is the stored one with its sides swapped
+    const rotated = (orientation ?? 1) >= 5;
+    return {
+      thumbnail,
+      width: (rotated ? height : width) ?? null,
+      height: (rotated ? width : height) ?? null
+    };
+  } catch {
+    throw new AttachmentError('The image could not be read', 415);
+  }
+};
+
+// Writes the upload (and a thumbnail for images) to the blob store and
+// records it as a pending attachment until its message is sent
+export async function storeAttachment(circleId: number, userId: string, file: Express.Multer.File): Promise<MessageAttachment> {
+  const storageKey = `circles/${circleId}/${randomUUID()}`;
+  const image = isImage(file.mimetype) ? await createThumbnail(file.buffer) : null;
+  const thumbnailKey = image ? `${storageKey}-thumb.webp` : null;
+
+  await blobStore.put(storageKey, file.buffer);
+  if (image && thumbnailKey) {
+    await blobStore.put(thumbnailKey, image.thumbnail);
+  }
+
+  // multer hands over the multipart filename decoded as latin1
+  const fileName = path.basename(Buffer.from(file.originalname, 'latin1').toString('utf8')).slice(0, 255);
+
+  return storage.createMessageAttachment({
+    circle_id: circleId,
+    uploaded_by: userId,
+    file_name: fileName || 'attachment',
+    content_type: file.mimetype,
+    size: file.size,
+    storage_key: storageKey,
+    thumbnail_key: thumbnailKey,
+    width: image?.width ?? null,
+    height: image?.height ?? null
+  });
+}
+
+// Checks that every id is one of the user's own pending uploads in this
+// circle, so a message can't pick up someone else's file
+export async function claimAttachments(userId: string, circleId: number, attachmentIds: unknown): Promise<number[]> {
+  if (attachmentIds === undefined || attachmentIds === null) return [];
+  if (!Array.isArray(attachmentIds) || !attachmentIds.every(id => Number.isInteger(id))) {
+    throw new AttachmentError('attachmentIds must be a list of attachment ids');
+  }
+
+  const ids = Array.from(new Set(attachmentIds as number[]));
+  if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new AttachmentError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+  }
+
+  for (const id of ids) {
+    const attachment = await storage.getMessageAttachment(id);
+    if (!attachment || attachment.circle_id !== circleId || attachment.uploaded_by !== userId || attachment.message_id) {
+      throw new AttachmentError('Attachment not found or already sent');
+    }
+  }
+  return ids;
+}
+
+export async function deleteAttachmentBlobs(attachments: MessageAttachment[]): Promise<void> {
+  for (const attachment of attachments) {
+    try {
+      await blobStore.delete(attachment.storage_key);
+      if (attachment.thumbnail_key) {
+        await blobStore.delete(attachment.thumbnail_key);
+      }
+    } catch (error) {
+      console.error('Failed to delete attachment blob:', error);
+    }
+  }
+}
+
+// Only circle members may download. Pending uploads are visible to their
+// uploader alone.
+export async function authorizeAttachmentDownload(userId: string, attachmentId: number): Promise<MessageAttachment> {
+  const attachment = await storage.getMessageAttachment(attachmentId);
+  if (!attachment) {
+    throw new PermissionError('Attachment not found', 404);
+  }
+
+  await authorize(userId, attachment.circle_id, 'circle.view');
+  if (!attachment.message_id && attachment.uploaded_by !== userId) {
+    throw new PermissionError('Attachment not found', 404);
+  }
+  return attachment;
+}
+
+export async function openAttachment(
+  attachment: MessageAttachment,
+  variant: 'original' | 'thumbnail'
+): Promise<{ stream: Readable; contentType: string }> {
+  const key = variant === 'thumbnail' ? attachment.thumbnail_key : attachment.storage_key;
+  if (!key) {
+    throw new AttachmentError('This attachment has no thumbnail', 404);
+  }
+
+  const stream = await blobStore.get(key);
+  if (!stream) {
+    throw new AttachmentError('Attachment file is missing', 404);
+  }
+  return {
+    stream,
+    contentType: variant === 'thumbnail' ? 'image/webp' : attachment.content_type
+  };
+}
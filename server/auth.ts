@@ -2,12 +2,33 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
-import { storage } from "./storage";
-import { supabase } from "./supabase";
+import { randomUUID } from "crypto";
+import { storage, storageBackend } from "./storage";
+import { getSupabase } from "./supabase";
 import type { User } from "./supabase";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 
+export interface JWTPayload {
+  userId: string;
+  email: string;
+  username: string;
+}
+
+// requireAuth puts the verified token on req.user, and passport sessions
+// hold the same fields
+declare global {
+  namespace Express {
+    interface User extends JWTPayload {}
+  }
+}
+
+const toJWTPayload = (user: User): JWTPayload => ({
+  userId: user.id,
+  email: user.email,
+  username: user.username
+});
+
 // Passport configuration
 passport.use(new LocalStrategy(
   {
@@ -26,21 +47,21 @@ passport.use(new LocalStrategy(
         return done(null, false, { message: 'Invalid email or password' });
       }
 
-      return done(null, user);
+      return done(null, toJWTPayload(user));
     } catch (error) {
       return done(error);
     }
   }
 ));
 
-passport.serializeUser((user: any, done) => {
-  done(null, user.id);
+passport.serializeUser((user, done) => {
+  done(null, user.userId);
 });
 
 passport.deserializeUser(async (id: string, done) => {
   try {
     const user = await storage.getUser(id);
-    done(null, user);
+    done(null, user ? toJWTPayload(user) : null);
   } catch (error) {
     done(error);
   }
@@ -49,17 +70,13 @@ passport.deserializeUser(async (id: string, done) => {
 // JWT utilities
 export const generateToken = (user: User): string => {
   return jwt.sign(
-    { 
-      userId: user.id, 
-      email: user.email,
-      username: user.username 
-    },
+    toJWTPayload(user),
     JWT_SECRET,
     { expiresIn: '7d' }
   );
 };
 
-export const verifyToken = (token: string): any => {
+export const verifyToken = (token: string): JWTPayload | null => {
   try {
     return jwt.verify(token, JWT_SECRET);
   } catch (error) {
@@ -76,16 +93,18 @@ export const comparePasswords = async (password: string, hashedPassword: string)
   return bcrypt.compare(password, hashedPassword);
 };
 
-// Supabase Auth integration
-export const createSupabaseUser = async (userData: {
+interface NewUserData {
   email: string;
   password: string;
   firstName: string;
   lastName: string;
   username: string;
-}): Promise<User> => {
+}
+
+// Supabase Auth integration
+export const createSupabaseUser = async (userData: NewUserData): Promise<User> => {
   // Create user in Supabase Auth
-  const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+  const { data: authData, error: authError } = await getSupabase().auth.admin.createUser({
     email: userData.email,
     password: userData.password,
     email_confirm: true,
@@ -111,4 +130,24 @@ export const createSupabaseUser = async (userData: {
   });
 
   return user;
-};
\ No newline at end of file
+};
+
+// Without Supabase there is no separate auth store, so the profile row is the account
+export const createLocalUser = async (userData: NewUserData): Promise<User> => {
+  const hashedPassword = await hashPassword(userData.password);
+  const profile = {
+    id: randomUUID(),
+    email: userData.email,
+    password: hashedPassword,
+    first_name: userData.firstName,
+    last_name: userData.lastName,
+    username: userData.username
+  };
+  return storage.createUser(profile);
+};
+
+export const createUserAccount = (userData: NewUserData): Promise<User> => {
+  return storageBackend === 'supabase'
+    ? createSupabaseUser(userData)
+    : createLocalUser(userData);
+};
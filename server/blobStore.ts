@@ -0,0 +1,66 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where attachment bytes live. Keys are generated by the server (see
+// attachments.ts) and look like relative paths, e.g. "circles/1/<uuid>".
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores blobs as files under a root directory
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.resolve(key);
+    try {
+      await stat(file);
+    } catch {
+      return null;
+    }
+    return createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export type BlobStoreDriver = 'local';
+
+// Selected with BLOB_STORE; the local driver writes under UPLOAD_DIR
+export const blobStoreDriver = (process.env.BLOB_STORE || 'local') as BlobStoreDriver;
+
+export function createBlobStore(driver: BlobStoreDriver = blobStoreDriver): BlobStore {
+  switch (driver) {
+    case 'local':
+      return new LocalBlobStore(process.env.UPLOAD_DIR || 'uploads');
+    default:
+      throw new Error(`Unknown blob store driver: ${driver}`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,122 @@
+import { createServer } from "http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { writeCartItem, reconcileBudget, BudgetError } from "./budget";
+import { PermissionError } from "./permissions";
+import { storage } from "./storage";
+import { LocalPubSub } from "./pubsub";
+import { WebSocketManager } from "./websocket";
+import { clientMessageSchema } from "../shared/protocol";
+
+// A $10 locked budget in the memory backend, with its owner and a member
+let circleId: number;
+let ownerId: string;
+let memberId: string;
+
+const createUser = (name: string) => storage.createUser({
+  email: `${name}@example.com`,
+  password: 'hash',
+  first_name: name,
+  last_name: 'Test',
+  username: name
+});
+
+beforeEach(async () => {
+  const suffix = Math.random().toString(36).slice(2);
+  ownerId = (await createUser(`owner-${suffix}`)).id;
+  memberId = (await createUser(`member-${suffix}`)).id;
+  const circle = await storage.createCircle({ name: 'Budget', created_by: ownerId, budget: 1000 });
+  circleId = circle.id;
+  await storage.addCircleMember({ circle_id: circleId, user_id: memberId, role: 'member' });
+  await storage.updateCircle(circleId, { budget_locked: true });
+});
+
+const item = (name: string, price: number) => ({ name, price, quantity: 1, added_by: memberId });
+
+const add = (userId: string, name: string, price: number, override = false) =>
+  writeCartItem(userId, circleId, null, item(name, price), 'item_added', { itemName: name, override });
+
+describe('writeCartItem', () => {
+  it('refuses to go past a locked budget without writing anything', async () => {
+    await add(memberId, 'Apples', 600);
+    const error = await add(memberId, 'Pears', 600).catch(error => error);
+
+    expect(error).toBeInstanceOf(BudgetError);
+    expect(error).toMatchObject({ status: 409, code: 'budget_locked' });
+    expect((await storage.getCartItems(circleId)).map(cartItem => cartItem.name)).toEqual(['Apples']);
+    expect((await storage.getCircle(circleId))?.spent).toBe(600);
+  });
+
+  it('lets only as many concurrent additions through as fit', async () => {
+    const results = await Promise.allSettled([1, 2, 3, 4].map(i => add(memberId, `Race ${i}`, 600)));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await storage.getCartItems(circleId)).toHaveLength(1);
+    expect((await storage.getCircle(circleId))?.spent).toBe(600);
+  });
+
+  it('checks an update against what the item already charges', async () => {
+    const written = await add(memberId, 'Apples', 600);
+    const itemId = written!.item!.id;
+
+    await expect(writeCartItem(memberId, circleId, itemId, { price: 1000 }, 'item_updated', { itemName: 'Apples' }))
+      .resolves.toMatchObject({ settlement: { spent: 1000 } });
+    await expect(writeCartItem(memberId, circleId, itemId, { price: 1001 }, 'item_updated', { itemName: 'Apples' }))
+      .rejects.toMatchObject({ code: 'budget_locked' });
+  });
+
+  it('lets admins override the lock and logs it', async () => {
+    await add(memberId, 'Apples', 600);
+
+    await expect(add(memberId, 'Pears', 600, true)).rejects.toBeInstanceOf(PermissionError);
+    await expect(add(ownerId, 'Pears', 600, true)).resolves.toMatchObject({ settlement: { spent: 1200 } });
+
+    const overrides = (await storage.getCartHistory(circleId)).filter(entry => entry.action === 'budget_override');
+    expect(overrides).toMatchObject([{ item_name: 'Pears', details: { budget: 1000, spent: 600, increase: 600 } }]);
+  });
+});
+
+// Additions from the UI, through the same schema and handler as messages off
+// the wire, with prices in dollars
+describe('adding over the socket', () => {
+  let manager: WebSocketManager;
+
+  beforeAll(() => {
+    manager = new WebSocketManager(createServer(), new LocalPubSub());
+  });
+
+  afterAll(() => {
+    manager?.presence.stop();
+    manager?.['wss'].close();
+  });
+
+  const addOverSocket = (name: string, price: number, quantity?: number) =>
+    manager['dispatch'](
+      { userId: memberId, circleId } as never,
+      clientMessageSchema.parse({ type: 'add_cart_item', data: { name, price, quantity } })
+    );
+
+  it('charges the budget the price in cents', async () => {
+    await storage.updateCircle(circleId, { budget_locked: false });
+    await addOverSocket('Apples', 4.5, 2);
+
+    expect((await storage.getCircle(circleId))?.spent).toBe(900);
+    await expect(reconcileBudget(circleId, ownerId)).resolves.toMatchObject({ spent: 900, entries: [] });
+  });
+
+  it('accepts an item that fits what is left of a locked budget', async () => {
+    await add(memberId, 'Apples', 600);
+    await expect(addOverSocket('Pears', 3.99)).resolves.toMatchObject({ name: 'Pears', price: 399 });
+
+    expect((await storage.getCircle(circleId))?.spent).toBe(999);
+  });
+
+  it('only alerts once spending reaches a threshold', async () => {
+    await addOverSocket('Pears', 1);
+    const alerts = async () =>
+      (await storage.getNotifications(ownerId)).filter(notification => notification.type === 'budget_alert');
+
+    expect(await alerts()).toHaveLength(0);
+    await addOverSocket('Plums', 7);
+    expect((await alerts()).map(alert => alert.title)).toEqual(['75% of budget used']);
+  });
+});
@@ -0,0 +1,127 @@
+import { authorize } from "./permissions";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import type { BudgetSettlement, CartItem, CartItemWrite, Circle, Notification } from "./supabase";
+import type { ServerEvent } from "../shared/protocol";
+
+export class BudgetError extends HttpError {}
+
+export const DEFAULT_ALERT_THRESHOLDS = [75, 90];
+
+// Stored as budget_alert_level once spending is over the budget, above any
+// threshold
+const OVER_BUDGET_LEVEL = 101;
+
+const formatCents = (cents: number): string => `$${(cents / 100).toFixed(2)}`;
+
+// Why entries were appended to the ledger
+export type BudgetReason = 'item_added' | 'item_updated' | 'item_removed' | 'item_voted' | 'reconciled' | 'checkout';
+
+// What an item in the cart costs, in cents
+export const itemCost = (item: Pick<CartItem, 'price' | 'quantity'>): number => item.price * (item.quantity ?? 1);
+
+// What it charges to the budget: rejected items don't count
+export const budgetedCost = (item: Pick<CartItem, 'price' | 'quantity' | 'status'>): number =>
+  item.status === 'rejected' ? 0 : itemCost(item);
+
+// Recalculates the whole circle from its cart: every item is settled to
+// what it charges, items no longer in the cart to zero, and spent to the
+// sum of the ledger
+export async function reconcileBudget(circleId: number, userId: string): Promise<BudgetSettlement | null> {
+  const targets: Record<number, number> = {};
+  for (const item of await storage.getCartItems(circleId)) {
+    targets[item.id] = budgetedCost(item);
+  }
+  return storage.settleBudget(circleId, targets, userId, 'reconciled', true);
+}
+
+// From a settlement or the circle itself
+export const buildBudgetEvent = (
+  circleId: number,
+  { budget, spent }: Pick<Circle, 'budget' | 'spent'>
+): ServerEvent<'budget_updated'> => ({ type: 'budget_updated', circleId, budget: budget ?? 0, spent });
+
+// Validates thresholds from a PATCH body: whole percentages from 1 to 100,
+// at most five of them
+export const parseAlertThresholds = (value: unknown): number[] => {
+  if (!Array.isArray(value) || value.length > 5 ||
+      !value.every(t => Number.isInteger(t) && t >= 1 && t <= 100)) {
+    throw new BudgetError('Budget alert thresholds must be up to 5 whole percentages between 1 and 100');
+  }
+  return Array.from(new Set<number>(value)).sort((a, b) => a - b);
+};
+
+// The highest threshold spending has reached, or OVER_BUDGET_LEVEL. Circles
+// without a budget never alert.
+const alertLevel = (circle: Circle): number => {
+  const budget = circle.budget ?? 0;
+  if (budget <= 0) return 0;
+  if (circle.spent > budget) return OVER_BUDGET_LEVEL;
+  const reached = (circle.budget_alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS)
+    .filter(threshold => circle.spent * 100 >= threshold * budget);
+  return reached.length > 0 ? Math.max(...reached) : 0;
+};
+
+// Writes a cart item and settles what it then charges in one step. Given
+// lock, a write that would raise spending past a locked budget is refused,
+// checked in that same step. Admins can pass override to go ahead anyway,
+// which needs budget.edit and is logged to cart_history as
+// 'budget_override' for the item.
+export async function writeCartItem(
+  userId: string,
+  circleId: number,
+  itemId: number | null,
+  values: Partial<CartItem> | null,
+  reason: BudgetReason,
+  lock?: { itemName: string; override?: boolean }
+): Promise<CartItemWrite | null> {
+  const written = await storage.writeCartItem(circleId, itemId, values, userId, reason, !!lock);
+  if (!written || !('budget_locked' in written)) return written;
+
+  const { budget, spent, increase } = written.budget_locked;
+  if (!lock?.override) {
+    throw new BudgetError(
+      `The budget is locked: this would bring spending to ${formatCents(spent + increase)} of ${formatCents(budget)}`,
+      409,
+      'budget_locked'
+    );
+  }
+  await authorize(userId, circleId, 'budget.edit');
+  await storage.createCartHistory({
+    circle_id: circleId,
+    user_id: userId,
+    action: 'budget_override',
+    item_name: lock.itemName,
+    details: { budget, spent, increase }
+  });
+  return writeCartItem(userId, circleId, itemId, values, reason);
+}
+
+// Notifies every member when spending reaches a threshold it hadn't yet, or
+// goes over the budget. Only the highest level reached is announced, and
+// falling back below a level lets it alert again later.
+export async function createBudgetAlerts(circleId: number): Promise<Notification[]> {
+  const circle = await storage.getCircle(circleId);
+  if (!circle) return [];
+
+  const level = alertLevel(circle);
+  const previousLevel = circle.budget_alert_level ?? 0;
+  if (level === previousLevel) return [];
+  await storage.updateCircle(circleId, { budget_alert_level: level });
+  if (level < previousLevel) return [];
+
+  const title = level === OVER_BUDGET_LEVEL ? 'Over budget' : `${level}% of budget used`;
+  const message = `${circle.name} has spent ${formatCents(circle.spent)} of its ${formatCents(circle.budget ?? 0)} budget`;
+  const notifications: Notification[] = [];
+  for (const member of await storage.getCircleMembers(circleId)) {
+    notifications.push(await storage.createNotification({
+      user_id: member.user_id,
+      circle_id: circleId,
+      type: 'budget_alert',
+      title,
+      message,
+      read: false
+    }));
+  }
+  return notifications;
+}
@@ -0,0 +1,44 @@
+import { createServer } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { LocalPubSub } from "./pubsub";
+import { WebSocketManager } from "./websocket";
+import { clientMessageSchema } from "../shared/protocol";
+import type { CartItem } from "./supabase";
+
+// Messages go through the same schema and dispatch as ones off the wire
+let manager: WebSocketManager;
+let socket: { userId: string; circleId: number };
+
+const dispatch = (message: unknown) =>
+  manager['dispatch'](socket as never, clientMessageSchema.parse(message)) as Promise<CartItem | null>;
+
+beforeAll(async () => {
+  const user = await storage.createUser({
+    email: 'cart-owner@example.com',
+    password: 'hash',
+    first_name: 'Cart',
+    last_name: 'Owner',
+    username: 'cart-owner'
+  });
+  const circle = await storage.createCircle({ name: 'Cart', created_by: user.id });
+  socket = { userId: user.id, circleId: circle.id };
+  manager = new WebSocketManager(createServer(), new LocalPubSub());
+});
+
+afterAll(() => {
+  manager?.presence.stop();
+  manager?.['wss'].close();
+});
+
+describe('cart prices over the socket', () => {
+  it('stores dollars as cents when adding and when editing', async () => {
+    const added = await dispatch({ type: 'add_cart_item', data: { name: 'Apples', price: 4.99, quantity: 2 } });
+    expect(added?.price).toBe(499);
+    expect((await storage.getCartItem(added!.id))?.price).toBe(499);
+
+    const edited = await dispatch({ type: 'update_cart_item', data: { itemId: added!.id, updates: { price: 5.25 } } });
+    expect(edited?.price).toBe(525);
+    expect((await storage.getCartItem(added!.id))?.price).toBe(525);
+  });
+});
@@ -0,0 +1,192 @@
+import { authorize } from "./permissions";
+import { storage } from "./storage";
+import { writeCartItem } from "./budget";
+import { initialVotingState } from "./voting";
+import { HttpError } from "./errors";
+import { cartItemUpdatesSchema, type ClientMessageData } from "../shared/protocol";
+import type { BudgetSettlement, CartItem, Circle } from "./supabase";
+
+export class CartError extends HttpError {}
+
+type EditableCartField = 'name' | 'price' | 'quantity' | 'notes' | 'assigned_to';
+
+// Prices in cents; assigned_to null unassigns the item
+export type CartItemChanges = Partial<Pick<CartItem, 'name' | 'price' | 'quantity' | 'notes'>> & {
+  assigned_to?: string | null;
+};
+
+// Updates as validated by cartItemUpdatesSchema, with the price in dollars
+export const toCartItemChanges = ({ price, ...rest }: ClientMessageData<'update_cart_item'>['updates']): CartItemChanges =>
+  price === undefined ? rest : { ...rest, price: Math.round(price * 100) }; // Convert to cents
+
+// Validates a PATCH body the same way update_cart_item messages are
+export const parseCartItemUpdates = (body: unknown): CartItemChanges => {
+  const parsed = cartItemUpdatesSchema.safeParse(body);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new CartError(issue.path.length > 0 ? `Invalid ${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  return toCartItemChanges(parsed.data);
+};
+
+// Adds an item, proposed while the circle votes, and charges it to the
+// budget in the same step. Price in cents. A locked budget only lets it go
+// past the limit with overrideBudgetLock.
+export async function addCartItem(
+  userId: string,
+  circle: Circle,
+  { name, price, quantity }: Pick<CartItem, 'name' | 'price'> & { quantity?: number },
+  overrideBudgetLock = false
+): Promise<{ item: CartItem; settlement: BudgetSettlement }> {
+  const values = {
+    name,
+    price,
+    quantity: quantity || 1,
+    added_by: userId,
+    assigned_to: null,
+    ...initialVotingState(circle)
+  };
+  const written = await writeCartItem(userId, circle.id, null, values, 'item_added', {
+    itemName: name,
+    override: overrideBudgetLock
+  });
+  if (!written?.item) {
+    throw new CartError('Circle not found', 404);
+  }
+
+  await storage.createCartHistory({
+    circle_id: circle.id,
+    user_id: userId,
+    action: 'added',
+    item_name: name,
+    details: { price, quantity: values.quantity }
+  });
+  return { item: written.item, settlement: written.settlement };
+}
+
+// Deletes an item and refunds what it charged in the same step
+export async function removeCartItem(userId: string, circleId: number, itemId: number): Promise<BudgetSettlement> {
+  const item = await storage.getCartItem(itemId);
+  if (!item || item.circle_id !== circleId) {
+    throw new CartError('Item not found', 404);
+  }
+  await authorize(userId, circleId, 'cart.remove', { resourceOwnerId: item.added_by });
+
+  const written = await writeCartItem(userId, circleId, itemId, null, 'item_removed');
+  if (!written) {
+    throw new CartError('Item not found', 404);
+  }
+  return written.settlement;
+}
+
+// Anyone who can add to the cart may take an item on themselves or drop
+// their own. Handing it to someone else, or taking it away from them, needs
+// cart.assign.
+async function authorizeCartAssignment(
+  userId: string,
+  circleId: number,
+  assigneeId: string | null | undefined,
+  currentAssigneeId: string | null | undefined
+): Promise<void> {
+  const affectsSomeoneElse = assigneeId
+    ? assigneeId !== userId
+    : !!currentAssigneeId && currentAssigneeId !== userId;
+  await authorize(userId, circleId, affectsSomeoneElse ? 'cart.assign' : 'cart.add');
+
+  if (assigneeId && !(await storage.getUserCircleMembership(assigneeId, circleId))) {
+    throw new CartError('Items can only be assigned to circle members');
+  }
+}
+
+// Changing the name, price, quantity or notes needs cart.update on the
+// item; the assignee is checked separately. Whatever actually changes is
+// logged to cart_history as 'updated' with the old and new values, and a
+// new price or quantity is settled against the budget, which a locked
+// budget only allows past its limit with overrideBudgetLock.
+export async function editCartItem(
+  userId: string,
+  circleId: number,
+  itemId: number,
+  updates: CartItemChanges,
+  overrideBudgetLock = false
+): Promise<{ item: CartItem; settlement: BudgetSettlement | null }> {
+  const item = await storage.getCartItem(itemId);
+  if (!item || item.circle_id !== circleId) {
+    throw new CartError('Item not found', 404);
+  }
+
+  const fields = Object.keys(updates) as EditableCartField[];
+  if (fields.some(field => field !== 'assigned_to')) {
+    await authorize(userId, circleId, 'cart.update', { resourceOwnerId: item.added_by });
+  }
+  if (updates.assigned_to !== undefined) {
+    await authorizeCartAssignment(userId, circleId, updates.assigned_to, item.assigned_to);
+  }
+
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const field of fields) {
+    const current = item[field] ?? null;
+    const next = updates[field] ?? null;
+    if (next !== current) {
+      before[field] = current;
+      after[field] = next;
+    }
+  }
+  if (Object.keys(after).length === 0) return { item, settlement: null };
+
+  // Null rather than undefined so cleared columns are actually cleared
+  const written = await writeCartItem(userId, circleId, itemId, after as Partial<CartItem>, 'item_updated', {
+    itemName: (after.name ?? item.name) as string,
+    override: overrideBudgetLock
+  });
+  if (!written?.item) {
+    throw new CartError('Item not found', 404);
+  }
+  const updated = written.item;
+
+  await storage.createCartHistory({
+    circle_id: circleId,
+    user_id: userId,
+    action: 'updated',
+    item_name: updated.name,
+    details: { before, after }
+  });
+
+  const settlement = 'price' in after || 'quantity' in after ? written.settlement : null;
+  return { item: updated, settlement };
+}
+
+// Marks an approved item bought, or takes that back. Members may do it for
+// the items assigned to them, or that they added while unassigned.
+export async function markItemPurchased(
+  userId: string,
+  circleId: number,
+  itemId: number,
+  purchased: boolean
+): Promise<CartItem> {
+  const item = await storage.getCartItem(itemId);
+  if (!item || item.circle_id !== circleId) {
+    throw new CartError('Item not found', 404);
+  }
+  await authorize(userId, circleId, 'cart.purchase', { resourceOwnerId: item.assigned_to ?? item.added_by });
+
+  const status = purchased ? 'purchased' : 'approved';
+  if (item.status === status) return item;
+  if (item.status !== (purchased ? 'approved' : 'purchased')) {
+    throw new CartError('Only approved items can be marked purchased', 409);
+  }
+
+  const updated = await storage.updateCartItem(itemId, { status });
+  if (!updated) {
+    throw new CartError('Item not found', 404);
+  }
+  await storage.createCartHistory({
+    circle_id: circleId,
+    user_id: userId,
+    action: 'updated',
+    item_name: updated.name,
+    details: { before: { status: item.status }, after: { status } }
+  });
+  return updated;
+}
@@ -0,0 +1,39 @@
+import pg from "pg";
+
+let pool: pg.Pool | null = null;
+
+// Timestamps come back as ISO strings to match what Supabase returns
+const toIsoString = (value: string) => new Date(value).toISOString();
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, toIsoString);
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMP, toIsoString);
+
+// Created on first use so that only the postgres backend needs DATABASE_URL
+export const getPool = (): pg.Pool => {
+  if (pool) return pool;
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('Missing DATABASE_URL environment variable');
+  }
+
+  pool = new pg.Pool({ connectionString });
+  pool.on('error', (error) => {
+    console.error('PostgreSQL pool error:', error);
+  });
+  return pool;
+};
+
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
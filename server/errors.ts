@@ -0,0 +1,9 @@
+// Base for errors that answer a request rather than crash it: REST routes
+// respond with the status, sockets send the message back to the sender.
+// code tells clients apart failures they can act on, e.g. "budget_locked".
+export class HttpError extends Error {
+  constructor(message: string, public status: number = 400, public code?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
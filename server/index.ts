@@ -3,6 +3,9 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// How many proxies sit in front of the server, so req.ip (which rate
+// limiting is keyed on) is the client's address rather than the proxy's
+app.set("trust proxy", parseInt(process.env.TRUST_PROXY || '0', 10));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -0,0 +1,26 @@
+import { randomBytes } from "crypto";
+import type { CircleInvite } from "./supabase";
+
+export type InviteStatus = 'valid' | 'revoked' | 'expired' | 'exhausted';
+
+export const INVITE_STATUS_MESSAGES: Record<Exclude<InviteStatus, 'valid'>, string> = {
+  revoked: 'This invite has been revoked',
+  expired: 'This invite has expired',
+  exhausted: 'This invite has already been used'
+};
+
+// 24 random bytes keeps tokens unguessable while staying URL-safe and short
+export const generateInviteToken = (): string => {
+  return randomBytes(24).toString('base64url');
+};
+
+export const getInviteStatus = (invite: CircleInvite, now: Date = new Date()): InviteStatus => {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return 'expired';
+  if (invite.max_uses != null && invite.uses >= invite.max_uses) return 'exhausted';
+  return 'valid';
+};
+
+export const inviteMatchesEmail = (invite: CircleInvite, email: string): boolean => {
+  return !invite.email || invite.email.trim().toLowerCase() === email.trim().toLowerCase();
+};
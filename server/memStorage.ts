@@ -0,0 +1,966 @@
+import { randomUUID } from "crypto";
+import type { IStorage, MessagePageOptions, CircleSearchOptions } from "./storage";
+import { buildSnippet, scoreSearchText, tokenizeSearchQuery } from "./search";
+import type {
+  User, NewUser, Circle, CircleMember, Message, CartItem, CartItemStatus, ItemVote,
+  Task, Notification, CartHistory, BudgetEntry, BudgetSettlement, Order, OrderItem, OrderSummary, Checkout, CartItemWrite, BudgetLocked, VotingPolicyChange, CircleInvite, MessageThreadSummary, MessageRevision,
+  MessageReaction, MessageReactionSummary, MessageAttachment, MessageDetails, MessageMention, MentionedUser,
+  SearchResult, SearchResultType
+} from "./supabase";
+
+// In-process implementation of IStorage for local development and tests.
+// Everything lives in plain Maps and is lost when the process exits.
+export class MemStorage implements IStorage {
+  private users: Map<string, User> = new Map();
+  private circles: Map<number, Circle> = new Map();
+  private circleMembers: Map<number, CircleMember> = new Map();
+  private messages: Map<number, Message> = new Map();
+  private cartItems: Map<number, CartItem> = new Map();
+  private itemVotes: Map<number, ItemVote> = new Map();
+  private tasks: Map<number, Task> = new Map();
+  private notifications: Map<number, Notification> = new Map();
+  private cartHistory: Map<number, CartHistory> = new Map();
+  private budgetEntries: Map<number, BudgetEntry> = new Map();
+  private orders: Map<number, Order> = new Map();
+  private circleInvites: Map<number, CircleInvite> = new Map();
+  private messageRevisions: Map<number, MessageRevision> = new Map();
+  private messageReactions: Map<number, MessageReaction> = new Map();
+  private messageAttachments: Map<number, MessageAttachment> = new Map();
+  private messageMentions: Map<number, MessageMention> = new Map();
+  private nextId = {
+    circles: 1,
+    circleMembers: 1,
+    messages: 1,
+    cartItems: 1,
+    itemVotes: 1,
+    tasks: 1,
+    notifications: 1,
+    cartHistory: 1,
+    budgetEntries: 1,
+    orders: 1,
+    circleInvites: 1,
+    messageRevisions: 1,
+    messageReactions: 1,
+    messageAttachments: 1,
+    messageMentions: 1
+  };
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private byCreatedAt<T extends { id: number; created_at: string }>(a: T, b: T): number {
+    return a.created_at.localeCompare(b.created_at) || a.id - b.id;
+  }
+
+  private pageMessages(messages: Message[], { limit = 50, before, after }: MessagePageOptions): Message[] {
+    const window = messages
+      .filter(message => (!before || message.id < before) && (!after || message.id > after))
+      .sort((a, b) => a.id - b.id);
+    return after ? window.slice(0, limit) : window.slice(-limit);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    return Array.from(this.users.values()).find(user => user.username === username) ?? null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    return Array.from(this.users.values()).find(user => user.email === email) ?? null;
+  }
+
+  async createUser(userData: NewUser): Promise<User> {
+    const id = userData.id || randomUUID();
+    if (this.users.has(id)) {
+      throw new Error('User already exists');
+    }
+    for (const user of Array.from(this.users.values())) {
+      if (user.username === userData.username || user.email === userData.email) {
+        throw new Error('User already exists');
+      }
+    }
+
+    const user: User = { ...userData, id, created_at: this.now() };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getCircle(id: number): Promise<Circle | null> {
+    return this.circles.get(id) ?? null;
+  }
+
+  async getCirclesByUserId(userId: string): Promise<Circle[]> {
+    const circleIds = new Set(
+      Array.from(this.circleMembers.values())
+        .filter(member => member.user_id === userId)
+        .map(member => member.circle_id)
+    );
+    return Array.from(this.circles.values()).filter(circle => circleIds.has(circle.id));
+  }
+
+  async createCircle(circleData: Omit<Circle, 'id' | 'created_at' | 'spent'>): Promise<Circle> {
+    const circle: Circle = {
+      ...circleData,
+      budget: circleData.budget ?? 0,
+      budget_alert_thresholds: circleData.budget_alert_thresholds ?? [75, 90],
+      budget_alert_level: circleData.budget_alert_level ?? 0,
+      budget_locked: circleData.budget_locked ?? false,
+      id: this.nextId.circles++,
+      spent: 0,
+      created_at: this.now()
+    };
+    this.circles.set(circle.id, circle);
+
+    // Add creator as admin
+    await this.addCircleMember({
+      circle_id: circle.id,
+      user_id: circle.created_by,
+      role: 'admin'
+    });
+
+    return circle;
+  }
+
+  async updateCircle(id: number, updates: Partial<Circle>): Promise<Circle | null> {
+    const circle = this.circles.get(id);
+    if (!circle) return null;
+
+    const updated = { ...circle, ...updates, id };
+    this.circles.set(id, updated);
+    return updated;
+  }
+
+  async getCircleMembers(circleId: number): Promise<(CircleMember & { user: User })[]> {
+    return Array.from(this.circleMembers.values())
+      .filter(member => member.circle_id === circleId)
+      .map(member => ({
+        ...member,
+        user: this.users.get(member.user_id)!
+      }));
+  }
+
+  async getUserCircleMembership(userId: string, circleId: number): Promise<CircleMember | null> {
+    return Array.from(this.circleMembers.values())
+      .find(member => member.user_id === userId && member.circle_id === circleId) ?? null;
+  }
+
+  async addCircleMember(memberData: Omit<CircleMember, 'id' | 'joined_at'>): Promise<CircleMember> {
+    if (await this.getUserCircleMembership(memberData.user_id, memberData.circle_id)) {
+      throw new Error('Already a member');
+    }
+
+    const member: CircleMember = {
+      ...memberData,
+      id: this.nextId.circleMembers++,
+      joined_at: this.now()
+    };
+    this.circleMembers.set(member.id, member);
+    return member;
+  }
+
+  async removeCircleMember(userId: string, circleId: number): Promise<void> {
+    for (const member of Array.from(this.circleMembers.values())) {
+      if (member.user_id === userId && member.circle_id === circleId) {
+        this.circleMembers.delete(member.id);
+      }
+    }
+  }
+
+  async updateCircleMemberRole(userId: string, circleId: number, role: string): Promise<CircleMember | null> {
+    const member = await this.getUserCircleMembership(userId, circleId);
+    if (!member) return null;
+
+    const updated = { ...member, role };
+    this.circleMembers.set(member.id, updated);
+    return updated;
+  }
+
+  async markCircleRead(userId: string, circleId: number, messageId: number): Promise<CircleMember | null> {
+    const member = await this.getUserCircleMembership(userId, circleId);
+    if (!member || (member.last_read_message_id ?? 0) >= messageId) return null;
+
+    const updated = { ...member, last_read_message_id: messageId };
+    this.circleMembers.set(member.id, updated);
+    return updated;
+  }
+
+  async getUnreadCounts(userId: string): Promise<Record<number, number>> {
+    const counts: Record<number, number> = {};
+    for (const member of Array.from(this.circleMembers.values())) {
+      if (member.user_id !== userId) continue;
+
+      counts[member.circle_id] = Array.from(this.messages.values()).filter(message =>
+        message.circle_id === member.circle_id &&
+        !message.reply_to &&
+        !message.deleted_at &&
+        message.user_id !== userId &&
+        (member.last_read_message_id
+          ? message.id > member.last_read_message_id
+          : message.created_at > member.joined_at)
+      ).length;
+    }
+    return counts;
+  }
+
+  async getCircleInvites(circleId: number): Promise<CircleInvite[]> {
+    return Array.from(this.circleInvites.values())
+      .filter(invite => invite.circle_id === circleId)
+      .sort((a, b) => this.byCreatedAt(b, a));
+  }
+
+  async getCircleInviteByToken(token: string): Promise<CircleInvite | null> {
+    return Array.from(this.circleInvites.values()).find(invite => invite.token === token) ?? null;
+  }
+
+  async createCircleInvite(inviteData: Omit<CircleInvite, 'id' | 'created_at' | 'uses' | 'revoked_at'>): Promise<CircleInvite> {
+    const invite: CircleInvite = {
+      ...inviteData,
+      id: this.nextId.circleInvites++,
+      uses: 0,
+      created_at: this.now()
+    };
+    this.circleInvites.set(invite.id, invite);
+    return invite;
+  }
+
+  async revokeCircleInvite(id: number): Promise<CircleInvite | null> {
+    const invite = this.circleInvites.get(id);
+    if (!invite) return null;
+
+    const updated = { ...invite, revoked_at: this.now() };
+    this.circleInvites.set(id, updated);
+    return updated;
+  }
+
+  async claimCircleInvite(id: number): Promise<CircleInvite | null> {
+    const invite = this.circleInvites.get(id);
+    if (!invite) return null;
+    if (invite.max_uses != null && invite.uses >= invite.max_uses) return null;
+
+    const updated = { ...invite, uses: invite.uses + 1 };
+    this.circleInvites.set(id, updated);
+    return updated;
+  }
+
+  async getMessages(circleId: number, options: MessagePageOptions = {}): Promise<(Message & MessageThreadSummary & MessageDetails)[]> {
+    const messages = this.pageMessages(
+      Array.from(this.messages.values()).filter(message => message.circle_id === circleId && !message.reply_to),
+      options
+    );
+    const ids = messages.map(message => message.id);
+    const threads = await this.getThreadSummaries(ids);
+    const reactions = await this.getMessageReactions(ids);
+    const attachments = await this.getMessageAttachments(ids);
+    const mentions = await this.getMessageMentions(ids);
+
+    return messages.map(message => ({
+      ...message,
+      user: this.users.get(message.user_id)!,
+      ...threads[message.id],
+      reactions: reactions[message.id],
+      attachments: attachments[message.id],
+      mentions: mentions[message.id]
+    }));
+  }
+
+  async getMessage(id: number): Promise<Message | null> {
+    return this.messages.get(id) ?? null;
+  }
+
+  async getMessageReplies(messageId: number, options: MessagePageOptions = {}): Promise<(Message & MessageDetails)[]> {
+    const replies = this.pageMessages(
+      Array.from(this.messages.values()).filter(message => message.reply_to === messageId),
+      options
+    );
+    const ids = replies.map(reply => reply.id);
+    const reactions = await this.getMessageReactions(ids);
+    const attachments = await this.getMessageAttachments(ids);
+    const mentions = await this.getMessageMentions(ids);
+
+    return replies.map(reply => ({
+      ...reply,
+      user: this.users.get(reply.user_id)!,
+      reactions: reactions[reply.id],
+      attachments: attachments[reply.id],
+      mentions: mentions[reply.id]
+    }));
+  }
+
+  async getThreadSummaries(messageIds: number[]): Promise<Record<number, MessageThreadSummary>> {
+    const summaries: Record<number, MessageThreadSummary> = {};
+    for (const id of messageIds) {
+      summaries[id] = { reply_count: 0, last_reply_at: null };
+    }
+
+    for (const message of Array.from(this.messages.values())) {
+      const summary = message.reply_to ? summaries[message.reply_to] : undefined;
+      if (!summary) continue;
+      summary.reply_count++;
+      if (!summary.last_reply_at || message.created_at > summary.last_reply_at) {
+        summary.last_reply_at = message.created_at;
+      }
+    }
+    return summaries;
+  }
+
+  async createMessage(messageData: Omit<Message, 'id' | 'created_at'>): Promise<Message> {
+    const message: Message = {
+      ...messageData,
+      id: this.nextId.messages++,
+      created_at: this.now()
+    };
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  async editMessage(id: number, content: string, editedBy: string): Promise<Message | null> {
+    const message = this.messages.get(id);
+    if (!message || message.deleted_at) return null;
+
+    const revision: MessageRevision = {
+      id: this.nextId.messageRevisions++,
+      message_id: id,
+      content: message.content,
+      edited_by: editedBy,
+      created_at: this.now()
+    };
+    this.messageRevisions.set(revision.id, revision);
+
+    const updated = { ...message, content, edited_at: this.now() };
+    this.messages.set(id, updated);
+    return updated;
+  }
+
+  async deleteMessage(id: number, deletedBy: string): Promise<Message | null> {
+    const message = this.messages.get(id);
+    if (!message || message.deleted_at) return null;
+
+    const tombstone = { ...message, content: '', deleted_at: this.now(), deleted_by: deletedBy };
+    this.messages.set(id, tombstone);
+    for (const revision of Array.from(this.messageRevisions.values())) {
+      if (revision.message_id === id) {
+        this.messageRevisions.delete(revision.id);
+      }
+    }
+    for (const reaction of Array.from(this.messageReactions.values())) {
+      if (reaction.message_id === id) {
+        this.messageReactions.delete(reaction.id);
+      }
+    }
+    for (const attachment of Array.from(this.messageAttachments.values())) {
+      if (attachment.message_id === id) {
+        this.messageAttachments.delete(attachment.id);
+      }
+    }
+    for (const mention of Array.from(this.messageMentions.values())) {
+      if (mention.message_id === id) {
+        this.messageMentions.delete(mention.id);
+      }
+    }
+    return tombstone;
+  }
+
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    return Array.from(this.messageRevisions.values())
+      .filter(revision => revision.message_id === messageId)
+      .sort(this.byCreatedAt);
+  }
+  async getMessageReactions(messageIds: number[]): Promise<Record<number, MessageReactionSummary[]>> {
+    const reactions: Record<number, MessageReactionSummary[]> = {};
+    for (const id of messageIds) {
+      reactions[id] = [];
+    }
+
+    const rows = Array.from(this.messageReactions.values()).sort(this.byCreatedAt);
+    for (const reaction of rows) {
+      const summaries = reactions[reaction.message_id];
+      if (!summaries) continue;
+
+      let summary = summaries.find(item => item.emoji === reaction.emoji);
+      if (!summary) {
+        summary = { emoji: reaction.emoji, count: 0, users: [] };
+        summaries.push(summary);
+      }
+      const user = this.users.get(reaction.user_id)!;
+      summary.count++;
+      summary.users.push({ id: user.id, first_name: user.first_name, last_name: user.last_name });
+    }
+    return reactions;
+  }
+
+  async addMessageReaction(reactionData: Omit<MessageReaction, 'id' | 'created_at'>): Promise<void> {
+    const exists = Array.from(this.messageReactions.values()).some(reaction =>
+      reaction.message_id === reactionData.message_id &&
+      reaction.user_id === reactionData.user_id &&
+      reaction.emoji === reactionData.emoji
+    );
+    if (exists) return;
+
+    const reaction: MessageReaction = {
+      ...reactionData,
+      id: this.nextId.messageReactions++,
+      created_at: this.now()
+    };
+    this.messageReactions.set(reaction.id, reaction);
+  }
+
+  async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    for (const reaction of Array.from(this.messageReactions.values())) {
+      if (reaction.message_id === messageId && reaction.user_id === userId && reaction.emoji === emoji) {
+        this.messageReactions.delete(reaction.id);
+      }
+    }
+  }
+  async getMessageAttachments(messageIds: number[]): Promise<Record<number, MessageAttachment[]>> {
+    const attachments: Record<number, MessageAttachment[]> = {};
+    for (const id of messageIds) {
+      attachments[id] = [];
+    }
+
+    const rows = Array.from(this.messageAttachments.values()).sort((a, b) => a.id - b.id);
+    for (const attachment of rows) {
+      if (attachment.message_id && attachments[attachment.message_id]) {
+        attachments[attachment.message_id].push(attachment);
+      }
+    }
+    return attachments;
+  }
+
+  async getMessageAttachment(id: number): Promise<MessageAttachment | null> {
+    return this.messageAttachments.get(id) ?? null;
+  }
+
+  async createMessageAttachment(attachmentData: Omit<MessageAttachment, 'id' | 'created_at' | 'message_id'>): Promise<MessageAttachment> {
+    const attachment: MessageAttachment = {
+      ...attachmentData,
+      message_id: null,
+      id: this.nextId.messageAttachments++,
+      created_at: this.now()
+    };
+    this.messageAttachments.set(attachment.id, attachment);
+    return attachment;
+  }
+
+  async linkMessageAttachments(attachmentIds: number[], messageId: number): Promise<void> {
+    for (const id of attachmentIds) {
+      const attachment = this.messageAttachments.get(id);
+      if (attachment && !attachment.message_id) {
+        this.messageAttachments.set(id, { ...attachment, message_id: messageId });
+      }
+    }
+  }
+
+  async getMessageMentions(messageIds: number[]): Promise<Record<number, MentionedUser[]>> {
+    const mentions: Record<number, MentionedUser[]> = {};
+    for (const id of messageIds) {
+      mentions[id] = [];
+    }
+
+    const rows = Array.from(this.messageMentions.values()).sort((a, b) => a.id - b.id);
+    for (const mention of rows) {
+      if (!mentions[mention.message_id]) continue;
+      const user = this.users.get(mention.user_id)!;
+      mentions[mention.message_id].push({ id: user.id, username: user.username });
+    }
+    return mentions;
+  }
+
+  async setMessageMentions(messageId: number, userIds: string[]): Promise<string[]> {
+    const previous: string[] = [];
+    for (const mention of Array.from(this.messageMentions.values())) {
+      if (mention.message_id !== messageId) continue;
+      if (userIds.includes(mention.user_id)) {
+        previous.push(mention.user_id);
+      } else {
+        this.messageMentions.delete(mention.id);
+      }
+    }
+
+    const added = userIds.filter(userId => !previous.includes(userId));
+    for (const userId of added) {
+      const mention: MessageMention = {
+        id: this.nextId.messageMentions++,
+        message_id: messageId,
+        user_id: userId,
+        created_at: this.now()
+      };
+      this.messageMentions.set(mention.id, mention);
+    }
+    return added;
+  }
+
+  async getCartItems(circleId: number): Promise<(CartItem & { user: User, votes: ItemVote[], assignedUser?: User })[]> {
+    const votes = Array.from(this.itemVotes.values());
+    return Array.from(this.cartItems.values())
+      .filter(item => item.circle_id === circleId)
+      .map(item => ({
+        ...item,
+        user: this.users.get(item.added_by)!,
+        assignedUser: item.assigned_to ? this.users.get(item.assigned_to) : undefined,
+        votes: votes.filter(vote => vote.item_id === item.id)
+      }));
+  }
+
+  async getCartItem(id: number): Promise<CartItem | null> {
+    return this.cartItems.get(id) ?? null;
+  }
+
+  async createCartItem(itemData: Omit<CartItem, 'id' | 'created_at'>): Promise<CartItem> {
+    return this.insertCartItem(itemData);
+  }
+
+  private insertCartItem(itemData: Omit<CartItem, 'id' | 'created_at'>): CartItem {
+    const item: CartItem = {
+      ...itemData,
+      quantity: itemData.quantity ?? 1,
+      status: itemData.status ?? 'approved',
+      voting_closes_at: itemData.voting_closes_at ?? null,
+      id: this.nextId.cartItems++,
+      created_at: this.now()
+    };
+    this.cartItems.set(item.id, item);
+    return item;
+  }
+
+  async updateCartItem(id: number, updates: Partial<CartItem>): Promise<CartItem | null> {
+    const item = this.cartItems.get(id);
+    if (!item) return null;
+
+    const updated = { ...item, ...updates, id };
+    this.cartItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteCartItem(id: number): Promise<void> {
+    this.removeCartItem(id);
+  }
+
+  private removeCartItem(id: number): void {
+    this.cartItems.delete(id);
+
+    // Mirror ON DELETE CASCADE on item_votes
+    for (const vote of Array.from(this.itemVotes.values())) {
+      if (vote.item_id === id) {
+        this.itemVotes.delete(vote.id);
+      }
+    }
+  }
+
+  async closeExpiredVoting(now: string): Promise<CartItem[]> {
+    const closed: CartItem[] = [];
+    this.cartItems.forEach(item => {
+      if (item.status === 'proposed' && item.voting_closes_at && item.voting_closes_at <= now) {
+        const rejected: CartItem = { ...item, status: 'rejected' };
+        this.cartItems.set(item.id, rejected);
+        closed.push(rejected);
+      }
+    });
+    return closed;
+  }
+
+  // Same steps as the set_voting_policy SQL function
+  async setVotingPolicy(
+    circleId: number,
+    policy: Pick<Circle, 'vote_quorum' | 'vote_approval_percent' | 'vote_deadline_hours'>,
+    decisions: Record<number, CartItemStatus>,
+    userId: string
+  ): Promise<VotingPolicyChange | null> {
+    const circle = this.circles.get(circleId);
+    if (!circle) return null;
+    this.circles.set(circleId, { ...circle, ...policy });
+
+    const items: CartItem[] = [];
+    const targets: Record<number, number> = {};
+    for (const [itemId, status] of Object.entries(decisions)) {
+      const item = this.cartItems.get(Number(itemId));
+      if (!item || item.circle_id !== circleId || item.status !== 'proposed') continue;
+
+      const decided: CartItem = {
+        ...item,
+        status,
+        voting_closes_at: status === 'approved' ? null : item.voting_closes_at
+      };
+      this.cartItems.set(decided.id, decided);
+      items.push(decided);
+      targets[decided.id] = status === 'rejected' ? 0 : decided.price * (decided.quantity ?? 1);
+    }
+
+    const settlement = this.settle(circleId, targets, userId, 'item_voted')!;
+    return { circle: this.circles.get(circleId)!, items: items.sort((a, b) => a.id - b.id), settlement };
+  }
+
+  async getItemVotes(itemId: number): Promise<ItemVote[]> {
+    return Array.from(this.itemVotes.values()).filter(vote => vote.item_id === itemId);
+  }
+
+  async getItemVote(itemId: number, userId: string): Promise<ItemVote | null> {
+    return Array.from(this.itemVotes.values())
+      .find(vote => vote.item_id === itemId && vote.user_id === userId) ?? null;
+  }
+
+  async createItemVote(voteData: Omit<ItemVote, 'id' | 'created_at'>): Promise<ItemVote> {
+    if (await this.getItemVote(voteData.item_id, voteData.user_id)) {
+      throw new Error('Vote already exists');
+    }
+
+    const vote: ItemVote = {
+      ...voteData,
+      id: this.nextId.itemVotes++,
+      created_at: this.now()
+    };
+    this.itemVotes.set(vote.id, vote);
+    return vote;
+  }
+
+  async updateItemVote(itemId: number, userId: string, vote: number): Promise<ItemVote | null> {
+    const existing = await this.getItemVote(itemId, userId);
+    if (!existing) return null;
+
+    const updated = { ...existing, vote };
+    this.itemVotes.set(existing.id, updated);
+    return updated;
+  }
+
+  async deleteItemVote(itemId: number, userId: string): Promise<void> {
+    const existing = await this.getItemVote(itemId, userId);
+    if (existing) {
+      this.itemVotes.delete(existing.id);
+    }
+  }
+
+  async getTasks(circleId: number): Promise<(Task & { assignedUser?: User, createdByUser: User })[]> {
+    return Array.from(this.tasks.values())
+      .filter(task => task.circle_id === circleId)
+      .map(task => ({
+        ...task,
+        createdByUser: this.users.get(task.created_by)!,
+        assignedUser: task.assigned_to ? this.users.get(task.assigned_to) : undefined
+      }));
+  }
+
+  async getTask(id: number): Promise<Task | null> {
+    return this.tasks.get(id) ?? null;
+  }
+
+  async createTask(taskData: Omit<Task, 'id' | 'created_at'>): Promise<Task> {
+    const task: Task = {
+      ...taskData,
+      id: this.nextId.tasks++,
+      created_at: this.now()
+    };
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  async updateTask(id: number, updates: Partial<Task>): Promise<Task | null> {
+    const task = this.tasks.get(id);
+    if (!task) return null;
+
+    const updated = { ...task, ...updates, id };
+    this.tasks.set(id, updated);
+    return updated;
+  }
+
+  async deleteTask(id: number): Promise<void> {
+    this.tasks.delete(id);
+  }
+
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.user_id === userId)
+      .sort((a, b) => this.byCreatedAt(b, a));
+  }
+
+  async createNotification(notificationData: Omit<Notification, 'id' | 'created_at'>): Promise<Notification> {
+    const notification: Notification = {
+      ...notificationData,
+      id: this.nextId.notifications++,
+      created_at: this.now()
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async markNotificationAsRead(id: number): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (notification) {
+      this.notifications.set(id, { ...notification, read: true });
+    }
+  }
+
+  async getCartHistory(circleId: number): Promise<(CartHistory & { user: User })[]> {
+    return Array.from(this.cartHistory.values())
+      .filter(entry => entry.circle_id === circleId)
+      .sort((a, b) => this.byCreatedAt(b, a))
+      .map(entry => ({
+        ...entry,
+        user: this.users.get(entry.user_id)!
+      }));
+  }
+
+  async createCartHistory(historyData: Omit<CartHistory, 'id' | 'created_at'>): Promise<CartHistory> {
+    const entry: CartHistory = {
+      ...historyData,
+      id: this.nextId.cartHistory++,
+      created_at: this.now()
+    };
+    this.cartHistory.set(entry.id, entry);
+    return entry;
+  }
+
+  // Same steps as the settle_budget SQL function; nothing can interleave
+  // with them here
+  async settleBudget(
+    circleId: number,
+    targets: Record<number, number>,
+    userId: string | null,
+    reason: string,
+    reconcile: boolean = false
+  ): Promise<BudgetSettlement | null> {
+    return this.settle(circleId, targets, userId, reason, reconcile);
+  }
+
+  private settle(
+    circleId: number,
+    targets: Record<number, number>,
+    userId: string | null,
+    reason: string,
+    reconcile: boolean = false
+  ): BudgetSettlement | null {
+    const circle = this.circles.get(circleId);
+    if (!circle) return null;
+
+    const circleEntries = Array.from(this.budgetEntries.values()).filter(entry => entry.circle_id === circleId);
+    const ledger = new Map<number, number>(); // cart item id -> total
+    for (const entry of circleEntries) {
+      if (entry.cart_item_id !== null) {
+        ledger.set(entry.cart_item_id, (ledger.get(entry.cart_item_id) ?? 0) + entry.amount);
+      }
+    }
+
+    const itemIds = new Set(Object.keys(targets).map(Number));
+    if (reconcile) {
+      ledger.forEach((_total, itemId) => itemIds.add(itemId));
+    }
+
+    const entries: BudgetEntry[] = [];
+    for (const itemId of Array.from(itemIds).sort((a, b) => a - b)) {
+      const amount = (targets[itemId] ?? 0) - (ledger.get(itemId) ?? 0);
+      if (amount === 0) continue;
+
+      const entry: BudgetEntry = {
+        id: this.nextId.budgetEntries++,
+        circle_id: circleId,
+        cart_item_id: itemId,
+        user_id: userId,
+        amount,
+        reason,
+        created_at: this.now()
+      };
+      this.budgetEntries.set(entry.id, entry);
+      entries.push(entry);
+    }
+
+    const previousSpent = circle.spent;
+    const spent = [...circleEntries, ...entries].reduce((sum, entry) => sum + entry.amount, 0);
+    this.circles.set(circleId, { ...circle, spent });
+    return { budget: circle.budget ?? 0, spent, previous_spent: previousSpent, entries };
+  }
+
+  // Same steps as the write_cart_item SQL function
+  async writeCartItem(
+    circleId: number,
+    itemId: number | null,
+    values: Partial<CartItem> | null,
+    userId: string,
+    reason: string,
+    enforceLock: boolean = false
+  ): Promise<CartItemWrite | BudgetLocked | null> {
+    const circle = this.circles.get(circleId);
+    if (!circle) return null;
+    const existing = itemId === null ? null : this.cartItems.get(itemId) ?? null;
+    if (itemId !== null && existing?.circle_id !== circleId) return null;
+
+    // What the item charges once written: rejected items and deleted ones
+    // nothing
+    const written = values && ({ ...existing, ...values } as CartItem);
+    const cost = !written || written.status === 'rejected' ? 0 : written.price * (written.quantity ?? 1);
+
+    const budget = circle.budget ?? 0;
+    if (enforceLock && circle.budget_locked && budget > 0) {
+      const charged = Array.from(this.budgetEntries.values())
+        .filter(entry => entry.circle_id === circleId && existing && entry.cart_item_id === existing.id)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      const increase = cost - charged;
+      if (increase > 0 && circle.spent + increase > budget) {
+        return { budget_locked: { budget, spent: circle.spent, increase } };
+      }
+    }
+
+    let item: CartItem | null = null;
+    if (!existing) {
+      item = this.insertCartItem({ ...written!, circle_id: circleId });
+    } else if (written) {
+      item = { ...written, id: existing.id };
+      this.cartItems.set(item.id, item);
+    } else {
+      this.removeCartItem(existing.id);
+    }
+
+    const settlement = this.settle(circleId, { [item?.id ?? existing!.id]: cost }, userId, reason)!;
+    return { item, settlement };
+  }
+
+  // Same steps as the checkout_cart SQL function
+  async checkoutCart(circleId: number, userId: string, items: OrderItem[], total: number): Promise<Checkout | null> {
+    const circle = this.circles.get(circleId);
+    if (!circle) return null;
+
+    const cartItems = Array.from(this.cartItems.values()).filter(item => item.circle_id === circleId);
+    const checkoutItems = cartItems.filter(item => item.status === 'approved' || item.status === 'purchased');
+    const matches = items.length > 0 && items.length === checkoutItems.length && items.every(snapshot => {
+      const item = this.cartItems.get(snapshot.cart_item_id);
+      return !!item && checkoutItems.includes(item) &&
+        item.price === snapshot.price && (item.quantity ?? 1) === snapshot.quantity;
+    });
+    if (!matches) return null;
+
+    const order: Order = {
+      id: this.nextId.orders++,
+      circle_id: circleId,
+      placed_by: userId,
+      total,
+      items,
+      created_at: this.now()
+    };
+    this.orders.set(order.id, order);
+
+    const clearedIds = new Set([
+      ...items.map(item => item.cart_item_id),
+      ...cartItems.filter(item => item.status === 'rejected').map(item => item.id)
+    ]);
+    const circleEntries = Array.from(this.budgetEntries.values()).filter(entry => entry.circle_id === circleId);
+    const refunds = new Map<number, number>();
+    for (const entry of circleEntries) {
+      if (entry.cart_item_id !== null && clearedIds.has(entry.cart_item_id)) {
+        refunds.set(entry.cart_item_id, (refunds.get(entry.cart_item_id) ?? 0) - entry.amount);
+      }
+    }
+
+    const entries: BudgetEntry[] = [];
+    const append = (cartItemId: number | null, orderId: number | null, amount: number) => {
+      const entry: BudgetEntry = {
+        id: this.nextId.budgetEntries++,
+        circle_id: circleId,
+        cart_item_id: cartItemId,
+        order_id: orderId,
+        user_id: userId,
+        amount,
+        reason: 'checkout',
+        created_at: this.now()
+      };
+      this.budgetEntries.set(entry.id, entry);
+      entries.push(entry);
+    };
+    Array.from(refunds.keys()).sort((a, b) => a - b).forEach(itemId => {
+      const amount = refunds.get(itemId)!;
+      if (amount !== 0) append(itemId, null, amount);
+    });
+    append(null, order.id, total);
+
+    const previousSpent = circle.spent;
+    const spent = [...circleEntries, ...entries].reduce((sum, entry) => sum + entry.amount, 0);
+    this.circles.set(circleId, { ...circle, spent });
+
+    for (const itemId of Array.from(clearedIds)) {
+      await this.deleteCartItem(itemId);
+    }
+    return {
+      order,
+      settlement: { budget: circle.budget ?? 0, spent, previous_spent: previousSpent, entries }
+    };
+  }
+
+  async getOrders(circleId: number): Promise<OrderSummary[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.circle_id === circleId)
+      .sort((a, b) => this.byCreatedAt(b, a))
+      .map(order => {
+        const user = order.placed_by ? this.users.get(order.placed_by) : undefined;
+        return {
+          ...order,
+          placed_by_user: user ? { id: user.id, first_name: user.first_name, last_name: user.last_name } : null
+        };
+      });
+  }
+
+  async searchCircle(circleId: number, options: CircleSearchOptions): Promise<SearchResult[]> {
+    const { types, authorId, from, to, limit = 20, offset = 0 } = options;
+    const terms = tokenizeSearchQuery(options.query);
+    if (terms.length === 0) return [];
+
+    const candidates: { type: SearchResultType; id: number; user_id: string; title: string | null; body: string; reply_to: number | null; created_at: string }[] = [
+      ...Array.from(this.messages.values())
+        .filter(message => message.circle_id === circleId && !message.deleted_at)
+        .map(message => ({
+          type: 'message' as const,
+          id: message.id,
+          user_id: message.user_id,
+          title: null,
+          body: message.content,
+          reply_to: message.reply_to ?? null,
+          created_at: message.created_at
+        })),
+      ...Array.from(this.cartItems.values())
+        .filter(item => item.circle_id === circleId)
+        .map(item => ({
+          type: 'cart_item' as const,
+          id: item.id,
+          user_id: item.added_by,
+          title: item.name,
+          body: item.name,
+          reply_to: null,
+          created_at: item.created_at
+        })),
+      ...Array.from(this.tasks.values())
+        .filter(task => task.circle_id === circleId)
+        .map(task => ({
+          type: 'task' as const,
+          id: task.id,
+          user_id: task.created_by,
+          title: task.title,
+          body: `${task.title} ${task.description ?? ''}`.trim(),
+          reply_to: null,
+          created_at: task.created_at
+        }))
+    ];
+
+    return candidates
+      .filter(candidate =>
+        (!types || types.includes(candidate.type)) &&
+        (!authorId || candidate.user_id === authorId) &&
+        (!from || candidate.created_at >= from) &&
+        (!to || candidate.created_at < to)
+      )
+      .map(candidate => ({ candidate, rank: scoreSearchText(candidate.body, terms) }))
+      .filter(({ rank }) => rank > 0)
+      .sort((a, b) =>
+        b.rank - a.rank ||
+        b.candidate.created_at.localeCompare(a.candidate.created_at) ||
+        b.candidate.id - a.candidate.id
+      )
+      .slice(offset, offset + limit)
+      .map(({ candidate: { body, ...candidate }, rank }) => {
+        const user = this.users.get(candidate.user_id);
+        return {
+          ...candidate,
+          user: user ? { id: user.id, first_name: user.first_name, last_name: user.last_name } : null,
+          snippet: buildSnippet(body, terms),
+          rank
+        };
+      });
+  }
+}
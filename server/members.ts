@@ -0,0 +1,100 @@
+import { can, resolveRole } from "./permissions";
+import { HttpError } from "./errors";
+import type { Circle, CircleMember } from "./supabase";
+
+// Roles that can be stored on circle_members; 'owner' is derived from circles.created_by
+export type MemberRole = 'admin' | 'member' | 'viewer';
+
+export const MEMBER_ROLES: MemberRole[] = ['admin', 'member', 'viewer'];
+
+export type MemberChange =
+  | { type: 'remove' }
+  | { type: 'leave' }
+  | { type: 'set_role'; role: MemberRole }
+  | { type: 'transfer_ownership' };
+
+export class MemberChangeError extends HttpError {}
+
+const countAdmins = (members: CircleMember[]) => {
+  return members.filter(member => member.role === 'admin').length;
+};
+
+// Validates a membership change against the circle rules and throws a
+// MemberChangeError describing why it is not allowed. The owner (the
+// circle's created_by) can't be removed or demoted and has to hand the
+// circle over before leaving, and no change may leave a circle that still
+// has members without an admin.
+export const assertMemberChangeAllowed = (
+  circle: Circle,
+  members: CircleMember[],
+  actorId: string,
+  targetId: string,
+  change: MemberChange
+): void => {
+  const actor = members.find(member => member.user_id === actorId);
+  const target = members.find(member => member.user_id === targetId);
+
+  if (!actor) {
+    throw new MemberChangeError('Not a member of this circle', 403);
+  }
+  if (!target) {
+    throw new MemberChangeError('Member not found', 404);
+  }
+
+  const isOwner = circle.created_by === targetId;
+  const actorRole = resolveRole(circle, actor);
+  const remaining = members.filter(member => member.user_id !== targetId);
+
+  switch (change.type) {
+    case 'leave':
+      if (actorId !== targetId) {
+        throw new MemberChangeError('You can only leave a circle yourself', 403);
+      }
+      if (isOwner && remaining.length > 0) {
+        throw new MemberChangeError('Transfer ownership to another member before leaving');
+      }
+      if (target.role === 'admin' && remaining.length > 0 && countAdmins(remaining) === 0) {
+        throw new MemberChangeError('Promote another member to admin before leaving');
+      }
+      return;
+
+    case 'remove':
+      if (!can(actorRole, 'member.kick')) {
+        throw new MemberChangeError('Only circle admins can remove members', 403);
+      }
+      if (actorId === targetId) {
+        throw new MemberChangeError('Use leave to remove yourself from a circle');
+      }
+      if (isOwner) {
+        throw new MemberChangeError('The circle owner cannot be removed', 403);
+      }
+      if (target.role === 'admin' && countAdmins(remaining) === 0) {
+        throw new MemberChangeError('A circle must always have at least one admin');
+      }
+      return;
+
+    case 'set_role':
+      if (!can(actorRole, 'member.role')) {
+        throw new MemberChangeError('Only circle admins can change roles', 403);
+      }
+      if (!MEMBER_ROLES.includes(change.role)) {
+        throw new MemberChangeError('Invalid role');
+      }
+      if (change.role !== 'admin' && isOwner) {
+        throw new MemberChangeError('The circle owner must remain an admin', 403);
+      }
+      if (change.role !== 'admin' && target.role === 'admin' && countAdmins(remaining) === 0) {
+        throw new MemberChangeError('A circle must always have at least one admin');
+      }
+      return;
+
+    case 'transfer_ownership':
+      if (!can(actorRole, 'circle.transfer')) {
+        throw new MemberChangeError('Only the circle owner can transfer ownership', 403);
+      }
+      if (actorId === targetId) {
+        throw new MemberChangeError('You already own this circle');
+      }
+      return;
+  }
+};
@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+
+// An "@" that doesn't follow a word character (so email addresses don't
+// count), then the username
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_][\w.-]*)/g;
+
+// Lowercased usernames mentioned in a message. Trailing dots and dashes are
+// read as punctuation, e.g. "thanks @sam."
+export const parseMentions = (content: string): string[] => {
+  const usernames = Array.from(content.matchAll(MENTION_PATTERN))
+    .map(match => match[2].replace(/[.-]+$/, '').toLowerCase());
+  return Array.from(new Set(usernames));
+};
+
+// Maps the usernames mentioned in a message to circle members. Names that
+// aren't in the circle and authors mentioning themselves are ignored.
+export async function resolveMentions(circleId: number, content: string, authorId: string): Promise<string[]> {
+  const usernames = parseMentions(content);
+  if (usernames.length === 0) return [];
+
+  const members = await storage.getCircleMembers(circleId);
+  return members
+    .filter(member => member.user_id !== authorId && usernames.includes(member.user?.username?.toLowerCase()))
+    .map(member => member.user_id);
+}
@@ -0,0 +1,290 @@
+import { claimAttachments, deleteAttachmentBlobs } from "./attachments";
+import { resolveMentions } from "./mentions";
+import { authorize, PermissionError } from "./permissions";
+import { storage, type MessagePageOptions } from "./storage";
+import { HttpError } from "./errors";
+import type { CircleMember, Message, MessageReactionSummary, Notification, ReadReceipt, User } from "./supabase";
+import type { ServerEvent } from "../shared/protocol";
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export class MessageError extends HttpError {}
+
+// Reactions are a single emoji (which can take several code units with
+// skin tones or ZWJ sequences), never free text
+const MAX_REACTION_LENGTH = 16;
+
+export type MessagePageQuery = MessagePageOptions & { limit: number };
+
+// A stored message and the users it newly mentions, who still need a
+// mention notification
+export type MessageWrite = { message: Message; mentions: string[] };
+
+const parseId = (value: unknown): number | undefined => {
+  const id = parseInt(value as string);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+};
+
+// Reads `before`, `after` and `limit` from a request query. `before` wins
+// when both cursors are given.
+export const parseMessagePageQuery = (query: Record<string, unknown>): MessagePageQuery => {
+  const limit = Math.min(parseId(query.limit) ?? DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE);
+  const before = parseId(query.before);
+  const after = before ? undefined : parseId(query.after);
+  return { limit, before, after };
+};
+
+// Fetches one row more than the page needs to tell whether another page
+// follows, then trims it. nextCursor continues in the same direction: the
+// oldest id when paging back, the newest when paging forward.
+export async function fetchMessagePage<T extends { id: number }>(
+  options: MessagePageQuery,
+  fetch: (options: MessagePageOptions) => Promise<T[]>
+): Promise<{ items: T[]; nextCursor: number | null }> {
+  const rows = await fetch({ ...options, limit: options.limit + 1 });
+  const hasMore = rows.length > options.limit;
+
+  if (options.after) {
+    const items = hasMore ? rows.slice(0, options.limit) : rows;
+    return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+  }
+
+  const items = hasMore ? rows.slice(1) : rows;
+  return { items, nextCursor: hasMore ? items[0].id : null };
+}
+
+// Threads are one level deep: replying to a reply files the new message
+// under the same top-level message. Returns the id to store in reply_to.
+export async function resolveReplyTarget(circleId: number, replyTo?: number | null): Promise<number | null> {
+  if (!replyTo) return null;
+
+  const parent = await storage.getMessage(replyTo);
+  if (!parent || parent.circle_id !== circleId) {
+    throw new PermissionError('The message you are replying to was not found', 404);
+  }
+  if (parent.deleted_at) {
+    throw new MessageError('You cannot reply to a deleted message');
+  }
+  return parent.reply_to ?? parent.id;
+}
+
+// Stores a new message from REST or the socket once 'message.send' has been
+// authorized. Attachments must be the sender's own pending uploads; a
+// message with attachments may have no text.
+export async function postMessage(
+  userId: string,
+  circleId: number,
+  data: { content?: unknown; replyTo?: number | null; attachmentIds?: unknown }
+): Promise<MessageWrite> {
+  const content = typeof data.content === 'string' ? data.content : '';
+  const replyTo = await resolveReplyTarget(circleId, data.replyTo);
+  const attachmentIds = await claimAttachments(userId, circleId, data.attachmentIds);
+  if (!content.trim() && attachmentIds.length === 0) {
+    throw new MessageError('Message content cannot be empty');
+  }
+
+  const message = await storage.createMessage({
+    circle_id: circleId,
+    user_id: userId,
+    content,
+    reply_to: replyTo
+  });
+  await storage.linkMessageAttachments(attachmentIds, message.id);
+
+  const mentions = await storage.setMessageMentions(message.id, await resolveMentions(circleId, content, userId));
+  return { message, mentions };
+}
+
+// Loads a message and checks the edit/delete against the permission matrix,
+// treating the author as the owner of the resource. Tombstones can't be
+// changed any further.
+async function authorizeMessageChange(
+  userId: string,
+  messageId: number,
+  action: 'message.edit' | 'message.delete'
+): Promise<Message> {
+  const message = await storage.getMessage(messageId);
+  if (!message) {
+    throw new PermissionError('Message not found', 404);
+  }
+
+  await authorize(userId, message.circle_id, action, { resourceOwnerId: message.user_id });
+  if (message.deleted_at) {
+    throw new MessageError('This message has been deleted', 410);
+  }
+  return message;
+}
+
+// Edits re-read the mentions; only users added by the edit are notified
+export async function editMessage(userId: string, messageId: number, content: unknown): Promise<MessageWrite> {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new MessageError('Message content cannot be empty');
+  }
+
+  const message = await authorizeMessageChange(userId, messageId, 'message.edit');
+  if (message.content === content.trim()) {
+    return { message, mentions: [] };
+  }
+
+  const updated = await storage.editMessage(messageId, content.trim(), userId);
+  if (!updated) {
+    throw new MessageError('This message has been deleted', 410);
+  }
+
+  const mentions = await storage.setMessageMentions(
+    messageId,
+    await resolveMentions(updated.circle_id, updated.content, userId)
+  );
+  return { message: updated, mentions };
+}
+
+export async function deleteMessage(userId: string, messageId: number): Promise<Message> {
+  await authorizeMessageChange(userId, messageId, 'message.delete');
+
+  // The tombstone drops the attachment rows, so collect them first to
+  // remove their files afterwards
+  const attachments = await storage.getMessageAttachments([messageId]);
+  const tombstone = await storage.deleteMessage(messageId, userId);
+  if (!tombstone) {
+    throw new MessageError('This message has been deleted', 410);
+  }
+
+  await deleteAttachmentBlobs(attachments[messageId] ?? []);
+  return tombstone;
+}
+
+export const normalizeReaction = (emoji: unknown): string => {
+  const value = typeof emoji === 'string' ? emoji.trim() : '';
+  if (!value || value.length > MAX_REACTION_LENGTH || /\s/.test(value)) {
+    throw new MessageError('Reactions must be a single emoji');
+  }
+  return value;
+};
+
+// Adds or removes the user's reaction and returns the message's updated
+// reaction summary
+export async function setMessageReaction(
+  userId: string,
+  messageId: number,
+  emoji: unknown,
+  reacted: boolean
+): Promise<{ message: Message; reactions: MessageReactionSummary[] }> {
+  const value = normalizeReaction(emoji);
+  const message = await storage.getMessage(messageId);
+  if (!message) {
+    throw new PermissionError('Message not found', 404);
+  }
+
+  await authorize(userId, message.circle_id, 'message.react');
+  if (message.deleted_at) {
+    throw new MessageError('This message has been deleted', 410);
+  }
+
+  if (reacted) {
+    await storage.addMessageReaction({ message_id: messageId, user_id: userId, emoji: value });
+  } else {
+    await storage.removeMessageReaction(messageId, userId, value);
+  }
+
+  const reactions = await storage.getMessageReactions([messageId]);
+  return { message, reactions: reactions[messageId] };
+}
+
+// Moves the user's read marker up to a top-level message they have had on
+// screen. Markers never move back, so a late report from another tab can't
+// undo a newer one. Resolves to null when the marker didn't move.
+export async function markCircleRead(userId: string, circleId: number, messageId: unknown): Promise<CircleMember | null> {
+  const id = parseId(messageId);
+  const message = id ? await storage.getMessage(id) : null;
+  if (!message || message.circle_id !== circleId) {
+    throw new MessageError('Message not found', 404);
+  }
+  if (message.reply_to) {
+    throw new MessageError('Only top-level messages can be marked as read');
+  }
+  return storage.markCircleRead(userId, circleId, message.id);
+}
+
+export async function getReadReceipts(circleId: number): Promise<ReadReceipt[]> {
+  const members = await storage.getCircleMembers(circleId);
+  return members.map(member => ({
+    user_id: member.user_id,
+    user: member.user
+      ? { id: member.user.id, first_name: member.user.first_name, last_name: member.user.last_name }
+      : null,
+    last_read_message_id: member.last_read_message_id ?? null
+  }));
+}
+
+export const buildReadEvent = (member: CircleMember): ServerEvent<'read_updated'> => ({
+  type: 'read_updated',
+  circleId: member.circle_id,
+  userId: member.user_id,
+  messageId: member.last_read_message_id ?? null
+});
+
+export async function createMentionNotifications(
+  message: Message,
+  sender: User | null,
+  userIds: string[]
+): Promise<Notification[]> {
+  const notifications: Notification[] = [];
+  for (const userId of userIds) {
+    notifications.push(await storage.createNotification({
+      user_id: userId,
+      circle_id: message.circle_id,
+      type: 'mention',
+      title: 'You were mentioned',
+      message: `${sender?.first_name} ${sender?.last_name} mentioned you: ${message.content.slice(0, 120)}`,
+      read: false
+    }));
+  }
+  return notifications;
+}
+
+// Payload for the new_message event. Replies also carry their thread's
+// updated summary so clients can bump the reply count in place.
+export async function buildNewMessageEvent(message: Message, user: User | null) {
+  const attachments = await storage.getMessageAttachments([message.id]);
+  const mentions = await storage.getMessageMentions([message.id]);
+  const event: ServerEvent<'new_message'> = {
+    type: 'new_message',
+    message: {
+      ...message,
+      user,
+      reactions: [],
+      attachments: attachments[message.id] ?? [],
+      mentions: mentions[message.id] ?? []
+    }
+  };
+
+  if (message.reply_to) {
+    const threads = await storage.getThreadSummaries([message.reply_to]);
+    event.thread = { message_id: message.reply_to, ...threads[message.reply_to] };
+  }
+  return event;
+}
+
+export async function buildMessageChangeEvent(
+  type: 'message_updated' | 'message_deleted',
+  message: Message
+): Promise<ServerEvent<'message_updated' | 'message_deleted'>> {
+  const user = await storage.getUser(message.user_id);
+  const mentions = await storage.getMessageMentions([message.id]);
+  return {
+    type,
+    message: {
+      ...message,
+      user,
+      mentions: mentions[message.id] ?? []
+    }
+  };
+}
+
+export const buildReactionEvent = (message: Message, reactions: MessageReactionSummary[]): ServerEvent<'reaction_updated'> => ({
+  type: 'reaction_updated',
+  message_id: message.id,
+  reply_to: message.reply_to ?? null,
+  reactions
+});
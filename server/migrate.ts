@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { getPool } from "./db";
+
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR
+  || path.resolve(import.meta.dirname, "..", "supabase", "migrations");
+
+// Arbitrary key for pg_advisory_lock so concurrent runners wait for each other
+const MIGRATION_LOCK_KEY = 7_245_310;
+
+// The migrations are written for Supabase, where auth.users and auth.uid()
+// already exist. On plain Postgres we provide just enough of both for the
+// foreign keys and RLS policies to be created. The app connects as the table
+// owner, so the policies are not enforced against it.
+const AUTH_COMPAT_SQL = `
+  CREATE SCHEMA IF NOT EXISTS auth;
+
+  CREATE TABLE IF NOT EXISTS auth.users (
+    id UUID PRIMARY KEY,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+  );
+
+  DO $$
+  BEGIN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'auth' AND p.proname = 'uid'
+    ) THEN
+      CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS
+        'SELECT NULLIF(current_setting(''request.jwt.claim.sub'', true), '''')::uuid';
+    END IF;
+  END
+  $$;
+`;
+
+const log = (message: string) => console.log(`[migrate] ${message}`);
+
+export function listMigrations(dir: string = MIGRATIONS_DIR): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.sql'))
+    .sort();
+}
+
+// Applies every .sql file in the migrations directory that has not been
+// recorded in schema_migrations yet, in filename order, each in its own
+// transaction. Returns the names of the files that were applied.
+export async function runMigrations(dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const client = await getPool().connect();
+  const applied: string[] = [];
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    await client.query(AUTH_COMPAT_SQL);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    const { rows } = await client.query<{ name: string }>('SELECT name FROM schema_migrations');
+    const done = new Set(rows.map(row => row.name));
+
+    for (const file of listMigrations(dir)) {
+      if (done.has(file)) continue;
+
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${file} failed: ${(error as Error).message}`);
+      }
+
+      log(`applied ${file}`);
+      applied.push(file);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+
+  return applied;
+}
+
+// Allow running directly: `npm run db:migrate`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runMigrations()
+    .then((applied) => {
+      log(applied.length ? `${applied.length} migration(s) applied` : 'database is up to date');
+      return getPool().end();
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,76 @@
+import { storage } from "./storage";
+import { itemCost } from "./budget";
+import { HttpError } from "./errors";
+import type { Checkout, Order, OrderItem, User } from "./supabase";
+import type { ServerEvent } from "../shared/protocol";
+
+export class OrderError extends HttpError {}
+
+const CART_CHANGED = 'The cart changed since you reviewed it, review the order again';
+
+// What checking out right now would order, for the admin to review.
+// Proposed items stay in the cart and rejected ones are cleared.
+export interface CheckoutPreview {
+  items: OrderItem[];
+  total: number; // in cents
+  proposedCount: number;
+  rejectedCount: number;
+}
+
+const fullName = (user?: User | null): string | null => (user ? `${user.first_name} ${user.last_name}` : null);
+
+export async function previewCheckout(circleId: number): Promise<CheckoutPreview> {
+  const cartItems = await storage.getCartItems(circleId);
+  const items: OrderItem[] = cartItems
+    .filter(item => item.status === 'approved' || item.status === 'purchased')
+    .map(item => ({
+      cart_item_id: item.id,
+      name: item.name,
+      price: item.price,
+      quantity: item.quantity ?? 1,
+      notes: item.notes ?? null,
+      status: item.status!,
+      added_by: item.added_by,
+      added_by_name: fullName(item.user),
+      assigned_to: item.assigned_to ?? null,
+      assignee_name: fullName(item.assignedUser),
+      upvotes: item.votes.filter(vote => vote.vote > 0).length,
+      downvotes: item.votes.filter(vote => vote.vote < 0).length
+    }));
+
+  return {
+    items,
+    total: items.reduce((sum, item) => sum + itemCost(item), 0),
+    proposedCount: cartItems.filter(item => item.status === 'proposed').length,
+    rejectedCount: cartItems.filter(item => item.status === 'rejected').length
+  };
+}
+
+// Places the order the admin reviewed. expectedTotal is the total from the
+// preview; if the cart no longer adds up to it, or changes before the order
+// is written, nothing is placed and they review again.
+export async function checkout(userId: string, circleId: number, expectedTotal: unknown): Promise<Checkout> {
+  if (typeof expectedTotal !== 'number') {
+    throw new OrderError('expectedTotal is required; review the order before placing it');
+  }
+
+  const preview = await previewCheckout(circleId);
+  if (preview.items.length === 0) {
+    throw new OrderError('There are no approved items to check out', 409);
+  }
+  if (preview.total !== expectedTotal) {
+    throw new OrderError(CART_CHANGED, 409);
+  }
+
+  const placed = await storage.checkoutCart(circleId, userId, preview.items, preview.total);
+  if (!placed) {
+    throw new OrderError(CART_CHANGED, 409);
+  }
+  return placed;
+}
+
+export const buildOrderEvent = (order: Order): ServerEvent<'order_placed'> => ({
+  type: 'order_placed',
+  circleId: order.circle_id,
+  order
+});
@@ -0,0 +1,167 @@
+import { createServer } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { authorize, can, resolveRole, CIRCLE_ACTIONS, PermissionError, type CircleAction, type CircleRole } from "./permissions";
+import { HttpError } from "./errors";
+import { storage } from "./storage";
+import { LocalPubSub } from "./pubsub";
+import { WebSocketManager } from "./websocket";
+import type { Circle, CircleMember } from "./supabase";
+
+const ROLES: CircleRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+// Who can do what, written out independently of PERMISSIONS. y: allowed,
+// own: only on the user's own resources, -: denied.
+type Expected = 'y' | 'own' | '-';
+const MATRIX: Record<CircleAction, [owner: Expected, admin: Expected, member: Expected, viewer: Expected]> = {
+  'circle.view':     ['y',   'y',   'y',   'y'],
+  'circle.update':   ['y',   'y',   '-',   '-'],
+  'circle.transfer': ['y',   '-',   '-',   '-'],
+  'budget.edit':     ['y',   'y',   '-',   '-'],
+  'message.send':    ['y',   'y',   'y',   '-'],
+  'message.edit':    ['own', 'own', 'own', '-'],
+  'message.delete':  ['y',   'y',   'own', '-'],
+  'message.react':   ['y',   'y',   'y',   '-'],
+  'cart.add':        ['y',   'y',   'y',   '-'],
+  'cart.update':     ['y',   'y',   'own', '-'],
+  'cart.remove':     ['y',   'y',   'own', '-'],
+  'cart.vote':       ['y',   'y',   'y',   '-'],
+  'cart.assign':     ['y',   'y',   '-',   '-'],
+  'cart.purchase':   ['y',   'y',   'own', '-'],
+  'cart.checkout':   ['y',   'y',   '-',   '-'],
+  'task.create':     ['y',   'y',   'y',   '-'],
+  'task.update':     ['y',   'y',   'y',   '-'],
+  'task.assign':     ['y',   'y',   '-',   '-'],
+  'member.invite':   ['y',   'y',   '-',   '-'],
+  'member.kick':     ['y',   'y',   '-',   '-'],
+  'member.role':     ['y',   'y',   '-',   '-']
+};
+
+const cases = CIRCLE_ACTIONS.flatMap(action =>
+  ROLES.map((role, i) => ({ action, role, expected: MATRIX[action][i] }))
+);
+
+describe('permission matrix', () => {
+  it('covers every action', () => {
+    expect(Object.keys(MATRIX).sort()).toEqual([...CIRCLE_ACTIONS].sort());
+  });
+});
+
+describe('resolveRole', () => {
+  const circle = { id: 1, created_by: 'owner-id' } as Circle;
+  const membership = (user_id: string, role: string) => ({ circle_id: 1, user_id, role }) as CircleMember;
+
+  it.each([
+    ['the creator, whatever their row says', membership('owner-id', 'admin'), 'owner'],
+    ['an admin', membership('u', 'admin'), 'admin'],
+    ['a viewer', membership('u', 'viewer'), 'viewer'],
+    ['a member', membership('u', 'member'), 'member'],
+    ['an unknown role as a member', membership('u', 'guest'), 'member'],
+    ['no membership as no role', null, null]
+  ])('resolves %s', (_, member, role) => {
+    expect(resolveRole(circle, member)).toBe(role);
+  });
+});
+
+describe('can', () => {
+  it.each(cases)('$role $action: $expected', ({ action, role, expected }) => {
+    expect(can(role, action)).toBe(expected === 'y');
+    expect(can(role, action, { isOwnResource: true })).toBe(expected !== '-');
+  });
+
+  it.each(CIRCLE_ACTIONS)('denies %s without a role', action => {
+    expect(can(null, action, { isOwnResource: true })).toBe(false);
+  });
+});
+
+// authorize and the socket path are checked against a circle in the memory
+// backend with one user per role and an outsider
+const users = {} as Record<CircleRole | 'outsider', string>;
+let circleId: number;
+let manager: WebSocketManager;
+
+beforeAll(async () => {
+  for (const name of [...ROLES, 'outsider'] as const) {
+    const user = await storage.createUser({
+      email: `${name}@example.com`,
+      password: 'hash',
+      first_name: name,
+      last_name: 'Test',
+      username: name
+    });
+    users[name] = user.id;
+  }
+  const circle = await storage.createCircle({ name: 'Permissions', created_by: users.owner });
+  circleId = circle.id;
+  for (const role of ['admin', 'member', 'viewer'] as const) {
+    await storage.addCircleMember({ circle_id: circleId, user_id: users[role], role });
+  }
+  manager = new WebSocketManager(createServer(), new LocalPubSub());
+});
+
+afterAll(() => {
+  manager?.presence.stop();
+  manager?.['wss'].close();
+});
+
+type Authorizer = (userId: string, action: CircleAction, options?: { resourceOwnerId?: string }) => Promise<unknown>;
+
+const checks: [string, Authorizer][] = [
+  ['authorize', (userId, action, options) => authorize(userId, circleId, action, options)],
+  ['authorizeSocket', (userId, action, options) =>
+    manager['authorizeSocket']({ userId, circleId } as never, action, options)]
+];
+
+describe.each(checks)('%s', (_, check) => {
+  const expectDenied = async (promise: Promise<unknown>, status: number, action?: CircleAction) => {
+    const error = await promise.then(() => null, (error: unknown) => error);
+    expect(error).toBeInstanceOf(PermissionError);
+    expect((error as PermissionError).status).toBe(status);
+    expect((error as PermissionError).action).toBe(action);
+  };
+
+  it.each(cases)('$role $action: $expected', async ({ action, role, expected }) => {
+    const userId = users[role];
+    const ownCheck = check(userId, action, { resourceOwnerId: userId });
+    const otherCheck = check(userId, action, { resourceOwnerId: users.outsider });
+    const plainCheck = check(userId, action);
+
+    if (expected === '-') {
+      await expectDenied(ownCheck, 403, action);
+    } else {
+      await expect(ownCheck).resolves.toMatchObject({ role });
+    }
+    if (expected === 'y') {
+      await expect(otherCheck).resolves.toMatchObject({ role });
+      await expect(plainCheck).resolves.toMatchObject({ role });
+    } else {
+      await expectDenied(otherCheck, 403, action);
+      await expectDenied(plainCheck, 403, action);
+    }
+  });
+
+  it.each(CIRCLE_ACTIONS)('denies %s to non-members', async action => {
+    await expectDenied(check(users.outsider, action, { resourceOwnerId: users.outsider }), 403, action);
+  });
+});
+
+describe('authorize', () => {
+  it('reports a missing circle as not found', async () => {
+    const error = await authorize(users.owner, 999, 'circle.view').catch(error => error);
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error.status).toBe(404);
+  });
+});
+
+describe('authorizeSocket', () => {
+  it('refuses a socket that has not authenticated or joined a circle', async () => {
+    const error = await manager['authorizeSocket']({ userId: users.owner } as never, 'circle.view')
+      .catch(error => error);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(401);
+  });
+
+  it('checks the circle passed in over the one joined', async () => {
+    const ws = { userId: users.owner, circleId: 999 } as never;
+    await expect(manager['authorizeSocket'](ws, 'circle.view', { circleId })).resolves.toMatchObject({ role: 'owner' });
+  });
+});
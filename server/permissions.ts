@@ -0,0 +1,127 @@
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import type { Circle, CircleMember } from "./supabase";
+
+// Owner is not stored on circle_members; it is whoever circles.created_by
+// points at. Everyone else takes the role from their membership row.
+export type CircleRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export type CircleAction =
+  | 'circle.view'
+  | 'circle.update'
+  | 'circle.transfer'
+  | 'budget.edit'
+  | 'message.send'
+  | 'message.edit'
+  | 'message.delete'
+  | 'message.react'
+  | 'cart.add'
+  | 'cart.update'
+  | 'cart.remove'
+  | 'cart.vote'
+  | 'cart.assign'
+  | 'cart.purchase'
+  | 'cart.checkout'
+  | 'task.create'
+  | 'task.update'
+  | 'task.assign'
+  | 'member.invite'
+  | 'member.kick'
+  | 'member.role';
+
+// true grants the action outright; 'own' grants it only on resources the
+// user created (their own cart items, tasks, ...).
+type Grant = true | 'own';
+
+// The permission matrix: who can do what in a circle. Roles missing from an
+// entry are denied.
+export const PERMISSIONS: Record<CircleAction, Partial<Record<CircleRole, Grant>>> = {
+  'circle.view':     { owner: true, admin: true, member: true, viewer: true },
+  'circle.update':   { owner: true, admin: true },
+  'circle.transfer': { owner: true },
+  'budget.edit':     { owner: true, admin: true },
+  'message.send':    { owner: true, admin: true, member: true },
+  'message.edit':    { owner: 'own', admin: 'own', member: 'own' },
+  'message.delete':  { owner: true, admin: true, member: 'own' },
+  'message.react':   { owner: true, admin: true, member: true },
+  'cart.add':        { owner: true, admin: true, member: true },
+  'cart.update':     { owner: true, admin: true, member: 'own' },
+  'cart.remove':     { owner: true, admin: true, member: 'own' },
+  'cart.vote':       { owner: true, admin: true, member: true },
+  'cart.assign':     { owner: true, admin: true },
+  'cart.purchase':   { owner: true, admin: true, member: 'own' },
+  'cart.checkout':   { owner: true, admin: true },
+  'task.create':     { owner: true, admin: true, member: true },
+  'task.update':     { owner: true, admin: true, member: true },
+  'task.assign':     { owner: true, admin: true },
+  'member.invite':   { owner: true, admin: true },
+  'member.kick':     { owner: true, admin: true },
+  'member.role':     { owner: true, admin: true }
+};
+
+export const CIRCLE_ACTIONS = Object.keys(PERMISSIONS) as CircleAction[];
+
+// action is the permission the user was missing, when that is why
+export class PermissionError extends HttpError {
+  constructor(message: string, status: number = 403, public action?: CircleAction) {
+    super(message, status);
+  }
+}
+
+export const resolveRole = (circle: Circle, membership: CircleMember | null | undefined): CircleRole | null => {
+  if (!membership) return null;
+  if (circle.created_by === membership.user_id) return 'owner';
+  if (membership.role === 'admin' || membership.role === 'viewer') return membership.role;
+  return 'member';
+};
+
+export const can = (
+  role: CircleRole | null,
+  action: CircleAction,
+  options: { isOwnResource?: boolean } = {}
+): boolean => {
+  if (!role) return false;
+  const grant = PERMISSIONS[action][role];
+  return grant === true || (grant === 'own' && !!options.isOwnResource);
+};
+
+// Actions the role can perform on at least some resources; used to tell the
+// client which controls to show
+export const allowedActions = (role: CircleRole | null): CircleAction[] => {
+  if (!role) return [];
+  return CIRCLE_ACTIONS.filter(action => PERMISSIONS[action][role] !== undefined);
+};
+
+export interface AuthorizedCircle {
+  circle: Circle;
+  membership: CircleMember;
+  role: CircleRole;
+}
+
+// Loads the circle and the user's membership and checks the action against
+// the permission matrix. Throws a PermissionError (404 for a missing circle,
+// 403 otherwise) when the user may not perform it.
+export async function authorize(
+  userId: string,
+  circleId: number,
+  action: CircleAction,
+  options: { resourceOwnerId?: string } = {}
+): Promise<AuthorizedCircle> {
+  const circle = await storage.getCircle(circleId);
+  if (!circle) {
+    throw new PermissionError('Circle not found', 404);
+  }
+
+  const membership = await storage.getUserCircleMembership(userId, circleId);
+  const role = resolveRole(circle, membership);
+  if (!membership || !role) {
+    throw new PermissionError('Not a member of this circle', 403, action);
+  }
+
+  const isOwnResource = options.resourceOwnerId !== undefined && options.resourceOwnerId === userId;
+  if (!can(role, action, { isOwnResource })) {
+    throw new PermissionError(`Your role does not allow ${action}`, 403, action);
+  }
+
+  return { circle, membership, role };
+}
@@ -0,0 +1,678 @@
+import type pg from "pg";
+import { getPool, withTransaction } from "./db";
+import type { IStorage, MessagePageOptions, CircleSearchOptions } from "./storage";
+import type {
+  User, NewUser, Circle, CircleMember, Message, CartItem, CartItemStatus, ItemVote,
+  Task, Notification, CartHistory, BudgetEntry, BudgetSettlement, OrderItem, OrderSummary, Checkout, CartItemWrite, BudgetLocked, VotingPolicyChange, CircleInvite, MessageThreadSummary, MessageRevision,
+  MessageReaction, MessageReactionSummary, MessageAttachment, MessageDetails, MessageMention, MentionedUser,
+  SearchResult
+} from "./supabase";
+
+type Queryable = pg.Pool | pg.PoolClient;
+
+// Columns that may be changed through the update* methods. Anything else in
+// an updates object is ignored, which also keeps request bodies from ever
+// reaching the SQL text. circles.spent only changes through settleBudget.
+const UPDATABLE_COLUMNS = {
+  circles: [
+    'name', 'description', 'budget', 'budget_alert_thresholds', 'budget_alert_level', 'budget_locked',
+    'vote_quorum', 'vote_approval_percent', 'vote_deadline_hours', 'created_by'
+  ],
+  cart_items: ['name', 'price', 'quantity', 'notes', 'assigned_to', 'status'],
+  tasks: ['title', 'description', 'assigned_to', 'completed', 'due_date']
+} as const;
+
+// IStorage backed directly by PostgreSQL using the schema from
+// supabase/migrations. Joins that Supabase expresses as PostgREST embeds
+// are written as plain SQL joins returning the same shapes.
+export class PgStorage implements IStorage {
+  private get db(): pg.Pool {
+    return getPool();
+  }
+
+  private async one<T>(sql: string, params: unknown[] = [], db: Queryable = this.db): Promise<T | null> {
+    const { rows } = await db.query(sql, params);
+    return rows[0] ?? null;
+  }
+
+  private async many<T>(sql: string, params: unknown[] = [], db: Queryable = this.db): Promise<T[]> {
+    const { rows } = await db.query(sql, params);
+    return rows;
+  }
+
+  private async insert<T>(table: string, values: Record<string, unknown>, db: Queryable = this.db): Promise<T> {
+    const columns = Object.keys(values).filter(column => values[column] !== undefined);
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+    const row = await this.one<T>(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING *`,
+      columns.map(column => values[column]),
+      db
+    );
+    return row!;
+  }
+
+  private async update<T>(
+    table: keyof typeof UPDATABLE_COLUMNS,
+    id: number,
+    updates: Record<string, unknown>
+  ): Promise<T | null> {
+    const allowed: readonly string[] = UPDATABLE_COLUMNS[table];
+    const columns = Object.keys(updates).filter(column => allowed.includes(column) && updates[column] !== undefined);
+    if (columns.length === 0) {
+      return this.one<T>(`SELECT * FROM ${table} WHERE id = $1`, [id]);
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+    return this.one<T>(
+      `UPDATE ${table} SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map(column => updates[column])]
+    );
+  }
+
+  private async withDetails<T extends Message>(
+    messages: T[]
+  ): Promise<(T & Pick<MessageDetails, 'reactions' | 'attachments' | 'mentions'>)[]> {
+    const ids = messages.map(message => message.id);
+    const reactions = await this.getMessageReactions(ids);
+    const attachments = await this.getMessageAttachments(ids);
+    const mentions = await this.getMessageMentions(ids);
+    return messages.map(message => ({
+      ...message,
+      reactions: reactions[message.id],
+      attachments: attachments[message.id],
+      mentions: mentions[message.id]
+    }));
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.one<User>('SELECT * FROM users WHERE id = $1', [id]);
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    return this.one<User>('SELECT * FROM users WHERE username = $1', [username]);
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    return this.one<User>('SELECT * FROM users WHERE email = $1', [email]);
+  }
+
+  async createUser(userData: NewUser): Promise<User> {
+    return withTransaction(async (client) => {
+      // users.id references auth.users, which the migration runner provides
+      // as a minimal table when running outside Supabase
+      const { id } = (await this.one<{ id: string }>(
+        'INSERT INTO auth.users (id) VALUES (COALESCE($1::uuid, gen_random_uuid())) RETURNING id',
+        [userData.id ?? null],
+        client
+      ))!;
+      return this.insert<User>('users', { ...userData, id }, client);
+    });
+  }
+
+  async getCircle(id: number): Promise<Circle | null> {
+    return this.one<Circle>('SELECT * FROM circles WHERE id = $1', [id]);
+  }
+
+  async getCirclesByUserId(userId: string): Promise<Circle[]> {
+    return this.many<Circle>(
+      `SELECT c.*
+       FROM circles c
+       JOIN circle_members cm ON cm.circle_id = c.id
+       WHERE cm.user_id = $1
+       ORDER BY c.id`,
+      [userId]
+    );
+  }
+
+  async createCircle(circleData: Omit<Circle, 'id' | 'created_at' | 'spent'>): Promise<Circle> {
+    return withTransaction(async (client) => {
+      const circle = await this.insert<Circle>('circles', { ...circleData, spent: 0 }, client);
+
+      // Add creator as admin
+      await this.insert<CircleMember>('circle_members', {
+        circle_id: circle.id,
+        user_id: circle.created_by,
+        role: 'admin'
+      }, client);
+
+      return circle;
+    });
+  }
+
+  async updateCircle(id: number, updates: Partial<Circle>): Promise<Circle | null> {
+    return this.update<Circle>('circles', id, updates);
+  }
+
+  async getCircleMembers(circleId: number): Promise<(CircleMember & { user: User })[]> {
+    return this.many(
+      `SELECT cm.*, row_to_json(u) AS "user"
+       FROM circle_members cm
+       LEFT JOIN users u ON u.id = cm.user_id
+       WHERE cm.circle_id = $1
+       ORDER BY cm.joined_at, cm.id`,
+      [circleId]
+    );
+  }
+
+  async getUserCircleMembership(userId: string, circleId: number): Promise<CircleMember | null> {
+    return this.one<CircleMember>(
+      'SELECT * FROM circle_members WHERE user_id = $1 AND circle_id = $2',
+      [userId, circleId]
+    );
+  }
+
+  async addCircleMember(member: Omit<CircleMember, 'id' | 'joined_at'>): Promise<CircleMember> {
+    return this.insert<CircleMember>('circle_members', member);
+  }
+
+  async removeCircleMember(userId: string, circleId: number): Promise<void> {
+    await this.db.query(
+      'DELETE FROM circle_members WHERE user_id = $1 AND circle_id = $2',
+      [userId, circleId]
+    );
+  }
+
+  async updateCircleMemberRole(userId: string, circleId: number, role: string): Promise<CircleMember | null> {
+    return this.one<CircleMember>(
+      'UPDATE circle_members SET role = $3 WHERE user_id = $1 AND circle_id = $2 RETURNING *',
+      [userId, circleId, role]
+    );
+  }
+
+  async markCircleRead(userId: string, circleId: number, messageId: number): Promise<CircleMember | null> {
+    return this.one<CircleMember>(
+      `UPDATE circle_members SET last_read_message_id = $3
+       WHERE user_id = $1 AND circle_id = $2
+         AND (last_read_message_id IS NULL OR last_read_message_id < $3)
+       RETURNING *`,
+      [userId, circleId, messageId]
+    );
+  }
+
+  async getUnreadCounts(userId: string): Promise<Record<number, number>> {
+    const rows = await this.many<{ circle_id: number; unread: number }>(
+      `SELECT cm.circle_id, COUNT(m.id)::int AS unread
+       FROM circle_members cm
+       LEFT JOIN messages m ON m.circle_id = cm.circle_id
+         AND m.reply_to IS NULL
+         AND m.deleted_at IS NULL
+         AND m.user_id IS DISTINCT FROM cm.user_id
+         AND CASE WHEN cm.last_read_message_id IS NULL
+                  THEN m.created_at > cm.joined_at
+                  ELSE m.id > cm.last_read_message_id END
+       WHERE cm.user_id = $1
+       GROUP BY cm.circle_id`,
+      [userId]
+    );
+
+    const counts: Record<number, number> = {};
+    for (const { circle_id, unread } of rows) {
+      counts[circle_id] = unread;
+    }
+    return counts;
+  }
+
+  async getCircleInvites(circleId: number): Promise<CircleInvite[]> {
+    return this.many<CircleInvite>(
+      'SELECT * FROM circle_invites WHERE circle_id = $1 ORDER BY created_at DESC, id DESC',
+      [circleId]
+    );
+  }
+
+  async getCircleInviteByToken(token: string): Promise<CircleInvite | null> {
+    return this.one<CircleInvite>('SELECT * FROM circle_invites WHERE token = $1', [token]);
+  }
+
+  async createCircleInvite(inviteData: Omit<CircleInvite, 'id' | 'created_at' | 'uses' | 'revoked_at'>): Promise<CircleInvite> {
+    return this.insert<CircleInvite>('circle_invites', inviteData);
+  }
+
+  async revokeCircleInvite(id: number): Promise<CircleInvite | null> {
+    return this.one<CircleInvite>(
+      'UPDATE circle_invites SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 RETURNING *',
+      [id]
+    );
+  }
+
+  async claimCircleInvite(id: number): Promise<CircleInvite | null> {
+    return this.one<CircleInvite>(
+      `UPDATE circle_invites SET uses = uses + 1
+       WHERE id = $1 AND (max_uses IS NULL OR uses < max_uses)
+       RETURNING *`,
+      [id]
+    );
+  }
+
+  async getMessages(circleId: number, options: MessagePageOptions = {}): Promise<(Message & MessageThreadSummary & MessageDetails)[]> {
+    const { limit = 50, before, after } = options;
+    const rows = await this.many<Message & MessageThreadSummary & { user: User }>(
+      `SELECT m.*, row_to_json(u) AS "user", t.reply_count, t.last_reply_at
+       FROM messages m
+       LEFT JOIN users u ON u.id = m.user_id
+       CROSS JOIN LATERAL (
+         SELECT COUNT(*)::int AS reply_count, MAX(r.created_at) AS last_reply_at
+         FROM messages r
+         WHERE r.reply_to = m.id
+       ) t
+       WHERE m.circle_id = $1 AND m.reply_to IS NULL
+         AND ($2::int IS NULL OR m.id < $2)
+         AND ($3::int IS NULL OR m.id > $3)
+       ORDER BY m.id ${after ? 'ASC' : 'DESC'}
+       LIMIT $4`,
+      [circleId, before ?? null, after ?? null, limit]
+    );
+    return this.withDetails(after ? rows : rows.reverse());
+  }
+
+  async getMessage(id: number): Promise<Message | null> {
+    return this.one<Message>('SELECT * FROM messages WHERE id = $1', [id]);
+  }
+
+  async getMessageReplies(messageId: number, options: MessagePageOptions = {}): Promise<(Message & MessageDetails)[]> {
+    const { limit = 50, before, after } = options;
+    const rows = await this.many<Message & { user: User }>(
+      `SELECT m.*, row_to_json(u) AS "user"
+       FROM messages m
+       LEFT JOIN users u ON u.id = m.user_id
+       WHERE m.reply_to = $1
+         AND ($2::int IS NULL OR m.id < $2)
+         AND ($3::int IS NULL OR m.id > $3)
+       ORDER BY m.id ${after ? 'ASC' : 'DESC'}
+       LIMIT $4`,
+      [messageId, before ?? null, after ?? null, limit]
+    );
+    return this.withDetails(after ? rows : rows.reverse());
+  }
+
+  async getThreadSummaries(messageIds: number[]): Promise<Record<number, MessageThreadSummary>> {
+    const rows = await this.many<MessageThreadSummary & { id: number }>(
+      `SELECT m.id, COUNT(r.id)::int AS reply_count, MAX(r.created_at) AS last_reply_at
+       FROM messages m
+       LEFT JOIN messages r ON r.reply_to = m.id
+       WHERE m.id = ANY($1::int[])
+       GROUP BY m.id`,
+      [messageIds]
+    );
+
+    const summaries: Record<number, MessageThreadSummary> = {};
+    for (const id of messageIds) {
+      summaries[id] = { reply_count: 0, last_reply_at: null };
+    }
+    for (const { id, ...summary } of rows) {
+      summaries[id] = summary;
+    }
+    return summaries;
+  }
+
+  async createMessage(messageData: Omit<Message, 'id' | 'created_at'>): Promise<Message> {
+    return this.insert<Message>('messages', messageData);
+  }
+  async editMessage(id: number, content: string, editedBy: string): Promise<Message | null> {
+    return withTransaction(async (client) => {
+      const current = await this.one<Message>(
+        'SELECT * FROM messages WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id],
+        client
+      );
+      if (!current) return null;
+
+      await this.insert<MessageRevision>('message_revisions', {
+        message_id: id,
+        content: current.content,
+        edited_by: editedBy
+      }, client);
+
+      return this.one<Message>(
+        'UPDATE messages SET content = $2, edited_at = NOW() WHERE id = $1 RETURNING *',
+        [id, content],
+        client
+      );
+    });
+  }
+
+  async deleteMessage(id: number, deletedBy: string): Promise<Message | null> {
+    return withTransaction(async (client) => {
+      const message = await this.one<Message>(
+        `UPDATE messages SET content = '', deleted_at = NOW(), deleted_by = $2
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING *`,
+        [id, deletedBy],
+        client
+      );
+      if (message) {
+        await client.query('DELETE FROM message_revisions WHERE message_id = $1', [id]);
+        await client.query('DELETE FROM message_reactions WHERE message_id = $1', [id]);
+        await client.query('DELETE FROM message_attachments WHERE message_id = $1', [id]);
+        await client.query('DELETE FROM message_mentions WHERE message_id = $1', [id]);
+      }
+      return message;
+    });
+  }
+
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    return this.many<MessageRevision>(
+      'SELECT * FROM message_revisions WHERE message_id = $1 ORDER BY created_at ASC, id ASC',
+      [messageId]
+    );
+  }
+  async getMessageReactions(messageIds: number[]): Promise<Record<number, MessageReactionSummary[]>> {
+    const rows = await this.many<MessageReactionSummary & { message_id: number }>(
+      `SELECT r.message_id, r.emoji, COUNT(*)::int AS count,
+              json_agg(json_build_object('id', u.id, 'first_name', u.first_name, 'last_name', u.last_name)
+                       ORDER BY r.created_at, r.id) AS users
+       FROM message_reactions r
+       JOIN users u ON u.id = r.user_id
+       WHERE r.message_id = ANY($1::int[])
+       GROUP BY r.message_id, r.emoji
+       ORDER BY MIN(r.created_at), MIN(r.id)`,
+      [messageIds]
+    );
+
+    const reactions: Record<number, MessageReactionSummary[]> = {};
+    for (const id of messageIds) {
+      reactions[id] = [];
+    }
+    for (const { message_id, ...summary } of rows) {
+      reactions[message_id].push(summary);
+    }
+    return reactions;
+  }
+
+  async addMessageReaction(reactionData: Omit<MessageReaction, 'id' | 'created_at'>): Promise<void> {
+    await this.db.query(
+      `INSERT INTO message_reactions (message_id, user_id, emoji) VALUES ($1, $2, $3)
+       ON CONFLICT (message_id, user_id, emoji) DO NOTHING`,
+      [reactionData.message_id, reactionData.user_id, reactionData.emoji]
+    );
+  }
+
+  async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM message_reactions WHERE message_id = $1 AND user_id = $2 AND emoji = $3',
+      [messageId, userId, emoji]
+    );
+  }
+  async getMessageAttachments(messageIds: number[]): Promise<Record<number, MessageAttachment[]>> {
+    const rows = await this.many<MessageAttachment>(
+      'SELECT * FROM message_attachments WHERE message_id = ANY($1::int[]) ORDER BY id',
+      [messageIds]
+    );
+
+    const attachments: Record<number, MessageAttachment[]> = {};
+    for (const id of messageIds) {
+      attachments[id] = [];
+    }
+    for (const attachment of rows) {
+      attachments[attachment.message_id!].push(attachment);
+    }
+    return attachments;
+  }
+
+  async getMessageAttachment(id: number): Promise<MessageAttachment | null> {
+    return this.one<MessageAttachment>('SELECT * FROM message_attachments WHERE id = $1', [id]);
+  }
+
+  async createMessageAttachment(attachmentData: Omit<MessageAttachment, 'id' | 'created_at' | 'message_id'>): Promise<MessageAttachment> {
+    return this.insert<MessageAttachment>('message_attachments', attachmentData);
+  }
+
+  async linkMessageAttachments(attachmentIds: number[], messageId: number): Promise<void> {
+    await this.db.query(
+      'UPDATE message_attachments SET message_id = $2 WHERE id = ANY($1::int[]) AND message_id IS NULL',
+      [attachmentIds, messageId]
+    );
+  }
+
+  async getMessageMentions(messageIds: number[]): Promise<Record<number, MentionedUser[]>> {
+    const rows = await this.many<MentionedUser & { message_id: number }>(
+      `SELECT m.message_id, u.id, u.username
+       FROM message_mentions m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.message_id = ANY($1::int[])
+       ORDER BY m.id`,
+      [messageIds]
+    );
+
+    const mentions: Record<number, MentionedUser[]> = {};
+    for (const id of messageIds) {
+      mentions[id] = [];
+    }
+    for (const { message_id, ...user } of rows) {
+      mentions[message_id].push(user);
+    }
+    return mentions;
+  }
+
+  async setMessageMentions(messageId: number, userIds: string[]): Promise<string[]> {
+    return withTransaction(async (client) => {
+      await client.query(
+        'DELETE FROM message_mentions WHERE message_id = $1 AND NOT (user_id = ANY($2::uuid[]))',
+        [messageId, userIds]
+      );
+      const added = await this.many<Pick<MessageMention, 'user_id'>>(
+        `INSERT INTO message_mentions (message_id, user_id)
+         SELECT $1, unnest($2::uuid[])
+         ON CONFLICT (message_id, user_id) DO NOTHING
+         RETURNING user_id`,
+        [messageId, userIds],
+        client
+      );
+      return added.map(mention => mention.user_id);
+    });
+  }
+
+  async getCartItems(circleId: number): Promise<(CartItem & { user: User, votes: ItemVote[], assignedUser?: User })[]> {
+    return this.many(
+      `SELECT ci.*,
+         row_to_json(u) AS "user",
+         row_to_json(au) AS "assignedUser",
+         COALESCE(
+           (SELECT json_agg(v ORDER BY v.id) FROM item_votes v WHERE v.item_id = ci.id),
+           '[]'::json
+         ) AS votes
+       FROM cart_items ci
+       LEFT JOIN users u ON u.id = ci.added_by
+       LEFT JOIN users au ON au.id = ci.assigned_to
+       WHERE ci.circle_id = $1
+       ORDER BY ci.created_at, ci.id`,
+      [circleId]
+    );
+  }
+
+  async getCartItem(id: number): Promise<CartItem | null> {
+    return this.one<CartItem>('SELECT * FROM cart_items WHERE id = $1', [id]);
+  }
+
+  async createCartItem(itemData: Omit<CartItem, 'id' | 'created_at'>): Promise<CartItem> {
+    return this.insert<CartItem>('cart_items', itemData);
+  }
+
+  async updateCartItem(id: number, updates: Partial<CartItem>): Promise<CartItem | null> {
+    return this.update<CartItem>('cart_items', id, updates);
+  }
+
+  async deleteCartItem(id: number): Promise<void> {
+    await this.db.query('DELETE FROM cart_items WHERE id = $1', [id]);
+  }
+
+  async closeExpiredVoting(now: string): Promise<CartItem[]> {
+    return this.many<CartItem>(
+      `UPDATE cart_items SET status = 'rejected'
+       WHERE status = 'proposed' AND voting_closes_at <= $1
+       RETURNING *`,
+      [now]
+    );
+  }
+
+  async setVotingPolicy(
+    circleId: number,
+    policy: Pick<Circle, 'vote_quorum' | 'vote_approval_percent' | 'vote_deadline_hours'>,
+    decisions: Record<number, CartItemStatus>,
+    userId: string
+  ): Promise<VotingPolicyChange | null> {
+    const row = await this.one<{ change: VotingPolicyChange | null }>(
+      'SELECT set_voting_policy($1, $2::jsonb, $3::jsonb, $4) AS change',
+      [circleId, JSON.stringify(policy), JSON.stringify(decisions), userId]
+    );
+    return row?.change ?? null;
+  }
+
+  async getItemVotes(itemId: number): Promise<ItemVote[]> {
+    return this.many<ItemVote>('SELECT * FROM item_votes WHERE item_id = $1', [itemId]);
+  }
+
+  async getItemVote(itemId: number, userId: string): Promise<ItemVote | null> {
+    return this.one<ItemVote>(
+      'SELECT * FROM item_votes WHERE item_id = $1 AND user_id = $2',
+      [itemId, userId]
+    );
+  }
+
+  async createItemVote(voteData: Omit<ItemVote, 'id' | 'created_at'>): Promise<ItemVote> {
+    return this.insert<ItemVote>('item_votes', voteData);
+  }
+
+  async updateItemVote(itemId: number, userId: string, vote: number): Promise<ItemVote | null> {
+    return this.one<ItemVote>(
+      'UPDATE item_votes SET vote = $3 WHERE item_id = $1 AND user_id = $2 RETURNING *',
+      [itemId, userId, vote]
+    );
+  }
+
+  async deleteItemVote(itemId: number, userId: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM item_votes WHERE item_id = $1 AND user_id = $2',
+      [itemId, userId]
+    );
+  }
+
+  async getTasks(circleId: number): Promise<(Task & { assignedUser?: User, createdByUser: User })[]> {
+    return this.many(
+      `SELECT t.*,
+         row_to_json(cu) AS "createdByUser",
+         row_to_json(au) AS "assignedUser"
+       FROM tasks t
+       LEFT JOIN users cu ON cu.id = t.created_by
+       LEFT JOIN users au ON au.id = t.assigned_to
+       WHERE t.circle_id = $1
+       ORDER BY t.created_at, t.id`,
+      [circleId]
+    );
+  }
+
+  async getTask(id: number): Promise<Task | null> {
+    return this.one<Task>('SELECT * FROM tasks WHERE id = $1', [id]);
+  }
+
+  async createTask(taskData: Omit<Task, 'id' | 'created_at'>): Promise<Task> {
+    return this.insert<Task>('tasks', taskData);
+  }
+
+  async updateTask(id: number, updates: Partial<Task>): Promise<Task | null> {
+    return this.update<Task>('tasks', id, updates);
+  }
+
+  async deleteTask(id: number): Promise<void> {
+    await this.db.query('DELETE FROM tasks WHERE id = $1', [id]);
+  }
+
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return this.many<Notification>(
+      'SELECT * FROM notifications WHERE user_id = $1 ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+  }
+
+  async createNotification(notificationData: Omit<Notification, 'id' | 'created_at'>): Promise<Notification> {
+    return this.insert<Notification>('notifications', notificationData);
+  }
+
+  async markNotificationAsRead(id: number): Promise<void> {
+    await this.db.query('UPDATE notifications SET read = TRUE WHERE id = $1', [id]);
+  }
+
+  async getCartHistory(circleId: number): Promise<(CartHistory & { user: User })[]> {
+    return this.many(
+      `SELECT ch.*, row_to_json(u) AS "user"
+       FROM cart_history ch
+       LEFT JOIN users u ON u.id = ch.user_id
+       WHERE ch.circle_id = $1
+       ORDER BY ch.created_at DESC, ch.id DESC`,
+      [circleId]
+    );
+  }
+
+  async createCartHistory(historyData: Omit<CartHistory, 'id' | 'created_at'>): Promise<CartHistory> {
+    return this.insert<CartHistory>('cart_history', {
+      ...historyData,
+      details: historyData.details === undefined ? undefined : JSON.stringify(historyData.details)
+    });
+  }
+
+  async settleBudget(
+    circleId: number,
+    targets: Record<number, number>,
+    userId: string | null,
+    reason: string,
+    reconcile: boolean = false
+  ): Promise<BudgetSettlement | null> {
+    const row = await this.one<{ settlement: BudgetSettlement | null }>(
+      'SELECT settle_budget($1, $2::jsonb, $3, $4, $5) AS settlement',
+      [circleId, JSON.stringify(targets), userId, reason, reconcile]
+    );
+    return row?.settlement ?? null;
+  }
+
+  async writeCartItem(
+    circleId: number,
+    itemId: number | null,
+    values: Partial<CartItem> | null,
+    userId: string,
+    reason: string,
+    enforceLock: boolean = false
+  ): Promise<CartItemWrite | BudgetLocked | null> {
+    const row = await this.one<{ written: CartItemWrite | BudgetLocked | null }>(
+      'SELECT write_cart_item($1, $2, $3::jsonb, $4, $5, $6) AS written',
+      [circleId, itemId, values && JSON.stringify(values), userId, reason, enforceLock]
+    );
+    return row?.written ?? null;
+  }
+
+  async checkoutCart(circleId: number, userId: string, items: OrderItem[], total: number): Promise<Checkout | null> {
+    const row = await this.one<{ checkout: Checkout | null }>(
+      'SELECT checkout_cart($1, $2, $3::jsonb, $4) AS checkout',
+      [circleId, userId, JSON.stringify(items), total]
+    );
+    return row?.checkout ?? null;
+  }
+
+  async getOrders(circleId: number): Promise<OrderSummary[]> {
+    return this.many<OrderSummary>(
+      `SELECT o.*,
+         CASE WHEN u.id IS NULL THEN NULL
+              ELSE json_build_object('id', u.id, 'first_name', u.first_name, 'last_name', u.last_name)
+         END AS placed_by_user
+       FROM orders o
+       LEFT JOIN users u ON u.id = o.placed_by
+       WHERE o.circle_id = $1
+       ORDER BY o.created_at DESC, o.id DESC`,
+      [circleId]
+    );
+  }
+
+  async searchCircle(circleId: number, options: CircleSearchOptions): Promise<SearchResult[]> {
+    return this.many<SearchResult>(
+      'SELECT * FROM search_circle($1, $2, $3, $4, $5, $6, $7, $8)',
+      [
+        circleId,
+        options.query,
+        options.types ?? null,
+        options.authorId ?? null,
+        options.from ?? null,
+        options.to ?? null,
+        options.limit ?? 20,
+        options.offset ?? 0
+      ]
+    );
+  }
+}
@@ -0,0 +1,200 @@
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+// Clients send a heartbeat this often (they're told in auth_success). A
+// connection that misses a few counts as offline even before its socket
+// closes.
+export const PRESENCE_HEARTBEAT_MS = parseInt(process.env.PRESENCE_HEARTBEAT_MS || '30000', 10);
+// Connected users who haven't done anything for this long show as idle
+export const PRESENCE_IDLE_MS = parseInt(process.env.PRESENCE_IDLE_MS || '300000', 10);
+const MISSED_HEARTBEATS = 3;
+
+// When a user is connected to more than one node the best status wins
+const STATUS_RANK: Record<PresenceStatus, number> = { offline: 0, idle: 1, online: 2 };
+
+interface Connection {
+  lastSeenAt: number;
+  lastActiveAt: number;
+}
+
+// What another node last reported about its own connections
+interface RemoteNode {
+  statuses: Map<string, PresenceStatus>; // userId -> status, offline users omitted
+  seenAt: number;
+}
+
+export type PresenceListener = (userId: string, status: PresenceStatus) => void;
+
+// Tracks each user's open connections and how recently they did something.
+// A user is online while any connection has been active within the idle
+// timeout, idle while connected but quiet, and offline otherwise.
+//
+// Other nodes report their users' statuses through setRemoteStatus and
+// setRemoteSnapshot, and getStatus merges them in. A node that stops
+// reporting is forgotten after the same grace period as a quiet connection.
+// onChange hears about every change to a merged status, including the ones
+// a timeout causes; onLocalChange hears about this node's own statuses so
+// they can be passed on.
+export class PresenceService {
+  private connections: Map<string, Map<object, Connection>> = new Map(); // userId -> connection -> activity
+  private statuses: Map<string, PresenceStatus> = new Map(); // last status reported, offline users omitted
+  private localStatuses: Map<string, PresenceStatus> = new Map(); // same, for this node's connections alone
+  private remoteNodes: Map<string, RemoteNode> = new Map(); // nodeId -> what it reported
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private listeners: { onChange: PresenceListener; onLocalChange?: PresenceListener },
+    private now: () => number = Date.now
+  ) {}
+
+  // Re-checks everyone once per heartbeat so idle and missed-heartbeat
+  // timeouts are noticed without any traffic
+  start() {
+    this.sweepTimer = setInterval(() => this.sweep(), PRESENCE_HEARTBEAT_MS);
+    this.sweepTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.sweepTimer);
+  }
+
+  connect(userId: string, connection: object) {
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Map());
+    }
+    const now = this.now();
+    this.connections.get(userId)!.set(connection, { lastSeenAt: now, lastActiveAt: now });
+    this.update(userId);
+  }
+
+  // Heartbeats keep a connection alive; `active` says whether the user did
+  // anything since the previous one
+  heartbeat(userId: string, connection: object, active: boolean) {
+    const entry = this.connections.get(userId)?.get(connection);
+    if (!entry) return;
+
+    entry.lastSeenAt = this.now();
+    if (active) {
+      entry.lastActiveAt = entry.lastSeenAt;
+    }
+    this.update(userId);
+  }
+
+  disconnect(userId: string, connection: object) {
+    const userConnections = this.connections.get(userId);
+    if (!userConnections) return;
+
+    userConnections.delete(connection);
+    if (userConnections.size === 0) {
+      this.connections.delete(userId);
+    }
+    this.update(userId);
+  }
+
+  // The status from this node's connections only
+  getLocalStatus(userId: string): PresenceStatus {
+    const now = this.now();
+    let status: PresenceStatus = 'offline';
+    for (const connection of Array.from(this.connections.get(userId)?.values() ?? [])) {
+      if (now - connection.lastSeenAt > PRESENCE_HEARTBEAT_MS * MISSED_HEARTBEATS) continue;
+      if (now - connection.lastActiveAt < PRESENCE_IDLE_MS) return 'online';
+      status = 'idle';
+    }
+    return status;
+  }
+
+  getStatus(userId: string): PresenceStatus {
+    let status = this.getLocalStatus(userId);
+    this.remoteNodes.forEach(node => {
+      const remote = node.statuses.get(userId) ?? 'offline';
+      if (STATUS_RANK[remote] > STATUS_RANK[status]) {
+        status = remote;
+      }
+    });
+    return status;
+  }
+
+  // How many of the users are in each state, e.g. a circle's members
+  summarize(userIds: string[]): Record<PresenceStatus, number> {
+    const counts: Record<PresenceStatus, number> = { online: 0, idle: 0, offline: 0 };
+    for (const userId of userIds) {
+      counts[this.getStatus(userId)]++;
+    }
+    return counts;
+  }
+
+  // This node's users who aren't offline, for other nodes to merge in
+  getLocalSnapshot(): Record<string, PresenceStatus> {
+    const snapshot: Record<string, PresenceStatus> = {};
+    this.localStatuses.forEach((status, userId) => {
+      snapshot[userId] = status;
+    });
+    return snapshot;
+  }
+
+  setRemoteStatus(nodeId: string, userId: string, status: PresenceStatus) {
+    const node = this.touchRemoteNode(nodeId);
+    if (status === 'offline') {
+      node.statuses.delete(userId);
+    } else {
+      node.statuses.set(userId, status);
+    }
+    this.update(userId);
+  }
+
+  // Replaces everything the node reported before
+  setRemoteSnapshot(nodeId: string, snapshot: Record<string, PresenceStatus>) {
+    const node = this.touchRemoteNode(nodeId);
+    const affected = new Set([...Array.from(node.statuses.keys()), ...Object.keys(snapshot)]);
+
+    node.statuses = new Map();
+    for (const userId of Object.keys(snapshot)) {
+      if (snapshot[userId] !== 'offline') {
+        node.statuses.set(userId, snapshot[userId]);
+      }
+    }
+    affected.forEach(userId => this.update(userId));
+  }
+
+  private touchRemoteNode(nodeId: string): RemoteNode {
+    if (!this.remoteNodes.has(nodeId)) {
+      this.remoteNodes.set(nodeId, { statuses: new Map(), seenAt: 0 });
+    }
+    const node = this.remoteNodes.get(nodeId)!;
+    node.seenAt = this.now();
+    return node;
+  }
+
+  sweep() {
+    const now = this.now();
+    this.remoteNodes.forEach((node, nodeId) => {
+      if (now - node.seenAt > PRESENCE_HEARTBEAT_MS * MISSED_HEARTBEATS) {
+        this.remoteNodes.delete(nodeId);
+      }
+    });
+
+    const userIds = new Set([...Array.from(this.statuses.keys()), ...Array.from(this.localStatuses.keys())]);
+    userIds.forEach(userId => this.update(userId));
+  }
+
+  private update(userId: string) {
+    const local = this.getLocalStatus(userId);
+    if (local !== (this.localStatuses.get(userId) ?? 'offline')) {
+      if (local === 'offline') {
+        this.localStatuses.delete(userId);
+      } else {
+        this.localStatuses.set(userId, local);
+      }
+      this.listeners.onLocalChange?.(userId, local);
+    }
+
+    const status = this.getStatus(userId);
+    if (status === (this.statuses.get(userId) ?? 'offline')) return;
+
+    if (status === 'offline') {
+      this.statuses.delete(userId);
+    } else {
+      this.statuses.set(userId, status);
+    }
+    this.listeners.onChange(userId, status);
+  }
+}
@@ -0,0 +1,256 @@
+import net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { encodeCommand, parseReply, RedisPubSub, type RedisReply } from "./pubsub";
+
+const parseAll = (raw: string | Buffer) => parseReply(Buffer.from(raw), 0);
+
+// Every prefix of a reply is incomplete; only the whole of it parses
+const expectOnlyWholeParses = (raw: Buffer, expected: RedisReply) => {
+  for (let end = 0; end < raw.length; end++) {
+    expect(parseReply(raw.subarray(0, end), 0)).toBeNull();
+  }
+  expect(parseReply(raw, 0)).toEqual({ reply: expected, next: raw.length });
+};
+
+describe('parseReply', () => {
+  it.each([
+    ['a simple string', '+OK\r\n', 'OK'],
+    ['an integer', ':42\r\n', 42],
+    ['a bulk string', '$5\r\nhello\r\n', 'hello'],
+    ['an empty bulk string', '$0\r\n\r\n', ''],
+    ['a null bulk string', '$-1\r\n', null],
+    ['a null array', '*-1\r\n', null],
+    ['an empty array', '*0\r\n', []]
+  ])('reads %s', (_, raw, expected) => {
+    expect(parseAll(raw)).toEqual({ reply: expected, next: raw.length });
+  });
+
+  it('reads errors as Error values', () => {
+    const parsed = parseAll('-ERR unknown command\r\n');
+    expect(parsed?.reply).toBeInstanceOf(Error);
+    expect((parsed?.reply as Error).message).toBe('ERR unknown command');
+  });
+
+  it('counts bulk string lengths in bytes', () => {
+    const text = 'héllo ✓ 🛒';
+    const raw = Buffer.from(`$${Buffer.byteLength(text)}\r\n${text}\r\n`);
+    expect(Buffer.byteLength(text)).toBeGreaterThan(text.length);
+    expect(parseReply(raw, 0)).toEqual({ reply: text, next: raw.length });
+  });
+
+  it('keeps bulk strings that contain CRLF whole', () => {
+    expect(parseAll('$4\r\na\r\nb\r\n')).toEqual({ reply: 'a\r\nb', next: 10 });
+  });
+
+  it('reads nested arrays', () => {
+    const raw = '*3\r\n*2\r\n:1\r\n$1\r\na\r\n*0\r\n*1\r\n*1\r\n$-1\r\n';
+    expect(parseAll(raw)).toEqual({ reply: [[1, 'a'], [], [[null]]], next: raw.length });
+  });
+
+  it('waits for the rest of a reply split anywhere', () => {
+    const text = 'dîner ✓';
+    expectOnlyWholeParses(
+      Buffer.from(`*3\r\n$7\r\nmessage\r\n$8\r\nws:event\r\n$${Buffer.byteLength(text)}\r\n${text}\r\n`),
+      ['message', 'ws:event', text]
+    );
+  });
+
+  it('reads consecutive replies from an offset', () => {
+    const raw = Buffer.from('+OK\r\n:2\r\n$3\r\nabc\r\n');
+    const first = parseReply(raw, 0)!;
+    const second = parseReply(raw, first.next)!;
+    const third = parseReply(raw, second.next)!;
+    expect([first.reply, second.reply, third.reply]).toEqual(['OK', 2, 'abc']);
+    expect(third.next).toBe(raw.length);
+  });
+
+  it('throws on a reply type it does not know', () => {
+    expect(() => parseAll('%1\r\n')).toThrow('Unexpected Redis reply');
+  });
+
+  it('reads back encoded commands', () => {
+    const args = ['PUBLISH', 'ws:events', '{"text":"ünïcode ✓"}'];
+    expectOnlyWholeParses(Buffer.from(encodeCommand(args)), args);
+  });
+});
+
+// A stand-in for Redis that understands AUTH, PING, SUBSCRIBE and PUBLISH.
+// Pushes to subscribers go out a byte at a time so the client has to put
+// them back together.
+class FakeRedis {
+  private server = net.createServer(socket => this.accept(socket));
+  private sockets = new Set<net.Socket>();
+  private subscriptions = new Map<net.Socket, Set<string>>();
+  commands: string[][] = [];
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `redis://:secret@127.0.0.1:${port}`;
+  }
+
+  subscriberCount(channel: string): number {
+    return Array.from(this.subscriptions.values()).filter(channels => channels.has(channel)).length;
+  }
+
+  // Drops every client connection, as a Redis restart would
+  disconnectAll() {
+    this.sockets.forEach(socket => socket.destroy());
+  }
+
+  async close() {
+    this.disconnectAll();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private accept(socket: net.Socket) {
+    socket.setNoDelay(true);
+    this.sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed;
+      while ((parsed = parseReply(buffer, 0))) {
+        buffer = buffer.subarray(parsed.next);
+        this.handle(socket, (parsed.reply as string[]).map(String));
+      }
+    });
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.subscriptions.delete(socket);
+    });
+  }
+
+  private handle(socket: net.Socket, [name, ...args]: string[]) {
+    this.commands.push([name, ...args]);
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        socket.write(args[args.length - 1] === 'secret' ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        return;
+      case 'PING':
+        socket.write('+PONG\r\n');
+        return;
+      case 'SUBSCRIBE': {
+        const channels = this.subscriptions.get(socket) ?? new Set<string>();
+        this.subscriptions.set(socket, channels);
+        for (const channel of args) {
+          channels.add(channel);
+          socket.write(`*3\r\n$9\r\nsubscribe\r\n$${Buffer.byteLength(channel)}\r\n${channel}\r\n:${channels.size}\r\n`);
+        }
+        return;
+      }
+      case 'PUBLISH': {
+        const [channel, message] = args;
+        const receivers = Array.from(this.subscriptions).filter(([, channels]) => channels.has(channel));
+        for (const [subscriber] of receivers) {
+          const push = Buffer.from(encodeCommand(['message', channel, message]));
+          for (const byte of push) subscriber.write(Buffer.from([byte]));
+        }
+        socket.write(`:${receivers.length}\r\n`);
+        return;
+      }
+      default:
+        socket.write(`-ERR unknown command '${name}'\r\n`);
+    }
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+// Publishes until the subscriber hears it; a publish can race the
+// subscription being made
+const publishUntilReceived = async (pubsub: RedisPubSub, channel: string, message: string, received: string[]) => {
+  await waitFor(() => {
+    if (received.includes(message)) return true;
+    pubsub.publish(channel, message).catch(() => {});
+    return false;
+  });
+};
+
+describe('RedisPubSub', () => {
+  let fake: FakeRedis | undefined;
+  let pubsub: RedisPubSub | undefined;
+
+  afterEach(async () => {
+    await pubsub?.close();
+    await fake?.close();
+    pubsub = fake = undefined;
+  });
+
+  it('authenticates and delivers messages split across packets', async () => {
+    fake = new FakeRedis();
+    pubsub = new RedisPubSub(await fake.listen());
+    const received: string[] = [];
+    await pubsub.subscribe('ws:events', message => received.push(message));
+
+    await publishUntilReceived(pubsub, 'ws:events', '{"text":"crème brûlée ✓"}', received);
+    expect(fake.commands.filter(([name]) => name === 'AUTH')).toHaveLength(2);
+    expect(fake.commands.filter(([name]) => name === 'AUTH').every(([, password]) => password === 'secret')).toBe(true);
+  });
+
+  it('resubscribes after the connection drops', async () => {
+    fake = new FakeRedis();
+    pubsub = new RedisPubSub(await fake.listen());
+    const received: string[] = [];
+    await pubsub.subscribe('ws:events', message => received.push(message));
+    await pubsub.subscribe('other', () => {});
+    await publishUntilReceived(pubsub, 'ws:events', 'before', received);
+    const subscribes = () => fake!.commands.filter(([name]) => name === 'SUBSCRIBE');
+    const subscribedBefore = subscribes().length;
+
+    fake.disconnectAll();
+    await waitFor(() => subscribes().length > subscribedBefore);
+    expect(subscribes().slice(subscribedBefore)).toEqual([['SUBSCRIBE', 'ws:events', 'other']]);
+
+    await publishUntilReceived(pubsub, 'ws:events', 'after', received);
+    expect(fake.subscriberCount('ws:events')).toBe(1);
+  });
+
+  it('fails publishes while disconnected instead of queueing them', async () => {
+    fake = new FakeRedis();
+    const url = await fake.listen();
+    await fake.close();
+    pubsub = new RedisPubSub(url);
+    await expect(pubsub.publish('ws:events', 'lost')).rejects.toThrow('not ready');
+  });
+
+  it('still delivers to its own subscribers while disconnected', async () => {
+    fake = new FakeRedis();
+    pubsub = new RedisPubSub(await fake.listen());
+    const received: string[] = [];
+    await pubsub.subscribe('ws:events', message => received.push(message));
+    await publishUntilReceived(pubsub, 'ws:events', 'before', received);
+
+    await fake.close();
+    await expect(pubsub.publish('ws:events', 'while down')).rejects.toThrow();
+    expect(received.filter(message => message === 'while down')).toHaveLength(1);
+  });
+});
+
+// Against a real server when one is configured, e.g.
+// REDIS_URL=redis://localhost:6379 npm test
+describe.runIf(process.env.REDIS_URL)('RedisPubSub against REDIS_URL', () => {
+  it('delivers between two clients', async () => {
+    const channel = `pubsub-test:${process.pid}:${Date.now()}`;
+    const publisher = new RedisPubSub(process.env.REDIS_URL!);
+    const subscriber = new RedisPubSub(process.env.REDIS_URL!);
+    try {
+      const received: string[] = [];
+      await subscriber.subscribe(channel, message => received.push(message));
+      await waitFor(() => {
+        if (received.includes('hello ✓')) return true;
+        publisher.publish(channel, 'hello ✓').catch(() => {});
+        return false;
+      }, 10000);
+    } finally {
+      await publisher.close();
+      await subscriber.close();
+    }
+  });
+});
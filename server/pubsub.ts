@@ -0,0 +1,273 @@
+import { EventEmitter } from "events";
+import net from "net";
+
+// Carries messages between server nodes. Every subscriber to a channel,
+// the publishing node's own included, gets each message published to it,
+// in publish order.
+export interface PubSub {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+// For a single node: messages are handed to subscribers synchronously
+export class LocalPubSub implements PubSub {
+  private emitter = new EventEmitter();
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.emitter.emit(channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.emitter.on(channel, handler);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export const encodeCommand = (args: string[]): string => {
+  let command = `*${args.length}\r\n`;
+  for (const arg of args) {
+    command += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return command;
+};
+
+// Reads one RESP reply starting at offset. Returns null when the buffer
+// doesn't hold all of it yet.
+export function parseReply(buffer: Buffer, offset: number): { reply: RedisReply; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return { reply: line, next };
+    case '-':
+      return { reply: new Error(line), next };
+    case ':':
+      return { reply: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { reply: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { reply: null, next };
+
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.reply);
+        position = item.next;
+      }
+      return { reply: items, next: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply: ${line}`);
+  }
+}
+
+// Pushes a subscribed connection receives without asking
+const PUSH_KINDS = ['message', 'subscribe', 'unsubscribe'];
+
+// One connection to Redis, reconnecting with backoff whenever it drops.
+// Replies answer pending commands in order, except pub/sub pushes, which go
+// to onPush when it's given.
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+  private ready = false;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  constructor(
+    private url: URL,
+    private handlers: { onReady?: () => void; onPush?: (reply: RedisReply[]) => void } = {}
+  ) {
+    this.connect();
+  }
+
+  private connect() {
+    const socket = net.connect(Number(this.url.port) || 6379, this.url.hostname || 'localhost');
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.on('connect', () => {
+      this.authenticate()
+        .then(() => {
+          this.reconnectAttempts = 0;
+          this.ready = true;
+          this.handlers.onReady?.();
+        })
+        .catch((error) => {
+          console.error('Redis authentication failed:', error.message);
+          socket.destroy();
+        });
+    });
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', (error) => {
+      console.error('Redis connection error:', error.message);
+    });
+    socket.on('close', () => this.handleClose());
+  }
+
+  private async authenticate() {
+    if (!this.url.password) return;
+
+    const password = decodeURIComponent(this.url.password);
+    const reply = await this.write(
+      this.url.username ? ['AUTH', decodeURIComponent(this.url.username), password] : ['AUTH', password]
+    );
+    if (reply instanceof Error) throw reply;
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let parsed;
+      try {
+        parsed = parseReply(this.buffer, offset);
+      } catch (error) {
+        // Out of step with the server; start over on a fresh connection
+        console.error('Redis protocol error:', error);
+        this.socket?.destroy();
+        return;
+      }
+      if (!parsed) break;
+
+      offset = parsed.next;
+      const { reply } = parsed;
+      if (this.handlers.onPush && Array.isArray(reply) && PUSH_KINDS.includes(String(reply[0]))) {
+        this.handlers.onPush(reply);
+      } else {
+        this.pending.shift()?.resolve(reply);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private handleClose() {
+    this.ready = false;
+    this.pending.splice(0).forEach(({ reject }) => reject(new Error('Redis connection closed')));
+    if (this.closed) return;
+
+    const delay = Math.min(100 * Math.pow(2, this.reconnectAttempts), RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    console.error(`Redis connection lost, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private write(args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  // Fails straight away rather than queueing while disconnected
+  async command(args: string[]): Promise<RedisReply> {
+    if (!this.ready) {
+      throw new Error('Redis connection is not ready');
+    }
+    const reply = await this.write(args);
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }
+
+  // For commands answered by pushes, e.g. SUBSCRIBE
+  send(args: string[]): boolean {
+    if (!this.ready) return false;
+    this.socket!.write(encodeCommand(args));
+    return true;
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.end();
+  }
+}
+
+// Publishes over one connection and listens on another, since a subscribed
+// Redis connection can't run other commands. Subscriptions are renewed
+// after a reconnect; messages published while disconnected only reach
+// this node's own subscribers.
+export class RedisPubSub implements PubSub {
+  private publisher: RedisConnection;
+  private subscriber: RedisConnection;
+  private handlers: Map<string, Array<(message: string) => void>> = new Map(); // channel -> handlers
+
+  constructor(url: string) {
+    const parsed = new URL(url);
+    this.publisher = new RedisConnection(parsed);
+    this.subscriber = new RedisConnection(parsed, {
+      onReady: () => {
+        const channels = Array.from(this.handlers.keys());
+        if (channels.length > 0) {
+          this.subscriber.send(['SUBSCRIBE', ...channels]);
+        }
+      },
+      onPush: ([kind, channel, message]) => {
+        if (kind !== 'message') return;
+        this.handlers.get(String(channel))?.forEach(handler => handler(String(message)));
+      }
+    });
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    try {
+      await this.publisher.command(['PUBLISH', channel, message]);
+    } catch (error) {
+      // Other nodes miss it, but this node's sockets still get the event
+      this.handlers.get(channel)?.forEach(handler => handler(message));
+      throw error;
+    }
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, []);
+      // Otherwise the subscription is made once the connection is ready
+      this.subscriber.send(['SUBSCRIBE', channel]);
+    }
+    this.handlers.get(channel)!.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.publisher.close();
+    this.subscriber.close();
+  }
+}
+
+export type PubSubDriver = 'local' | 'redis';
+
+// Selected with PUBSUB_DRIVER. The local driver only reaches this process;
+// run more than one node with the redis driver pointed at REDIS_URL.
+export const pubSubDriver = (process.env.PUBSUB_DRIVER || 'local') as PubSubDriver;
+
+export function createPubSub(driver: PubSubDriver = pubSubDriver): PubSub {
+  switch (driver) {
+    case 'local':
+      return new LocalPubSub();
+    case 'redis':
+      return new RedisPubSub(process.env.REDIS_URL || 'redis://localhost:6379');
+    default:
+      throw new Error(`Unknown pub/sub driver: ${driver}`);
+  }
+}
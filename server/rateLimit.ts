@@ -0,0 +1,137 @@
+import type { Request, RequestHandler } from "express";
+
+// A token bucket: it holds up to capacity tokens, every request takes one
+// and they come back at refillPerSecond. capacity is the burst allowed
+// after a quiet spell; refillPerSecond is the sustained rate.
+export interface RateLimitPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitPolicyName = 'auth' | 'message' | 'cart' | 'typing' | 'connection';
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // Logins and registrations per client address
+  auth: { capacity: 10, refillPerSecond: 1 / 6 },
+  // Chat messages sent per user, over REST and sockets together
+  message: { capacity: 20, refillPerSecond: 1 },
+  // Cart additions, removals and votes per user
+  cart: { capacity: 30, refillPerSecond: 1 },
+  // Clients only send typing when it starts or stops
+  typing: { capacity: 10, refillPerSecond: 1 },
+  // Every message on a socket, whatever its type
+  connection: { capacity: 60, refillPerSecond: 20 },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until a request would be allowed; 0 when it was
+  retryAfterMs: number;
+}
+
+// Where buckets are kept. The memory store only limits what reaches this
+// process; nodes behind a load balancer need a shared one (e.g. Redis) to
+// enforce the limits across all of them.
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket is back to capacity and no longer needs keeping
+  fullAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, Bucket> = new Map();
+  private lastSweepAt: number;
+
+  constructor(private now: () => number = Date.now) {
+    this.lastSweepAt = now();
+  }
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = this.now();
+    this.sweep(now);
+
+    const bucket = this.buckets.get(key);
+    let tokens = bucket
+      ? Math.min(policy.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * policy.refillPerSecond)
+      : policy.capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    const refillMs = (missing: number) => Math.ceil((missing / policy.refillPerSecond) * 1000);
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + refillMs(policy.capacity - tokens) });
+
+    return { allowed, retryAfterMs: allowed ? 0 : refillMs(1 - tokens) };
+  }
+
+  // Full buckets are dropped; a missing bucket counts as full
+  private sweep(now: number) {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = now;
+
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+export type RateLimitStoreDriver = 'memory';
+
+// Selected with RATE_LIMIT_STORE
+export const rateLimitStoreDriver = (process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreDriver;
+
+export function createRateLimitStore(driver: RateLimitStoreDriver = rateLimitStoreDriver): RateLimitStore {
+  switch (driver) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${driver}`);
+  }
+}
+
+// Applies the named policies, each with its own buckets, to keys such as a
+// user id or client address
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore = createRateLimitStore(),
+    private policies: Record<RateLimitPolicyName, RateLimitPolicy> = RATE_LIMIT_POLICIES
+  ) {}
+
+  // Lets requests through if the store can't be reached rather than
+  // locking everyone out
+  async consume(policy: RateLimitPolicyName, key: string): Promise<RateLimitResult> {
+    try {
+      return await this.store.consume(`${policy}:${key}`, this.policies[policy]);
+    } catch (error) {
+      console.error('Rate limit store error:', error);
+      return { allowed: true, retryAfterMs: 0 };
+    }
+  }
+
+  // Answers throttled requests with 429 and a Retry-After header
+  middleware(policy: RateLimitPolicyName, keyOf: (req: Request) => string): RequestHandler {
+    return async (req, res, next) => {
+      const { allowed, retryAfterMs } = await this.consume(policy, keyOf(req));
+      if (allowed) {
+        return next();
+      }
+
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      res.status(429).json({ message: 'Too many requests, please slow down', retryAfterMs });
+    };
+  }
+}
+
+// Shared by the REST routes and the WebSocket server so a user's sends
+// count against one budget whichever way they arrive
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import type { CircleEvent } from "../shared/protocol";
+
+// How many recent events each circle keeps for clients that reconnect
+export const REPLAY_BUFFER_SIZE = parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '200', 10);
+
+interface LoggedEvent {
+  seq: number;
+  event: CircleEvent;
+  excludeUserId?: string;
+}
+
+// Numbers every event broadcast to a circle and keeps the latest ones so a
+// client that drops can be sent what it missed. Sequence numbers start at 1
+// per circle and only last as long as the process, so they're paired with
+// an epoch that changes on every restart.
+export class CircleEventLog {
+  readonly epoch = randomUUID();
+  private seqs: Map<number, number> = new Map(); // circleId -> last seq
+  private buffers: Map<number, LoggedEvent[]> = new Map(); // circleId -> oldest first
+  private evicted: Map<number, number> = new Map(); // circleId -> newest seq pushed out of the buffer
+
+  constructor(private capacity: number = REPLAY_BUFFER_SIZE) {}
+
+  current(circleId: number): number {
+    return this.seqs.get(circleId) ?? 0;
+  }
+
+  // Stamps the event with the circle's next sequence number. Events that
+  // are stale by the time anyone could replay them (typing) are numbered
+  // but not kept.
+  append(circleId: number, event: CircleEvent, options: { excludeUserId?: string; keep?: boolean } = {}) {
+    const seq = this.current(circleId) + 1;
+    this.seqs.set(circleId, seq);
+
+    const stamped: CircleEvent = { ...event, circleId, seq };
+    if (options.keep !== false) {
+      if (!this.buffers.has(circleId)) {
+        this.buffers.set(circleId, []);
+      }
+      const buffer = this.buffers.get(circleId)!;
+      buffer.push({ seq, event: stamped, excludeUserId: options.excludeUserId });
+      if (buffer.length > this.capacity) {
+        this.evicted.set(circleId, buffer.shift()!.seq);
+      }
+    }
+    return stamped;
+  }
+
+  // The kept events after `seq` that were meant for the user, or null when
+  // the log can't vouch for the gap: another epoch, a sequence number the
+  // circle hasn't reached, or events that have already been dropped
+  since(circleId: number, seq: number, epoch: string, userId: string): CircleEvent[] | null {
+    const current = this.current(circleId);
+    if (epoch !== this.epoch || seq > current) return null;
+    if (seq === current) return [];
+    if ((this.evicted.get(circleId) ?? 0) > seq) return null;
+
+    return (this.buffers.get(circleId) ?? [])
+      .filter(entry => entry.seq > seq && entry.excludeUserId !== userId)
+      .map(entry => entry.event);
+  }
+}
@@ -1,16 +1,38 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import passport from "passport";
 import session from "express-session";
 import { storage } from "./storage";
-import { hashPassword, generateToken, verifyToken, createSupabaseUser } from "./auth";
+import { hashPassword, comparePasswords, generateToken, verifyToken, createUserAccount, type JWTPayload } from "./auth";
 import { WebSocketManager } from "./websocket";
-
-interface JWTPayload {
-  userId: string;
-  email: string;
-  username: string;
-}
+import { generateInviteToken, getInviteStatus, inviteMatchesEmail, INVITE_STATUS_MESSAGES } from "./invites";
+import { assertMemberChangeAllowed, type MemberRole } from "./members";
+import { authorize, allowedActions } from "./permissions";
+import { HttpError } from "./errors";
+import { pickTaskUpdates, authorizeTaskAssignment } from "./tasks";
+import { addCartItem, removeCartItem, editCartItem, markItemPurchased, parseCartItemUpdates } from "./cart";
+import { reconcileBudget, parseAlertThresholds, DEFAULT_ALERT_THRESHOLDS } from "./budget";
+import {
+  postMessage, buildNewMessageEvent, buildMessageChangeEvent, parseMessagePageQuery, fetchMessagePage,
+  editMessage, deleteMessage, setMessageReaction, buildReactionEvent, createMentionNotifications,
+  markCircleRead, getReadReceipts, buildReadEvent
+} from "./messages";
+import { votingPolicyOf, parseVotingPolicy, changeVotingPolicy, type PolicyColumns } from "./voting";
+import { previewCheckout, checkout, buildOrderEvent } from "./orders";
+import { parseSearchQuery } from "./search";
+import { rateLimiter } from "./rateLimit";
+import {
+  parseAttachmentUpload, storeAttachment, authorizeAttachmentDownload, openAttachment
+} from "./attachments";
+import type { Circle } from "./supabase";
+
+// The signed-in user on routes behind requireAuth
+const authUser = (req: Request): JWTPayload => {
+  if (!req.user) {
+    throw new HttpError('Not authenticated', 401);
+  }
+  return req.user;
+};
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration
@@ -31,7 +53,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: 'No token provided' });
     }
 
-    const decoded = verifyToken(token) as JWTPayload;
+    const decoded = verifyToken(token);
     if (!decoded) {
       return res.status(401).json({ message: 'Invalid token' });
     }
@@ -40,8 +62,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Sign-in attempts are counted per client address, everything else per
+  // user, so these go after requireAuth
+  const limitAuth = rateLimiter.middleware('auth', req => req.ip || 'unknown');
+  const limitMessages = rateLimiter.middleware('message', (req: any) => authUser(req).userId);
+  const limitCart = rateLimiter.middleware('cart', (req: any) => authUser(req).userId);
+
+  // Permission and domain rule failures carry their own status codes
+  const sendError = (res: any, error: unknown, fallbackMessage: string, fallbackStatus: number = 500) => {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    res.status(fallbackStatus).json({ message: fallbackMessage });
+  };
+
   // Auth routes
-  app.post('/api/auth/register', async (req, res) => {
+  app.post('/api/auth/register', limitAuth, async (req, res) => {
     try {
       const { username, email, password, firstName, lastName } = req.body;
       
@@ -51,8 +87,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'User already exists' });
       }
 
-      // Create user with Supabase Auth
-      const user = await createSupabaseUser({
+      // Create user with the configured auth backend
+      const user = await createUserAccount({
         email,
         password,
         firstName,
@@ -80,7 +116,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/auth/login', async (req, res) => {
+  app.post('/api/auth/login', limitAuth, async (req, res) => {
     try {
       const { email, password } = req.body;
       
@@ -89,8 +125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
-      const bcrypt = require('bcrypt');
-      const isValidPassword = await bcrypt.compare(password, user.password);
+      const isValidPassword = await comparePasswords(password, user.password);
       if (!isValidPassword) {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
@@ -116,7 +151,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/auth/me', requireAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.userId);
+      const user = await storage.getUser(authUser(req).userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
@@ -134,19 +169,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Live WebSocket connections and how many unresponsive ones the last
+  // ping round reaped
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', websocket: wsManager.getMetrics() });
+  });
+
   // Circle routes
   app.get('/api/circles', requireAuth, async (req, res) => {
     try {
-      const circles = await storage.getCirclesByUserId(req.user.userId);
+      const circles = await storage.getCirclesByUserId(authUser(req).userId);
+      const unreadCounts = await storage.getUnreadCounts(authUser(req).userId);
       
       // Get member counts for each circle
       const circlesWithCounts = await Promise.all(
         circles.map(async (circle) => {
           const members = await storage.getCircleMembers(circle.id);
+          const presence = wsManager.presence.summarize(members.map(member => member.user_id));
           return {
             ...circle,
             memberCount: members.length,
-            onlineCount: Math.floor(Math.random() * members.length) // Mock online count
+            unreadCount: unreadCounts[circle.id] ?? 0,
+            onlineCount: presence.online,
+            idleCount: presence.idle
           };
         })
       );
@@ -165,7 +210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name,
         description,
         budget: budget ? Math.round(budget * 100) : null, // Convert to cents
-        created_by: req.user.userId
+        created_by: authUser(req).userId
       });
       
       res.json(circle);
@@ -177,85 +222,560 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/circles/:id', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      const circle = await storage.getCircle(circleId);
-      
-      if (!circle) {
-        return res.status(404).json({ message: 'Circle not found' });
-      }
-
-      // Check if user is member
-      const membership = await storage.getUserCircleMembership(req.user.userId, circleId);
-      if (!membership) {
-        return res.status(403).json({ message: 'Not a member of this circle' });
-      }
+      const { circle, role } = await authorize(authUser(req).userId, circleId, 'circle.view');
 
       const members = await storage.getCircleMembers(circleId);
+      const presence = wsManager.presence.summarize(members.map(member => member.user_id));
       res.json({
         ...circle,
-        members,
+        members: members.map(member => ({ ...member, presence: wsManager.presence.getStatus(member.user_id) })),
         memberCount: members.length,
-        userRole: membership.role
+        onlineCount: presence.online,
+        idleCount: presence.idle,
+        budgetLocked: !!circle.budget_locked,
+        budgetAlertThresholds: circle.budget_alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS,
+        votingPolicy: votingPolicyOf(circle),
+        userRole: role,
+        permissions: allowedActions(role)
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to get circle');
+    }
+  });
+
+  app.patch('/api/circles/:id', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const { name, description, budget, budgetLocked, budgetAlertThresholds, votingPolicy } = req.body;
+
+      const updates: Partial<Circle> = {};
+      let policy: PolicyColumns | undefined;
+      if (name !== undefined || description !== undefined || votingPolicy !== undefined) {
+        await authorize(authUser(req).userId, circleId, 'circle.update');
+        if (name !== undefined) updates.name = name;
+        if (description !== undefined) updates.description = description;
+        if (votingPolicy !== undefined) policy = parseVotingPolicy(votingPolicy);
+      }
+      if (budget !== undefined) {
+        await authorize(authUser(req).userId, circleId, 'budget.edit');
+        updates.budget = Math.round(budget * 100); // Convert to cents
+      }
+      if (budgetLocked !== undefined || budgetAlertThresholds !== undefined) {
+        await authorize(authUser(req).userId, circleId, 'budget.edit');
+        if (budgetLocked !== undefined) updates.budget_locked = !!budgetLocked;
+        if (budgetAlertThresholds !== undefined) {
+          updates.budget_alert_thresholds = parseAlertThresholds(budgetAlertThresholds);
+        }
+      }
+      if (Object.keys(updates).length === 0 && !policy) {
+        return res.status(400).json({ message: 'Nothing to update' });
+      }
+
+      let circle = Object.keys(updates).length > 0 ? await storage.updateCircle(circleId, updates) : null;
+      // Proposed items the new policy decides change along with it
+      const policyChange = policy ? await changeVotingPolicy(authUser(req).userId, circleId, policy) : null;
+      if (policyChange) circle = policyChange.circle;
+
+      wsManager.broadcastToCircle(circleId, {
+        type: 'circle_updated',
+        circle
       });
+      if (policyChange && policyChange.items.length > 0) {
+        const cartItems = await storage.getCartItems(circleId);
+        wsManager.broadcastToCircle(circleId, { type: 'cart_updated', cartItems });
+      }
+      const spentChanged = !!policyChange && policyChange.settlement.spent !== policyChange.settlement.previous_spent;
+      if (circle && (updates.budget !== undefined || updates.budget_alert_thresholds !== undefined || spentChanged)) {
+        await wsManager.sendBudgetUpdate(circleId, circle);
+      }
+
+      res.json(circle);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get circle' });
+      sendError(res, error, 'Invalid circle data', 400);
     }
   });
 
   app.post('/api/circles/:id/join', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({ message: 'An invite token is required to join' });
+      }
+
+      const invite = await storage.getCircleInviteByToken(token);
+      if (!invite || invite.circle_id !== circleId) {
+        return res.status(404).json({ message: 'Invite not found' });
+      }
+
+      const status = getInviteStatus(invite);
+      if (status !== 'valid') {
+        return res.status(410).json({ message: INVITE_STATUS_MESSAGES[status] });
+      }
+
+      if (!inviteMatchesEmail(invite, authUser(req).email)) {
+        return res.status(403).json({ message: 'This invite was sent to a different email address' });
+      }
       
       // Check if already member
-      const existing = await storage.getUserCircleMembership(req.user.userId, circleId);
+      const existing = await storage.getUserCircleMembership(authUser(req).userId, circleId);
       if (existing) {
         return res.status(400).json({ message: 'Already a member' });
       }
 
+      // Claiming can still fail if the last use was taken concurrently
+      const claimed = await storage.claimCircleInvite(invite.id);
+      if (!claimed) {
+        return res.status(410).json({ message: INVITE_STATUS_MESSAGES.exhausted });
+      }
+
       await storage.addCircleMember({
         circle_id: circleId,
-        user_id: req.user.userId,
+        user_id: authUser(req).userId,
         role: 'member'
       });
 
+      wsManager.broadcastToCircle(circleId, {
+        type: 'member_joined',
+        circleId,
+        userId: authUser(req).userId
+      });
+
       res.json({ message: 'Joined circle successfully' });
     } catch (error) {
       res.status(500).json({ message: 'Failed to join circle' });
     }
   });
 
+  // Member management routes
+
+  app.patch('/api/circles/:id/members/:userId', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const targetId = req.params.userId;
+      const role = req.body.role as MemberRole;
+
+      const circle = await storage.getCircle(circleId);
+      if (!circle) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+
+      const members = await storage.getCircleMembers(circleId);
+      assertMemberChangeAllowed(circle, members, authUser(req).userId, targetId, { type: 'set_role', role });
+
+      const member = await storage.updateCircleMemberRole(targetId, circleId, role);
+
+      wsManager.broadcastToCircle(circleId, {
+        type: 'member_role_changed',
+        circleId,
+        userId: targetId,
+        role,
+        changedBy: authUser(req).userId
+      });
+
+      res.json(member);
+    } catch (error) {
+      sendError(res, error, 'Failed to change member role');
+    }
+  });
+
+  app.delete('/api/circles/:id/members/:userId', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const targetId = req.params.userId;
+
+      const circle = await storage.getCircle(circleId);
+      if (!circle) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+
+      const members = await storage.getCircleMembers(circleId);
+      assertMemberChangeAllowed(circle, members, authUser(req).userId, targetId, { type: 'remove' });
+
+      await storage.removeCircleMember(targetId, circleId);
+      wsManager.removeUserFromCircle(targetId, circleId);
+
+      wsManager.broadcastToCircle(circleId, {
+        type: 'member_removed',
+        circleId,
+        userId: targetId,
+        removedBy: authUser(req).userId
+      });
+
+      res.json({ message: 'Member removed' });
+    } catch (error) {
+      sendError(res, error, 'Failed to remove member');
+    }
+  });
+
+  app.post('/api/circles/:id/leave', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+
+      const circle = await storage.getCircle(circleId);
+      if (!circle) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+
+      const members = await storage.getCircleMembers(circleId);
+      assertMemberChangeAllowed(circle, members, authUser(req).userId, authUser(req).userId, { type: 'leave' });
+
+      await storage.removeCircleMember(authUser(req).userId, circleId);
+      wsManager.removeUserFromCircle(authUser(req).userId, circleId);
+
+      wsManager.broadcastToCircle(circleId, {
+        type: 'member_left',
+        circleId,
+        userId: authUser(req).userId
+      });
+
+      res.json({ message: 'Left circle' });
+    } catch (error) {
+      sendError(res, error, 'Failed to leave circle');
+    }
+  });
+
+  app.post('/api/circles/:id/transfer-ownership', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const { userId: newOwnerId } = req.body;
+
+      const circle = await storage.getCircle(circleId);
+      if (!circle) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+
+      const members = await storage.getCircleMembers(circleId);
+      assertMemberChangeAllowed(circle, members, authUser(req).userId, newOwnerId, { type: 'transfer_ownership' });
+
+      // The new owner must be an admin; the previous owner stays an admin
+      await storage.updateCircleMemberRole(newOwnerId, circleId, 'admin');
+      const updated = await storage.updateCircle(circleId, { created_by: newOwnerId });
+
+      wsManager.broadcastToCircle(circleId, {
+        type: 'ownership_transferred',
+        circleId,
+        previousOwnerId: authUser(req).userId,
+        newOwnerId
+      });
+
+      res.json(updated);
+    } catch (error) {
+      sendError(res, error, 'Failed to transfer ownership');
+    }
+  });
+
+  // Invite routes
+  app.get('/api/circles/:id/invites', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+
+      await authorize(authUser(req).userId, circleId, 'member.invite');
+
+      const invites = await storage.getCircleInvites(circleId);
+      res.json(invites.map(invite => ({ ...invite, status: getInviteStatus(invite) })));
+    } catch (error) {
+      sendError(res, error, 'Failed to get invites');
+    }
+  });
+
+  app.post('/api/circles/:id/invites', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const { email, maxUses, expiresInHours } = req.body;
+
+      await authorize(authUser(req).userId, circleId, 'member.invite');
+
+      if (maxUses != null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+        return res.status(400).json({ message: 'maxUses must be a positive whole number' });
+      }
+      if (expiresInHours != null && (typeof expiresInHours !== 'number' || expiresInHours <= 0)) {
+        return res.status(400).json({ message: 'expiresInHours must be a positive number' });
+      }
+
+      const invite = await storage.createCircleInvite({
+        circle_id: circleId,
+        token: generateInviteToken(),
+        created_by: authUser(req).userId,
+        email: email ? String(email).trim() : undefined,
+        max_uses: maxUses ?? undefined,
+        expires_at: expiresInHours
+          ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString()
+          : undefined
+      });
+
+      // Email-style invites also show up in the invitee's notifications if
+      // they already have an account
+      if (invite.email) {
+        const invitee = await storage.getUserByEmail(invite.email);
+        const circle = await storage.getCircle(circleId);
+        if (invitee && !(await storage.getUserCircleMembership(invitee.id, circleId))) {
+          await storage.createNotification({
+            user_id: invitee.id,
+            circle_id: circleId,
+            type: 'circle_invite',
+            title: 'Circle invitation',
+            message: `You have been invited to join ${circle?.name}. Invite code: ${invite.token}`,
+            read: false
+          });
+        }
+      }
+
+      res.json({ ...invite, status: getInviteStatus(invite) });
+    } catch (error) {
+      sendError(res, error, 'Invalid invite data', 400);
+    }
+  });
+
+  app.delete('/api/circles/:id/invites/:inviteId', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const inviteId = parseInt(req.params.inviteId);
+
+      await authorize(authUser(req).userId, circleId, 'member.invite');
+
+      const invites = await storage.getCircleInvites(circleId);
+      if (!invites.some(invite => invite.id === inviteId)) {
+        return res.status(404).json({ message: 'Invite not found' });
+      }
+
+      await storage.revokeCircleInvite(inviteId);
+      res.json({ message: 'Invite revoked' });
+    } catch (error) {
+      sendError(res, error, 'Failed to revoke invite');
+    }
+  });
+
+  // Lets someone holding an invite link see where it leads before joining
+  app.get('/api/invites/:token', requireAuth, async (req, res) => {
+    try {
+      const invite = await storage.getCircleInviteByToken(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ message: 'Invite not found' });
+      }
+
+      const circle = await storage.getCircle(invite.circle_id);
+      if (!circle) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+
+      const members = await storage.getCircleMembers(circle.id);
+      const membership = await storage.getUserCircleMembership(authUser(req).userId, circle.id);
+      res.json({
+        circleId: circle.id,
+        circleName: circle.name,
+        description: circle.description,
+        memberCount: members.length,
+        status: getInviteStatus(invite),
+        emailMatches: inviteMatchesEmail(invite, authUser(req).email),
+        alreadyMember: !!membership
+      });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get invite' });
+    }
+  });
+
   // Message routes
   app.get('/api/circles/:id/messages', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      
-      // Check if user is member
-      const membership = await storage.getUserCircleMembership(req.user.userId, circleId);
-      if (!membership) {
-        return res.status(403).json({ message: 'Not a member of this circle' });
+      await authorize(authUser(req).userId, circleId, 'circle.view');
+
+      const { items, nextCursor } = await fetchMessagePage(
+        parseMessagePageQuery(req.query),
+        options => storage.getMessages(circleId, options)
+      );
+      res.json({ messages: items, nextCursor });
+    } catch (error) {
+      sendError(res, error, 'Failed to get messages');
+    }
+  });
+
+  app.post('/api/circles/:id/messages', requireAuth, limitMessages, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const { content, replyTo, attachmentIds } = req.body;
+      await authorize(authUser(req).userId, circleId, 'message.send');
+
+      const { message, mentions } = await postMessage(authUser(req).userId, circleId, { content, replyTo, attachmentIds });
+
+      const user = await storage.getUser(authUser(req).userId);
+      wsManager.broadcastToCircle(circleId, await buildNewMessageEvent(message, user));
+      wsManager.sendNotifications(await createMentionNotifications(message, user, mentions));
+      if (!message.reply_to) {
+        await wsManager.sendUnreadChanged(circleId, authUser(req).userId);
       }
 
-      const messages = await storage.getMessages(circleId);
-      res.json(messages);
+      res.json(message);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get messages' });
+      sendError(res, error, 'Invalid message data', 400);
     }
   });
 
-  app.post('/api/circles/:id/messages', requireAuth, async (req, res) => {
+  // Where each member has read up to, for "seen by" indicators
+  app.get('/api/circles/:id/reads', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      const { content, replyTo } = req.body;
+      await authorize(authUser(req).userId, circleId, 'circle.view');
 
-      const message = await storage.createMessage({
-        circle_id: circleId,
-        user_id: req.user.userId,
-        content,
-        reply_to: replyTo || null
+      res.json(await getReadReceipts(circleId));
+    } catch (error) {
+      sendError(res, error, 'Failed to get read receipts');
+    }
+  });
+
+  app.put('/api/circles/:id/read', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'circle.view');
+
+      const member = await markCircleRead(authUser(req).userId, circleId, req.body.messageId);
+      if (member) {
+        wsManager.broadcastToCircle(circleId, buildReadEvent(member), authUser(req).userId);
+        wsManager.broadcastToUser(authUser(req).userId, { type: 'unread_changed', circleId });
+      }
+
+      const membership = member ?? await storage.getUserCircleMembership(authUser(req).userId, circleId);
+      res.json({ lastReadMessageId: membership?.last_read_message_id ?? null });
+    } catch (error) {
+      sendError(res, error, 'Failed to mark messages as read');
+    }
+  });
+
+  // Attachments are uploaded one file at a time before the message is sent,
+  // then claimed through the message's attachmentIds
+  app.post('/api/circles/:id/attachments', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'message.send');
+
+      const file = await parseAttachmentUpload(req, res);
+      res.json(await storeAttachment(circleId, authUser(req).userId, file));
+    } catch (error) {
+      sendError(res, error, 'Failed to upload attachment');
+    }
+  });
+
+  const sendAttachment = async (req: any, res: any, variant: 'original' | 'thumbnail') => {
+    try {
+      const attachment = await authorizeAttachmentDownload(authUser(req).userId, parseInt(req.params.id));
+      const { stream, contentType } = await openAttachment(attachment, variant);
+      const disposition = contentType.startsWith('image/') ? 'inline' : 'attachment';
+
+      res.set({
+        'Content-Type': contentType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+        'Cache-Control': 'private, max-age=86400',
+        'X-Content-Type-Options': 'nosniff'
       });
+      stream.on('error', () => res.destroy());
+      stream.pipe(res);
+    } catch (error) {
+      sendError(res, error, 'Failed to download attachment');
+    }
+  };
+
+  app.get('/api/attachments/:id', requireAuth, (req, res) => sendAttachment(req, res, 'original'));
+  app.get('/api/attachments/:id/thumbnail', requireAuth, (req, res) => sendAttachment(req, res, 'thumbnail'));
+
+  app.get('/api/messages/:id/replies', requireAuth, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      const parent = await storage.getMessage(messageId);
+      if (!parent) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      await authorize(authUser(req).userId, parent.circle_id, 'circle.view');
+
+      const { items, nextCursor } = await fetchMessagePage(
+        parseMessagePageQuery(req.query),
+        options => storage.getMessageReplies(messageId, options)
+      );
+      res.json({ replies: items, nextCursor });
+    } catch (error) {
+      sendError(res, error, 'Failed to get replies');
+    }
+  });
+
+  app.patch('/api/messages/:id', requireAuth, async (req, res) => {
+    try {
+      const { message, mentions } = await editMessage(authUser(req).userId, parseInt(req.params.id), req.body.content);
+      wsManager.broadcastToCircle(message.circle_id, await buildMessageChangeEvent('message_updated', message));
+      wsManager.sendNotifications(
+        await createMentionNotifications(message, await storage.getUser(authUser(req).userId), mentions)
+      );
+      res.json(message);
+    } catch (error) {
+      sendError(res, error, 'Failed to edit message');
+    }
+  });
 
+  app.delete('/api/messages/:id', requireAuth, async (req, res) => {
+    try {
+      const message = await deleteMessage(authUser(req).userId, parseInt(req.params.id));
+      wsManager.broadcastToCircle(message.circle_id, await buildMessageChangeEvent('message_deleted', message));
+      if (!message.reply_to) {
+        await wsManager.sendUnreadChanged(message.circle_id);
+      }
       res.json(message);
     } catch (error) {
-      res.status(400).json({ message: 'Invalid message data' });
+      sendError(res, error, 'Failed to delete message');
+    }
+  });
+
+  app.post('/api/messages/:id/reactions', requireAuth, async (req, res) => {
+    try {
+      const { message, reactions } = await setMessageReaction(authUser(req).userId, parseInt(req.params.id), req.body.emoji, true);
+      wsManager.broadcastToCircle(message.circle_id, buildReactionEvent(message, reactions));
+      res.json(reactions);
+    } catch (error) {
+      sendError(res, error, 'Failed to add reaction');
+    }
+  });
+
+  app.delete('/api/messages/:id/reactions/:emoji', requireAuth, async (req, res) => {
+    try {
+      const { message, reactions } = await setMessageReaction(authUser(req).userId, parseInt(req.params.id), req.params.emoji, false);
+      wsManager.broadcastToCircle(message.circle_id, buildReactionEvent(message, reactions));
+      res.json(reactions);
+    } catch (error) {
+      sendError(res, error, 'Failed to remove reaction');
+    }
+  });
+
+  app.get('/api/messages/:id/revisions', requireAuth, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      const message = await storage.getMessage(messageId);
+      if (!message) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      await authorize(authUser(req).userId, message.circle_id, 'circle.view');
+
+      const revisions = await storage.getMessageRevisions(messageId);
+      res.json(revisions);
+    } catch (error) {
+      sendError(res, error, 'Failed to get message revisions');
+    }
+  });
+
+  // Search routes
+  app.get('/api/circles/:id/search', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'circle.view');
+
+      // One extra row tells whether another page follows
+      const options = parseSearchQuery(req.query);
+      const rows = await storage.searchCircle(circleId, { ...options, limit: options.limit + 1 });
+      const hasMore = rows.length > options.limit;
+      res.json({
+        results: hasMore ? rows.slice(0, options.limit) : rows,
+        nextOffset: hasMore ? options.offset + options.limit : null
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to search circle');
     }
   });
 
@@ -263,64 +783,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/circles/:id/cart', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      
-      // Check if user is member
-      const membership = await storage.getUserCircleMembership(req.user.userId, circleId);
-      if (!membership) {
-        return res.status(403).json({ message: 'Not a member of this circle' });
-      }
+      await authorize(authUser(req).userId, circleId, 'circle.view');
 
       const cartItems = await storage.getCartItems(circleId);
       res.json(cartItems);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get cart items' });
+      sendError(res, error, 'Failed to get cart items');
     }
   });
 
-  app.post('/api/circles/:id/cart', requireAuth, async (req, res) => {
+  app.post('/api/circles/:id/cart', requireAuth, limitCart, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      const { name, price, quantity } = req.body;
-
-      const item = await storage.createCartItem({
-        circle_id: circleId,
-        name,
-        price: Math.round(price * 100), // Convert to cents
-        quantity: quantity || 1,
-        added_by: req.user.userId,
-        assigned_to: null
-      });
-      
-      // Add to cart history
-      await storage.createCartHistory({
-        circle_id: circleId,
-        user_id: req.user.userId,
-        action: 'added',
-        item_name: name,
-        details: { price: Math.round(price * 100), quantity: quantity || 1 }
-      });
+      const { name, price, quantity, overrideBudgetLock } = req.body;
+      const { circle } = await authorize(authUser(req).userId, circleId, 'cart.add');
+      const { item, settlement } = await addCartItem(
+        authUser(req).userId,
+        circle,
+        { name, price: Math.round(price * 100), quantity }, // Convert to cents
+        !!overrideBudgetLock
+      );
+      await wsManager.sendBudgetUpdate(circleId, settlement);
 
       res.json(item);
     } catch (error) {
-      res.status(400).json({ message: 'Invalid cart item data' });
+      sendError(res, error, 'Invalid cart item data', 400);
     }
   });
 
-  app.delete('/api/circles/:id/cart/:itemId', requireAuth, async (req, res) => {
+  // Edits name, price (in dollars), quantity, notes and the assignee.
+  // overrideBudgetLock lets admins raise the cost past a locked budget.
+  app.patch('/api/circles/:id/cart/:itemId', requireAuth, limitCart, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      const itemId = parseInt(req.params.itemId);
-      
-      // Check if user is member
-      const membership = await storage.getUserCircleMembership(req.user.userId, circleId);
-      if (!membership) {
-        return res.status(403).json({ message: 'Not a member of this circle' });
+      const updates = parseCartItemUpdates(req.body);
+      const { item, settlement } = await editCartItem(
+        authUser(req).userId, circleId, parseInt(req.params.itemId), updates, !!req.body.overrideBudgetLock
+      );
+
+      const cartItems = await storage.getCartItems(circleId);
+      wsManager.broadcastToCircle(circleId, { type: 'cart_updated', cartItems });
+      if (settlement) {
+        await wsManager.sendBudgetUpdate(circleId, settlement);
       }
+      res.json(cartItems.find(cartItem => cartItem.id === item.id) ?? item);
+    } catch (error) {
+      sendError(res, error, 'Failed to update item');
+    }
+  });
+
+  // { purchased: true } for approved items, false to take it back
+  app.post('/api/circles/:id/cart/:itemId/purchase', requireAuth, limitCart, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const item = await markItemPurchased(authUser(req).userId, circleId, parseInt(req.params.itemId), req.body.purchased !== false);
+
+      const cartItems = await storage.getCartItems(circleId);
+      wsManager.broadcastToCircle(circleId, { type: 'cart_updated', cartItems });
+      res.json(cartItems.find(cartItem => cartItem.id === item.id) ?? item);
+    } catch (error) {
+      sendError(res, error, 'Failed to update item');
+    }
+  });
 
-      await storage.deleteCartItem(itemId);
+  app.delete('/api/circles/:id/cart/:itemId', requireAuth, limitCart, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      const settlement = await removeCartItem(authUser(req).userId, circleId, parseInt(req.params.itemId));
+      await wsManager.sendBudgetUpdate(circleId, settlement);
       res.json({ message: 'Item removed from cart' });
     } catch (error) {
-      res.status(500).json({ message: 'Failed to remove item' });
+      sendError(res, error, 'Failed to remove item');
+    }
+  });
+
+  // Recalculates spent from the cart, correcting the ledger wherever it
+  // disagrees with what the items now cost
+  app.post('/api/circles/:id/budget/reconcile', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'budget.edit');
+
+      const settlement = await reconcileBudget(circleId, authUser(req).userId);
+      if (!settlement) {
+        return res.status(404).json({ message: 'Circle not found' });
+      }
+      if (settlement.spent !== settlement.previous_spent) {
+        await wsManager.sendBudgetUpdate(circleId, settlement);
+      }
+      res.json(settlement);
+    } catch (error) {
+      sendError(res, error, 'Failed to reconcile budget');
+    }
+  });
+
+  // What checking out now would order, for review before placing it
+  app.get('/api/circles/:id/checkout', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'cart.checkout');
+      res.json(await previewCheckout(circleId));
+    } catch (error) {
+      sendError(res, error, 'Failed to prepare checkout');
+    }
+  });
+
+  // Places the reviewed order: { expectedTotal } is the preview's total
+  app.post('/api/circles/:id/checkout', requireAuth, limitCart, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'cart.checkout');
+
+      const { order, settlement } = await checkout(authUser(req).userId, circleId, req.body.expectedTotal);
+      wsManager.broadcastToCircle(circleId, buildOrderEvent(order));
+      wsManager.broadcastToCircle(circleId, { type: 'cart_updated', cartItems: await storage.getCartItems(circleId) });
+      await wsManager.sendBudgetUpdate(circleId, settlement);
+      res.json(order);
+    } catch (error) {
+      sendError(res, error, 'Failed to check out');
+    }
+  });
+
+  app.get('/api/circles/:id/orders', requireAuth, async (req, res) => {
+    try {
+      const circleId = parseInt(req.params.id);
+      await authorize(authUser(req).userId, circleId, 'circle.view');
+      res.json(await storage.getOrders(circleId));
+    } catch (error) {
+      sendError(res, error, 'Failed to get orders');
     }
   });
 
@@ -328,17 +918,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/circles/:id/tasks', requireAuth, async (req, res) => {
     try {
       const circleId = parseInt(req.params.id);
-      
-      // Check if user is member
-      const membership = await storage.getUserCircleMembership(req.user.userId, circleId);
-      if (!membership) {
-        return res.status(403).json({ message: 'Not a member of this circle' });
-      }
+      await authorize(authUser(req).userId, circleId, 'circle.view');
 
       const tasks = await storage.getTasks(circleId);
       res.json(tasks);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to get tasks' });
+      sendError(res, error, 'Failed to get tasks');
     }
   });
 
@@ -346,27 +931,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const circleId = parseInt(req.params.id);
       const { title, description, assignedTo, dueDate } = req.body;
+      await authorize(authUser(req).userId, circleId, 'task.create');
+      await authorizeTaskAssignment(authUser(req).userId, circleId, assignedTo);
 
       const task = await storage.createTask({
         circle_id: circleId,
         title,
         description: description || null,
         assigned_to: assignedTo || null,
-        created_by: req.user.userId,
+        created_by: authUser(req).userId,
         completed: false,
         due_date: dueDate || null
       });
 
       res.json(task);
     } catch (error) {
-      res.status(400).json({ message: 'Invalid task data' });
+      sendError(res, error, 'Invalid task data', 400);
     }
   });
 
   app.patch('/api/tasks/:id', requireAuth, async (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
-      const updates = req.body;
+
+      const existing = await storage.getTask(taskId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      await authorize(authUser(req).userId, existing.circle_id, 'task.update');
+
+      const updates = pickTaskUpdates(req.body);
+      if ('assigned_to' in updates) {
+        await authorizeTaskAssignment(authUser(req).userId, existing.circle_id, updates.assigned_to, existing.assigned_to);
+      }
 
       const task = await storage.updateTask(taskId, updates);
       if (!task) {
@@ -375,14 +972,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(task);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to update task' });
+      sendError(res, error, 'Failed to update task');
     }
   });
 
   // Notification routes
   app.get('/api/notifications', requireAuth, async (req, res) => {
     try {
-      const notifications = await storage.getNotifications(req.user.userId);
+      const notifications = await storage.getNotifications(authUser(req).userId);
       res.json(notifications);
     } catch (error) {
       res.status(500).json({ message: 'Failed to get notifications' });
@@ -402,8 +999,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
-  // Initialize WebSocket manager
-  new WebSocketManager(httpServer);
+  // Initialize WebSocket manager (route handlers above broadcast through it)
+  const wsManager = new WebSocketManager(httpServer);
 
   return httpServer;
 }
\ No newline at end of file
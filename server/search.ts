@@ -0,0 +1,118 @@
+import type { CircleSearchOptions } from "./storage";
+import type { SearchResultType } from "./supabase";
+import { HttpError } from "./errors";
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['message', 'cart_item', 'task'];
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+
+// Snippets wrap matched words in these control characters (see the
+// search_circle migration). Any already in the text are dropped first, so
+// clients can split on them instead of rendering HTML.
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+const SNIPPET_MARKERS = /[\u0002\u0003]/g;
+const SNIPPET_CONTEXT = 60;
+
+// search_circle takes the author as a UUID
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class SearchError extends HttpError {}
+
+export type SearchQuery = CircleSearchOptions & { limit: number; offset: number };
+
+const parseDate = (value: unknown, name: string): string | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    throw new SearchError(`${name} must be a date`);
+  }
+  return date.toISOString();
+};
+
+// Reads q, type (comma separated), author, from, to, limit and offset from
+// a request query
+export const parseSearchQuery = (params: Record<string, unknown>): SearchQuery => {
+  const query = typeof params.q === 'string' ? params.q.trim() : '';
+  if (!query) {
+    throw new SearchError('Enter something to search for');
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new SearchError(`Searches can be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  let types: SearchResultType[] | undefined;
+  if (typeof params.type === 'string' && params.type) {
+    types = params.type.split(',') as SearchResultType[];
+    if (!types.every(type => SEARCH_RESULT_TYPES.includes(type))) {
+      throw new SearchError(`type must be one of ${SEARCH_RESULT_TYPES.join(', ')}`);
+    }
+  }
+
+  let authorId: string | undefined;
+  if (typeof params.author === 'string' && params.author) {
+    if (!UUID_PATTERN.test(params.author)) {
+      throw new SearchError('author must be a user id');
+    }
+    authorId = params.author;
+  }
+
+  const from = parseDate(params.from, 'from');
+  const to = parseDate(params.to, 'to');
+  if (from && to && from >= to) {
+    throw new SearchError('from must be before to');
+  }
+
+  const limit = parseInt(params.limit as string);
+  const offset = parseInt(params.offset as string);
+  return {
+    query,
+    types,
+    authorId,
+    from,
+    to,
+    limit: Math.min(limit > 0 ? limit : DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT),
+    offset: offset > 0 ? offset : 0
+  };
+};
+
+// Letters and digits in any script; everything else separates words
+const WORD_SEPARATOR = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches words starting with any of the terms
+const termPattern = (terms: string[]) => new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`,
+  'giu'
+);
+
+// The in-memory backend's stand-in for Postgres full-text search: a query
+// is split into lowercased words (dropping websearch quotes and operators),
+// a text matches when each of them begins one of its words, and it ranks by
+// how many of its words match.
+export const tokenizeSearchQuery = (query: string): string[] => {
+  return Array.from(new Set(
+    query.toLowerCase().split(WORD_SEPARATOR).filter(term => term && term !== 'or')
+  ));
+};
+
+export const scoreSearchText = (text: string, terms: string[]): number => {
+  const words = text.toLowerCase().split(WORD_SEPARATOR);
+  if (!terms.every(term => words.some(word => word.startsWith(term)))) return 0;
+  return words.filter(word => terms.some(term => word.startsWith(term))).length;
+};
+
+// Cuts a window of text around the first match and marks the matching
+// words, like ts_headline does for Postgres
+export const buildSnippet = (source: string, terms: string[]): string => {
+  const text = source.replace(SNIPPET_MARKERS, '');
+  const first = Math.max(text.search(termPattern(terms)), 0);
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+
+  const window = text.slice(start, end)
+    .replace(termPattern(terms), word => `${SNIPPET_MATCH_START}${word}${SNIPPET_MATCH_END}`);
+  return `${start > 0 ? '…' : ''}${window}${end < text.length ? '…' : ''}`;
+};
@@ -1,15 +1,40 @@
-import { supabase } from "./supabase";
+import { getSupabase } from "./supabase";
+import { MemStorage } from "./memStorage";
+import { PgStorage } from "./pgStorage";
 import type { 
-  User, Circle, CircleMember, Message, CartItem, ItemVote, 
-  Task, Notification, CartHistory 
+  User, NewUser, Circle, CircleMember, Message, CartItem, CartItemStatus, ItemVote, 
+  Task, Notification, CartHistory, BudgetEntry, BudgetSettlement, OrderItem, OrderSummary, Checkout, CartItemWrite, BudgetLocked, VotingPolicyChange, CircleInvite, MessageThreadSummary, MessageRevision,
+  MessageReaction, MessageReactionSummary, MessageAttachment, MessageDetails, MentionedUser,
+  SearchResult, SearchResultType
 } from "./supabase";
 
+// Cursors are message ids. Without a cursor the newest messages are
+// returned; `after` walks forward from a message instead.
+export interface MessagePageOptions {
+  limit?: number;
+  before?: number;
+  after?: number;
+}
+
+// Full-text search within one circle. `from` is inclusive and `to`
+// exclusive; results come best match first.
+export interface CircleSearchOptions {
+  query: string;
+  types?: SearchResultType[];
+  authorId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | null>;
   getUserByUsername(username: string): Promise<User | null>;
   getUserByEmail(email: string): Promise<User | null>;
-  createUser(user: Omit<User, 'id' | 'created_at'>): Promise<User>;
+  // Callers that provision auth accounts elsewhere pass the auth id through
+  createUser(user: NewUser): Promise<User>;
   
   // Circles
   getCircle(id: number): Promise<Circle | null>;
@@ -22,18 +47,79 @@ export interface IStorage {
   getUserCircleMembership(userId: string, circleId: number): Promise<CircleMember | null>;
   addCircleMember(member: Omit<CircleMember, 'id' | 'joined_at'>): Promise<CircleMember>;
   removeCircleMember(userId: string, circleId: number): Promise<void>;
+  updateCircleMemberRole(userId: string, circleId: number, role: string): Promise<CircleMember | null>;
+  // Moves the member's read marker forward to the message. Resolves to null
+  // when the marker is already there or further along.
+  markCircleRead(userId: string, circleId: number, messageId: number): Promise<CircleMember | null>;
+  // Top-level messages from other members after the user's read marker in
+  // each of their circles, keyed by circle id
+  getUnreadCounts(userId: string): Promise<Record<number, number>>;
+  
+  // Circle Invites
+  getCircleInvites(circleId: number): Promise<CircleInvite[]>;
+  getCircleInviteByToken(token: string): Promise<CircleInvite | null>;
+  createCircleInvite(invite: Omit<CircleInvite, 'id' | 'created_at' | 'uses' | 'revoked_at'>): Promise<CircleInvite>;
+  revokeCircleInvite(id: number): Promise<CircleInvite | null>;
+  // Claims one use of the invite; resolves to null when it has no uses left
+  claimCircleInvite(id: number): Promise<CircleInvite | null>;
   
   // Messages
-  getMessages(circleId: number, limit?: number): Promise<(Message & { user: User, replies?: (Message & { user: User })[] })[]>;
+  // Top-level messages only, each with a summary of its thread. Pages are
+  // returned oldest first.
+  getMessages(circleId: number, options?: MessagePageOptions): Promise<(Message & MessageThreadSummary & MessageDetails)[]>;
+  getMessage(id: number): Promise<Message | null>;
+  getMessageReplies(messageId: number, options?: MessagePageOptions): Promise<(Message & MessageDetails)[]>;
+  getThreadSummaries(messageIds: number[]): Promise<Record<number, MessageThreadSummary>>;
   createMessage(message: Omit<Message, 'id' | 'created_at'>): Promise<Message>;
+  // Stores the current content as a revision before replacing it. Resolves
+  // to null for missing or deleted messages.
+  editMessage(id: number, content: string, editedBy: string): Promise<Message | null>;
+  // Clears the content and drops the revisions, reactions, attachment and
+  // mention rows but keeps the message row so replies still have a parent. Resolves
+  // to null when already deleted.
+  deleteMessage(id: number, deletedBy: string): Promise<Message | null>;
+  getMessageRevisions(messageId: number): Promise<MessageRevision[]>;
+
+  // Message Reactions
+  getMessageReactions(messageIds: number[]): Promise<Record<number, MessageReactionSummary[]>>;
+  // Adding a reaction the user already has is a no-op
+  addMessageReaction(reaction: Omit<MessageReaction, 'id' | 'created_at'>): Promise<void>;
+  removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void>;
+
+  // Message Attachments
+  getMessageAttachments(messageIds: number[]): Promise<Record<number, MessageAttachment[]>>;
+  getMessageAttachment(id: number): Promise<MessageAttachment | null>;
+  createMessageAttachment(attachment: Omit<MessageAttachment, 'id' | 'created_at' | 'message_id'>): Promise<MessageAttachment>;
+  linkMessageAttachments(attachmentIds: number[], messageId: number): Promise<void>;
+
+  // Message Mentions
+  getMessageMentions(messageIds: number[]): Promise<Record<number, MentionedUser[]>>;
+  // Replaces the message's mentions and resolves to the ids of the users
+  // who weren't mentioned before
+  setMessageMentions(messageId: number, userIds: string[]): Promise<string[]>;
   
   // Cart Items
   getCartItems(circleId: number): Promise<(CartItem & { user: User, votes: ItemVote[], assignedUser?: User })[]>;
+  getCartItem(id: number): Promise<CartItem | null>;
   createCartItem(item: Omit<CartItem, 'id' | 'created_at'>): Promise<CartItem>;
   updateCartItem(id: number, updates: Partial<CartItem>): Promise<CartItem | null>;
   deleteCartItem(id: number): Promise<void>;
+  // Rejects proposed items whose voting closed at or before the given time
+  // and resolves to them. Each item is only ever returned once, whichever
+  // server asks.
+  closeExpiredVoting(now: string): Promise<CartItem[]>;
+  // Sets the circle's voting policy columns and moves each item in
+  // decisions that is still proposed to its status, settling them in the
+  // budget, all in one step. Null if the circle is gone.
+  setVotingPolicy(
+    circleId: number,
+    policy: Pick<Circle, 'vote_quorum' | 'vote_approval_percent' | 'vote_deadline_hours'>,
+    decisions: Record<number, CartItemStatus>,
+    userId: string
+  ): Promise<VotingPolicyChange | null>;
   
   // Item Votes
+  getItemVotes(itemId: number): Promise<ItemVote[]>;
   getItemVote(itemId: number, userId: string): Promise<ItemVote | null>;
   createItemVote(vote: Omit<ItemVote, 'id' | 'created_at'>): Promise<ItemVote>;
   updateItemVote(itemId: number, userId: string, vote: number): Promise<ItemVote | null>;
@@ -41,6 +127,7 @@ export interface IStorage {
   
   // Tasks
   getTasks(circleId: number): Promise<(Task & { assignedUser?: User, createdByUser: User })[]>;
+  getTask(id: number): Promise<Task | null>;
   createTask(task: Omit<Task, 'id' | 'created_at'>): Promise<Task>;
   updateTask(id: number, updates: Partial<Task>): Promise<Task | null>;
   deleteTask(id: number): Promise<void>;
@@ -53,11 +140,50 @@ export interface IStorage {
   // Cart History
   getCartHistory(circleId: number): Promise<(CartHistory & { user: User })[]>;
   createCartHistory(history: Omit<CartHistory, 'id' | 'created_at'>): Promise<CartHistory>;
+
+  // Budget
+  // Appends the entries that bring each item's ledger total to its target
+  // (item id -> cents) and recalculates circles.spent from the ledger, in
+  // one step so concurrent changes can't race. With reconcile, items
+  // missing from targets are settled to zero. userId is null for changes
+  // the server makes on its own. Null if the circle is gone.
+  settleBudget(
+    circleId: number,
+    targets: Record<number, number>,
+    userId: string | null,
+    reason: string,
+    reconcile?: boolean
+  ): Promise<BudgetSettlement | null>;
+  // Adds (itemId null), updates or deletes (values null) a cart item and
+  // settles what it then charges, in the same step so a failure between
+  // the two can't leave spent out of step with the cart. With enforceLock a
+  // write that would take a locked budget over is refused instead, checked
+  // within that step. Null if the circle is gone or the item isn't in it.
+  writeCartItem(
+    circleId: number,
+    itemId: number | null,
+    values: Partial<CartItem> | null,
+    userId: string,
+    reason: string,
+    enforceLock?: boolean
+  ): Promise<CartItemWrite | BudgetLocked | null>;
+
+  // Orders
+  // Places an order for the circle's approved and purchased items if they
+  // are still exactly `items`, taking them out of the cart and moving their
+  // budget charges onto the order, all in one step. Null if the cart has
+  // changed since.
+  checkoutCart(circleId: number, userId: string, items: OrderItem[], total: number): Promise<Checkout | null>;
+  // Newest first
+  getOrders(circleId: number): Promise<OrderSummary[]>;
+
+  // Search
+  searchCircle(circleId: number, options: CircleSearchOptions): Promise<SearchResult[]>;
 }
 
 export class SupabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('users')
       .select('*')
       .eq('id', id)
@@ -68,7 +194,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getUserByUsername(username: string): Promise<User | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('users')
       .select('*')
       .eq('username', username)
@@ -79,7 +205,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('users')
       .select('*')
       .eq('email', email)
@@ -89,8 +215,8 @@ export class SupabaseStorage implements IStorage {
     return data;
   }
 
-  async createUser(userData: Omit<User, 'id' | 'created_at'>): Promise<User> {
-    const { data, error } = await supabase
+  async createUser(userData: NewUser): Promise<User> {
+    const { data, error } = await getSupabase()
       .from('users')
       .insert([userData])
       .select()
@@ -101,7 +227,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getCircle(id: number): Promise<Circle | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circles')
       .select('*')
       .eq('id', id)
@@ -112,7 +238,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getCirclesByUserId(userId: string): Promise<Circle[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circles')
       .select(`
         *,
@@ -125,7 +251,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createCircle(circleData: Omit<Circle, 'id' | 'created_at' | 'spent'>): Promise<Circle> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circles')
       .insert([{ ...circleData, spent: 0 }])
       .select()
@@ -144,7 +270,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateCircle(id: number, updates: Partial<Circle>): Promise<Circle | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circles')
       .update(updates)
       .eq('id', id)
@@ -156,7 +282,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getCircleMembers(circleId: number): Promise<(CircleMember & { user: User })[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circle_members')
       .select(`
         *,
@@ -172,7 +298,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getUserCircleMembership(userId: string, circleId: number): Promise<CircleMember | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circle_members')
       .select('*')
       .eq('user_id', userId)
@@ -184,7 +310,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async addCircleMember(member: Omit<CircleMember, 'id' | 'joined_at'>): Promise<CircleMember> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('circle_members')
       .insert([member])
       .select()
@@ -195,7 +321,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async removeCircleMember(userId: string, circleId: number): Promise<void> {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from('circle_members')
       .delete()
       .eq('user_id', userId)
@@ -204,27 +330,231 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
-  async getMessages(circleId: number, limit: number = 50): Promise<(Message & { user: User, replies?: (Message & { user: User })[] })[]> {
-    const { data, error } = await supabase
+  async updateCircleMemberRole(userId: string, circleId: number, role: string): Promise<CircleMember | null> {
+    const { data, error } = await getSupabase()
+      .from('circle_members')
+      .update({ role })
+      .eq('user_id', userId)
+      .eq('circle_id', circleId)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async markCircleRead(userId: string, circleId: number, messageId: number): Promise<CircleMember | null> {
+    const { data, error } = await getSupabase()
+      .from('circle_members')
+      .update({ last_read_message_id: messageId })
+      .eq('user_id', userId)
+      .eq('circle_id', circleId)
+      .or(`last_read_message_id.is.null,last_read_message_id.lt.${messageId}`)
+      .select()
+      .maybeSingle();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async getUnreadCounts(userId: string): Promise<Record<number, number>> {
+    const { data: memberships, error } = await getSupabase()
+      .from('circle_members')
+      .select('circle_id, joined_at, last_read_message_id')
+      .eq('user_id', userId);
+    
+    if (error || !memberships) return {};
+
+    const counts: Record<number, number> = {};
+    await Promise.all(memberships.map(async (membership) => {
+      let query = getSupabase()
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('circle_id', membership.circle_id)
+        .is('reply_to', null)
+        .is('deleted_at', null)
+        .neq('user_id', userId);
+      query = membership.last_read_message_id
+        ? query.gt('id', membership.last_read_message_id)
+        : query.gt('created_at', membership.joined_at);
+
+      const { count } = await query;
+      counts[membership.circle_id] = count ?? 0;
+    }));
+    return counts;
+  }
+
+  async getCircleInvites(circleId: number): Promise<CircleInvite[]> {
+    const { data, error } = await getSupabase()
+      .from('circle_invites')
+      .select('*')
+      .eq('circle_id', circleId)
+      .order('created_at', { ascending: false });
+    
+    if (error) return [];
+    return data || [];
+  }
+
+  async getCircleInviteByToken(token: string): Promise<CircleInvite | null> {
+    const { data, error } = await getSupabase()
+      .from('circle_invites')
+      .select('*')
+      .eq('token', token)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async createCircleInvite(inviteData: Omit<CircleInvite, 'id' | 'created_at' | 'uses' | 'revoked_at'>): Promise<CircleInvite> {
+    const { data, error } = await getSupabase()
+      .from('circle_invites')
+      .insert([{ ...inviteData, uses: 0 }])
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  }
+
+  async revokeCircleInvite(id: number): Promise<CircleInvite | null> {
+    const { data, error } = await getSupabase()
+      .from('circle_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async claimCircleInvite(id: number): Promise<CircleInvite | null> {
+    const { data: invite, error: readError } = await getSupabase()
+      .from('circle_invites')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (readError || !invite) return null;
+    if (invite.max_uses != null && invite.uses >= invite.max_uses) return null;
+
+    // Only succeeds if nobody else claimed a use since we read the row
+    const { data, error } = await getSupabase()
+      .from('circle_invites')
+      .update({ uses: invite.uses + 1 })
+      .eq('id', id)
+      .eq('uses', invite.uses)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async getMessages(circleId: number, options: MessagePageOptions = {}): Promise<(Message & MessageThreadSummary & MessageDetails)[]> {
+    const { limit = 50, before, after } = options;
+    let query = getSupabase()
       .from('messages')
       .select(`
         *,
         users(*)
       `)
       .eq('circle_id', circleId)
-      .order('created_at', { ascending: true })
+      .is('reply_to', null);
+    
+    if (before) query = query.lt('id', before);
+    if (after) query = query.gt('id', after);
+    
+    const { data, error } = await query
+      .order('id', { ascending: !!after })
       .limit(limit);
     
-    if (error) return [];
-    return data?.map(item => ({
+    if (error || !data) return [];
+    const rows = after ? data : data.reverse();
+    const ids = rows.map(item => item.id);
+    const threads = await this.getThreadSummaries(ids);
+    const reactions = await this.getMessageReactions(ids);
+    const attachments = await this.getMessageAttachments(ids);
+    const mentions = await this.getMessageMentions(ids);
+    return rows.map(item => ({
       ...item,
       user: item.users,
-      replies: []
-    })) || [];
+      ...threads[item.id],
+      reactions: reactions[item.id],
+      attachments: attachments[item.id],
+      mentions: mentions[item.id]
+    }));
+  }
+
+  async getMessage(id: number): Promise<Message | null> {
+    const { data, error } = await getSupabase()
+      .from('messages')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async getMessageReplies(messageId: number, options: MessagePageOptions = {}): Promise<(Message & MessageDetails)[]> {
+    const { limit = 50, before, after } = options;
+    let query = getSupabase()
+      .from('messages')
+      .select(`
+        *,
+        users(*)
+      `)
+      .eq('reply_to', messageId);
+    
+    if (before) query = query.lt('id', before);
+    if (after) query = query.gt('id', after);
+    
+    const { data, error } = await query
+      .order('id', { ascending: !!after })
+      .limit(limit);
+    
+    if (error || !data) return [];
+    const rows = after ? data : data.reverse();
+    const ids = rows.map(item => item.id);
+    const reactions = await this.getMessageReactions(ids);
+    const attachments = await this.getMessageAttachments(ids);
+    const mentions = await this.getMessageMentions(ids);
+    return rows.map(item => ({
+      ...item,
+      user: item.users,
+      reactions: reactions[item.id],
+      attachments: attachments[item.id],
+      mentions: mentions[item.id]
+    }));
+  }
+
+  async getThreadSummaries(messageIds: number[]): Promise<Record<number, MessageThreadSummary>> {
+    const summaries: Record<number, MessageThreadSummary> = {};
+    for (const id of messageIds) {
+      summaries[id] = { reply_count: 0, last_reply_at: null };
+    }
+    if (messageIds.length === 0) return summaries;
+
+    const { data, error } = await getSupabase()
+      .from('messages')
+      .select('reply_to, created_at')
+      .in('reply_to', messageIds);
+    
+    if (error) return summaries;
+    for (const reply of data || []) {
+      const summary = summaries[reply.reply_to];
+      summary.reply_count++;
+      if (!summary.last_reply_at || reply.created_at > summary.last_reply_at) {
+        summary.last_reply_at = reply.created_at;
+      }
+    }
+    return summaries;
   }
 
   async createMessage(messageData: Omit<Message, 'id' | 'created_at'>): Promise<Message> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('messages')
       .insert([messageData])
       .select()
@@ -233,9 +563,226 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
     return data;
   }
+  async editMessage(id: number, content: string, editedBy: string): Promise<Message | null> {
+    const message = await this.getMessage(id);
+    if (!message || message.deleted_at) return null;
+
+    const { error: revisionError } = await getSupabase()
+      .from('message_revisions')
+      .insert([{ message_id: id, content: message.content, edited_by: editedBy }]);
+    
+    if (revisionError) throw revisionError;
+
+    const { data, error } = await getSupabase()
+      .from('messages')
+      .update({ content, edited_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async deleteMessage(id: number, deletedBy: string): Promise<Message | null> {
+    const { data, error } = await getSupabase()
+      .from('messages')
+      .update({ content: '', deleted_at: new Date().toISOString(), deleted_by: deletedBy })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+      .single();
+    
+    if (error) return null;
+
+    await getSupabase()
+      .from('message_revisions')
+      .delete()
+      .eq('message_id', id);
+    
+    await getSupabase()
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', id);
+    
+    await getSupabase()
+      .from('message_attachments')
+      .delete()
+      .eq('message_id', id);
+    
+    await getSupabase()
+      .from('message_mentions')
+      .delete()
+      .eq('message_id', id);
+    
+    return data;
+  }
+
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    const { data, error } = await getSupabase()
+      .from('message_revisions')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: true });
+    
+    if (error) return [];
+    return data || [];
+  }
+  async getMessageReactions(messageIds: number[]): Promise<Record<number, MessageReactionSummary[]>> {
+    const reactions: Record<number, MessageReactionSummary[]> = {};
+    for (const id of messageIds) {
+      reactions[id] = [];
+    }
+    if (messageIds.length === 0) return reactions;
+
+    const { data, error } = await getSupabase()
+      .from('message_reactions')
+      .select(`
+        *,
+        users(id, first_name, last_name)
+      `)
+      .in('message_id', messageIds)
+      .order('created_at', { ascending: true });
+    
+    if (error) return reactions;
+    for (const reaction of data || []) {
+      const summaries = reactions[reaction.message_id];
+      let summary = summaries.find(item => item.emoji === reaction.emoji);
+      if (!summary) {
+        summary = { emoji: reaction.emoji, count: 0, users: [] };
+        summaries.push(summary);
+      }
+      summary.count++;
+      summary.users.push(reaction.users);
+    }
+    return reactions;
+  }
+
+  async addMessageReaction(reactionData: Omit<MessageReaction, 'id' | 'created_at'>): Promise<void> {
+    const { error } = await getSupabase()
+      .from('message_reactions')
+      .upsert([reactionData], { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true });
+    
+    if (error) throw error;
+  }
+
+  async removeMessageReaction(messageId: number, userId: string, emoji: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji);
+    
+    if (error) throw error;
+  }
+  async getMessageAttachments(messageIds: number[]): Promise<Record<number, MessageAttachment[]>> {
+    const attachments: Record<number, MessageAttachment[]> = {};
+    for (const id of messageIds) {
+      attachments[id] = [];
+    }
+    if (messageIds.length === 0) return attachments;
+
+    const { data, error } = await getSupabase()
+      .from('message_attachments')
+      .select('*')
+      .in('message_id', messageIds)
+      .order('id', { ascending: true });
+    
+    if (error) return attachments;
+    for (const attachment of data || []) {
+      attachments[attachment.message_id].push(attachment);
+    }
+    return attachments;
+  }
+
+  async getMessageAttachment(id: number): Promise<MessageAttachment | null> {
+    const { data, error } = await getSupabase()
+      .from('message_attachments')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async createMessageAttachment(attachmentData: Omit<MessageAttachment, 'id' | 'created_at' | 'message_id'>): Promise<MessageAttachment> {
+    const { data, error } = await getSupabase()
+      .from('message_attachments')
+      .insert([attachmentData])
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return data;
+  }
+
+  async linkMessageAttachments(attachmentIds: number[], messageId: number): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    const { error } = await getSupabase()
+      .from('message_attachments')
+      .update({ message_id: messageId })
+      .in('id', attachmentIds)
+      .is('message_id', null);
+    
+    if (error) throw error;
+  }
+
+  async getMessageMentions(messageIds: number[]): Promise<Record<number, MentionedUser[]>> {
+    const mentions: Record<number, MentionedUser[]> = {};
+    for (const id of messageIds) {
+      mentions[id] = [];
+    }
+    if (messageIds.length === 0) return mentions;
+
+    const { data, error } = await getSupabase()
+      .from('message_mentions')
+      .select(`
+        message_id,
+        users(id, username)
+      `)
+      .in('message_id', messageIds)
+      .order('id', { ascending: true });
+    
+    if (error) return mentions;
+    for (const mention of data || []) {
+      mentions[mention.message_id].push(mention.users as unknown as MentionedUser);
+    }
+    return mentions;
+  }
+
+  async setMessageMentions(messageId: number, userIds: string[]): Promise<string[]> {
+    const { data: existing, error } = await getSupabase()
+      .from('message_mentions')
+      .select('user_id')
+      .eq('message_id', messageId);
+    
+    if (error) throw error;
+    const previous = (existing || []).map(mention => mention.user_id);
+    const removed = previous.filter(userId => !userIds.includes(userId));
+    const added = userIds.filter(userId => !previous.includes(userId));
+
+    if (removed.length > 0) {
+      await getSupabase()
+        .from('message_mentions')
+        .delete()
+        .eq('message_id', messageId)
+        .in('user_id', removed);
+    }
+    if (added.length > 0) {
+      const { error: insertError } = await getSupabase()
+        .from('message_mentions')
+        .insert(added.map(userId => ({ message_id: messageId, user_id: userId })));
+      
+      if (insertError) throw insertError;
+    }
+    return added;
+  }
 
   async getCartItems(circleId: number): Promise<(CartItem & { user: User, votes: ItemVote[], assignedUser?: User })[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('cart_items')
       .select(`
         *,
@@ -254,8 +801,19 @@ export class SupabaseStorage implements IStorage {
     })) || [];
   }
 
+  async getCartItem(id: number): Promise<CartItem | null> {
+    const { data, error } = await getSupabase()
+      .from('cart_items')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
   async createCartItem(itemData: Omit<CartItem, 'id' | 'created_at'>): Promise<CartItem> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('cart_items')
       .insert([itemData])
       .select()
@@ -266,7 +824,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateCartItem(id: number, updates: Partial<CartItem>): Promise<CartItem | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('cart_items')
       .update(updates)
       .eq('id', id)
@@ -278,7 +836,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteCartItem(id: number): Promise<void> {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from('cart_items')
       .delete()
       .eq('id', id);
@@ -286,8 +844,47 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
   }
 
+  async closeExpiredVoting(now: string): Promise<CartItem[]> {
+    const { data, error } = await getSupabase()
+      .from('cart_items')
+      .update({ status: 'rejected' })
+      .eq('status', 'proposed')
+      .lte('voting_closes_at', now)
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async setVotingPolicy(
+    circleId: number,
+    policy: Pick<Circle, 'vote_quorum' | 'vote_approval_percent' | 'vote_deadline_hours'>,
+    decisions: Record<number, CartItemStatus>,
+    userId: string
+  ): Promise<VotingPolicyChange | null> {
+    const { data, error } = await getSupabase().rpc('set_voting_policy', {
+      p_circle_id: circleId,
+      p_policy: policy,
+      p_decisions: decisions,
+      p_user_id: userId
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getItemVotes(itemId: number): Promise<ItemVote[]> {
+    const { data, error } = await getSupabase()
+      .from('item_votes')
+      .select('*')
+      .eq('item_id', itemId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
   async getItemVote(itemId: number, userId: string): Promise<ItemVote | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('item_votes')
       .select('*')
       .eq('item_id', itemId)
@@ -299,7 +896,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createItemVote(voteData: Omit<ItemVote, 'id' | 'created_at'>): Promise<ItemVote> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('item_votes')
       .insert([voteData])
       .select()
@@ -310,7 +907,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateItemVote(itemId: number, userId: string, vote: number): Promise<ItemVote | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('item_votes')
       .update({ vote })
       .eq('item_id', itemId)
@@ -323,7 +920,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteItemVote(itemId: number, userId: string): Promise<void> {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from('item_votes')
       .delete()
       .eq('item_id', itemId)
@@ -333,7 +930,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getTasks(circleId: number): Promise<(Task & { assignedUser?: User, createdByUser: User })[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('tasks')
       .select(`
         *,
@@ -350,8 +947,19 @@ export class SupabaseStorage implements IStorage {
     })) || [];
   }
 
+  async getTask(id: number): Promise<Task | null> {
+    const { data, error } = await getSupabase()
+      .from('tasks')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
   async createTask(taskData: Omit<Task, 'id' | 'created_at'>): Promise<Task> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('tasks')
       .insert([taskData])
       .select()
@@ -362,7 +970,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async updateTask(id: number, updates: Partial<Task>): Promise<Task | null> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('tasks')
       .update(updates)
       .eq('id', id)
@@ -374,7 +982,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteTask(id: number): Promise<void> {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from('tasks')
       .delete()
       .eq('id', id);
@@ -383,7 +991,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getNotifications(userId: string): Promise<Notification[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('notifications')
       .select('*')
       .eq('user_id', userId)
@@ -394,7 +1002,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createNotification(notificationData: Omit<Notification, 'id' | 'created_at'>): Promise<Notification> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('notifications')
       .insert([notificationData])
       .select()
@@ -405,7 +1013,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async markNotificationAsRead(id: number): Promise<void> {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from('notifications')
       .update({ read: true })
       .eq('id', id);
@@ -414,7 +1022,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async getCartHistory(circleId: number): Promise<(CartHistory & { user: User })[]> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('cart_history')
       .select(`
         *,
@@ -431,7 +1039,7 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createCartHistory(historyData: Omit<CartHistory, 'id' | 'created_at'>): Promise<CartHistory> {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('cart_history')
       .insert([historyData])
       .select()
@@ -440,6 +1048,104 @@ export class SupabaseStorage implements IStorage {
     if (error) throw error;
     return data;
   }
+
+  async settleBudget(
+    circleId: number,
+    targets: Record<number, number>,
+    userId: string | null,
+    reason: string,
+    reconcile: boolean = false
+  ): Promise<BudgetSettlement | null> {
+    const { data, error } = await getSupabase().rpc('settle_budget', {
+      p_circle_id: circleId,
+      p_targets: targets,
+      p_user_id: userId,
+      p_reason: reason,
+      p_reconcile: reconcile
+    });
+    
+    if (error) throw error;
+    return data;
+  }
+
+  async writeCartItem(
+    circleId: number,
+    itemId: number | null,
+    values: Partial<CartItem> | null,
+    userId: string,
+    reason: string,
+    enforceLock: boolean = false
+  ): Promise<CartItemWrite | BudgetLocked | null> {
+    const { data, error } = await getSupabase().rpc('write_cart_item', {
+      p_circle_id: circleId,
+      p_item_id: itemId,
+      p_values: values,
+      p_user_id: userId,
+      p_reason: reason,
+      p_enforce_lock: enforceLock
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async checkoutCart(circleId: number, userId: string, items: OrderItem[], total: number): Promise<Checkout | null> {
+    const { data, error } = await getSupabase().rpc('checkout_cart', {
+      p_circle_id: circleId,
+      p_user_id: userId,
+      p_items: items,
+      p_total: total
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getOrders(circleId: number): Promise<OrderSummary[]> {
+    const { data, error } = await getSupabase()
+      .from('orders')
+      .select('*, placed_by_user:users!orders_placed_by_fkey(id, first_name, last_name)')
+      .eq('circle_id', circleId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async searchCircle(circleId: number, options: CircleSearchOptions): Promise<SearchResult[]> {
+    const { data, error } = await getSupabase().rpc('search_circle', {
+      p_circle_id: circleId,
+      p_query: options.query,
+      p_types: options.types ?? null,
+      p_author: options.authorId ?? null,
+      p_from: options.from ?? null,
+      p_to: options.to ?? null,
+      p_limit: options.limit ?? 20,
+      p_offset: options.offset ?? 0
+    });
+    
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+export type StorageBackend = 'supabase' | 'postgres' | 'memory';
+
+// Selected with STORAGE_BACKEND; defaults to Supabase so existing deployments
+// keep working without extra configuration.
+export const storageBackend = (process.env.STORAGE_BACKEND || 'supabase') as StorageBackend;
+
+export function createStorage(backend: StorageBackend = storageBackend): IStorage {
+  switch (backend) {
+    case 'memory':
+      return new MemStorage();
+    case 'postgres':
+      return new PgStorage();
+    case 'supabase':
+      return new SupabaseStorage();
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
 }
 
-export const storage = new SupabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
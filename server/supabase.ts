@@ -1,18 +1,28 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
-const supabaseUrl = process.env.VITE_SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// The client is created on first use so that importing this module (for the
+// database types) doesn't require Supabase credentials when another storage
+// backend is configured.
+export const getSupabase = (): SupabaseClient => {
+  if (client) return client;
+
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables');
   }
-});
+
+  client = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+  return client;
+};
 
 // Database types
 export interface User {
@@ -22,16 +32,26 @@ export interface User {
   password: string;
   first_name: string;
   last_name: string;
-  avatar?: string;
+  avatar?: string | null;
   created_at: string;
 }
 
+export type NewUser = Omit<User, 'id' | 'created_at'> & { id?: string };
+
 export interface Circle {
   id: number;
   name: string;
   description?: string;
-  budget?: number;
+  budget?: number | null;
   spent: number;
+  // Percentages of the budget that alert members; see server/budget.ts
+  budget_alert_thresholds?: number[];
+  budget_alert_level?: number;
+  budget_locked?: boolean;
+  // The voting policy; see server/voting.ts. No quorum means no voting.
+  vote_quorum?: number | null;
+  vote_approval_percent?: number;
+  vote_deadline_hours?: number | null;
   created_by: string;
   created_at: string;
 }
@@ -42,6 +62,15 @@ export interface CircleMember {
   user_id: string;
   role: string;
   joined_at: string;
+  // The newest top-level message the member has seen
+  last_read_message_id?: number | null;
+}
+
+// Where a member has read up to, for "seen by" indicators
+export interface ReadReceipt {
+  user_id: string;
+  user: Pick<User, 'id' | 'first_name' | 'last_name'> | null;
+  last_read_message_id: number | null;
 }
 
 export interface Message {
@@ -49,10 +78,78 @@ export interface Message {
   circle_id: number;
   user_id: string;
   content: string;
-  reply_to?: number;
+  reply_to?: number | null;
+  edited_at?: string | null;
+  // Deleted messages are kept as tombstones with their content cleared
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  created_at: string;
+}
+
+// The content a message had before an edit
+export interface MessageRevision {
+  id: number;
+  message_id: number;
+  content: string;
+  edited_by: string;
+  created_at: string;
+}
+
+export interface MessageReaction {
+  id: number;
+  message_id: number;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+// Reactions on a message grouped by emoji, in the order they were first used
+export interface MessageReactionSummary {
+  emoji: string;
+  count: number;
+  users: Pick<User, 'id' | 'first_name' | 'last_name'>[];
+}
+
+export interface MessageAttachment {
+  id: number;
+  circle_id: number;
+  // Null until the message it was uploaded for is sent
+  message_id?: number | null;
+  uploaded_by: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  storage_key: string;
+  thumbnail_key?: string | null;
+  width?: number | null;
+  height?: number | null;
+  created_at: string;
+}
+
+// What the timeline and thread views return alongside each message row
+export interface MessageMention {
+  id: number;
+  message_id: number;
+  user_id: string;
   created_at: string;
 }
 
+export type MentionedUser = Pick<User, 'id' | 'username'>;
+
+export interface MessageDetails {
+  user: User;
+  reactions: MessageReactionSummary[];
+  attachments: MessageAttachment[];
+  mentions: MentionedUser[];
+}
+
+// Replies are filed under a top-level message; the timeline shows only the
+// top-level message with a summary of its thread.
+export interface MessageThreadSummary {
+  reply_count: number;
+  last_reply_at: string | null;
+}
+
 export interface CartItem {
   id: number;
   circle_id: number;
@@ -60,10 +157,15 @@ export interface CartItem {
   price: number;
   quantity: number;
   added_by: string;
-  assigned_to?: string;
+  assigned_to?: string | null;
+  notes?: string | null;
+  status?: CartItemStatus;
+  voting_closes_at?: string | null;
   created_at: string;
 }
 
+export type CartItemStatus = 'proposed' | 'approved' | 'rejected' | 'purchased';
+
 export interface ItemVote {
   id: number;
   item_id: number;
@@ -95,6 +197,98 @@ export interface Notification {
   created_at: string;
 }
 
+export type SearchResultType = 'message' | 'cart_item' | 'task';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  // The message's author, or whoever added the item or created the task
+  user_id: string;
+  user: Pick<User, 'id' | 'first_name' | 'last_name'> | null;
+  // Item name or task title; null for messages
+  title: string | null;
+  snippet: string;
+  rank: number;
+  reply_to: number | null;
+  created_at: string;
+}
+
+// A signed amount in cents charged to a circle's budget. An item's entries
+// add up to what it currently costs; entries outlive deleted items. Once an
+// item is checked out its charge moves onto one entry for the order.
+export interface BudgetEntry {
+  id: number;
+  circle_id: number;
+  cart_item_id: number | null;
+  order_id?: number | null;
+  user_id: string | null;
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+// The result of settling a circle's ledger: its budget, the spent amount
+// before and after, and the entries appended
+export interface BudgetSettlement {
+  budget: number;
+  spent: number;
+  previous_spent: number;
+  entries: BudgetEntry[];
+}
+
+// An item as it was when its order was placed. Names are copied so the
+// order reads the same after members leave or rename themselves.
+export interface OrderItem {
+  cart_item_id: number;
+  name: string;
+  price: number;
+  quantity: number;
+  notes: string | null;
+  status: CartItemStatus;
+  added_by: string;
+  added_by_name: string | null;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface Order {
+  id: number;
+  circle_id: number;
+  placed_by: string | null;
+  total: number; // in cents
+  items: OrderItem[];
+  created_at: string;
+}
+
+export type OrderSummary = Order & { placed_by_user: Pick<User, 'id' | 'first_name' | 'last_name'> | null };
+
+export interface Checkout {
+  order: Order;
+  settlement: BudgetSettlement;
+}
+
+// A cart item as written along with the settlement of what it charges; the
+// item is null once deleted
+export interface CartItemWrite {
+  item: CartItem | null;
+  settlement: BudgetSettlement;
+}
+
+// A voting policy change and the proposed items it decided
+export interface VotingPolicyChange {
+  circle: Circle;
+  items: CartItem[];
+  settlement: BudgetSettlement;
+}
+
+// A cart item write refused because it would take a locked budget over;
+// nothing was written
+export interface BudgetLocked {
+  budget_locked: { budget: number; spent: number; increase: number };
+}
+
 export interface CartHistory {
   id: number;
   circle_id: number;
@@ -103,4 +297,17 @@ export interface CartHistory {
   item_name: string;
   details?: any;
   created_at: string;
+}
+
+export interface CircleInvite {
+  id: number;
+  circle_id: number;
+  token: string;
+  created_by: string;
+  email?: string;
+  max_uses?: number;
+  uses: number;
+  expires_at?: string;
+  revoked_at?: string;
+  created_at: string;
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { authorize, PermissionError } from "./permissions";
+import { storage } from "./storage";
+import type { Task } from "./supabase";
+
+// Fields a client may change on an existing task. Everything else in the
+// request (ids, circle, creator, timestamps) is ignored.
+const EDITABLE_TASK_FIELDS = ['title', 'description', 'assigned_to', 'completed', 'due_date'] as const;
+
+export const pickTaskUpdates = (body: Record<string, any> = {}): Partial<Task> => {
+  const updates: Partial<Task> = {};
+  for (const field of EDITABLE_TASK_FIELDS) {
+    if (body[field] !== undefined) {
+      (updates as Record<string, unknown>)[field] = body[field];
+    }
+  }
+  return updates;
+};
+
+// Assigning a task to someone else, or taking it away from someone else,
+// needs task.assign. Anyone who can create or update tasks may take one on
+// themselves or drop their own.
+export async function authorizeTaskAssignment(
+  userId: string,
+  circleId: number,
+  assigneeId: string | null | undefined,
+  currentAssigneeId?: string | null
+): Promise<void> {
+  const affectsSomeoneElse = assigneeId
+    ? assigneeId !== userId
+    : !!currentAssigneeId && currentAssigneeId !== userId;
+  if (affectsSomeoneElse) {
+    await authorize(userId, circleId, 'task.assign');
+  }
+
+  if (assigneeId && !(await storage.getUserCircleMembership(assigneeId, circleId))) {
+    throw new PermissionError('Tasks can only be assigned to circle members', 400);
+  }
+}
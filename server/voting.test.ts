@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { changeVotingPolicy, parseVotingPolicy } from "./voting";
+import { storage } from "./storage";
+
+// A circle voting with a quorum of 2, holding three proposed $2 items: one
+// with an upvote, one with a downvote and one without votes
+let circleId: number;
+let userId: string;
+const itemIds: Record<'up' | 'down' | 'open', number> = { up: 0, down: 0, open: 0 };
+
+beforeEach(async () => {
+  const suffix = Math.random().toString(36).slice(2);
+  const user = await storage.createUser({
+    email: `voter-${suffix}@example.com`,
+    password: 'hash',
+    first_name: 'Voter',
+    last_name: 'Test',
+    username: `voter-${suffix}`
+  });
+  userId = user.id;
+  const circle = await storage.createCircle({ name: 'Voting', created_by: userId, budget: 10000 });
+  circleId = circle.id;
+  await storage.updateCircle(circleId, parseVotingPolicy({ quorum: 2 }));
+
+  for (const name of ['up', 'down', 'open'] as const) {
+    const written = await storage.writeCartItem(circleId, null, {
+      name,
+      price: 200,
+      quantity: 1,
+      added_by: userId,
+      status: 'proposed'
+    }, userId, 'item_added');
+    itemIds[name] = (written as { item: { id: number } }).item.id;
+  }
+  await storage.createItemVote({ item_id: itemIds.up, user_id: userId, vote: 1 });
+  await storage.createItemVote({ item_id: itemIds.down, user_id: userId, vote: -1 });
+});
+
+const statuses = async () => Object.fromEntries(
+  (await storage.getCartItems(circleId)).map(item => [item.name, item.status])
+);
+
+describe('changeVotingPolicy', () => {
+  it('approves every proposed item when voting is turned off', async () => {
+    const change = await changeVotingPolicy(userId, circleId, parseVotingPolicy(null));
+
+    expect(change?.circle.vote_quorum).toBeNull();
+    expect(change?.items.map(item => item.name)).toEqual(['up', 'down', 'open']);
+    expect(await statuses()).toEqual({ up: 'approved', down: 'approved', open: 'approved' });
+    expect(change?.settlement.spent).toBe(600);
+  });
+
+  it('decides the items a new policy already settles and refunds rejected ones', async () => {
+    const change = await changeVotingPolicy(userId, circleId, parseVotingPolicy({ quorum: 1 }));
+
+    expect(change?.circle.vote_quorum).toBe(1);
+    expect(await statuses()).toEqual({ up: 'approved', down: 'rejected', open: 'proposed' });
+    expect(change?.settlement).toMatchObject({ previous_spent: 600, spent: 400 });
+  });
+
+  it('clears the voting deadline of items it approves', async () => {
+    await storage.updateCartItem(itemIds.up, { voting_closes_at: new Date(Date.now() + 60000).toISOString() });
+    await changeVotingPolicy(userId, circleId, parseVotingPolicy(null));
+
+    expect((await storage.getCartItem(itemIds.up))?.voting_closes_at).toBeNull();
+  });
+});
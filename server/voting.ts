@@ -0,0 +1,168 @@
+import { storage } from "./storage";
+import { writeCartItem } from "./budget";
+import { HttpError } from "./errors";
+import { votingPolicySchema, type VotingPolicy } from "../shared/protocol";
+import type { BudgetSettlement, CartItem, CartItemStatus, Circle, ItemVote, Notification, VotingPolicyChange } from "./supabase";
+
+export class VotingError extends HttpError {}
+
+// How often each server rejects items whose voting closed undecided
+export const VOTING_SWEEP_MS = parseInt(process.env.VOTING_SWEEP_MS || '60000', 10);
+
+export type PolicyColumns = Pick<Circle, 'vote_quorum' | 'vote_approval_percent' | 'vote_deadline_hours'>;
+
+export const votingPolicyOf = (circle: PolicyColumns): VotingPolicy =>
+  circle.vote_quorum
+    ? {
+        quorum: circle.vote_quorum,
+        approvalPercent: circle.vote_approval_percent ?? 50,
+        deadlineHours: circle.vote_deadline_hours ?? null
+      }
+    : null;
+
+// Validates votingPolicy from a PATCH body; null turns voting off
+export const parseVotingPolicy = (value: unknown): PolicyColumns => {
+  const parsed = votingPolicySchema.safeParse(value);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new VotingError(`Invalid votingPolicy${issue.path.map(part => `.${part}`).join('')}: ${issue.message}`);
+  }
+  const policy = parsed.data;
+  if (!policy) return { vote_quorum: null, vote_deadline_hours: null };
+  return {
+    vote_quorum: policy.quorum,
+    vote_approval_percent: policy.approvalPercent,
+    vote_deadline_hours: policy.deadlineHours
+  };
+};
+
+// New items are proposed while the circle votes, with voting open until the
+// policy's deadline, and approved straight away otherwise
+export const initialVotingState = (circle: PolicyColumns): Pick<CartItem, 'status' | 'voting_closes_at'> => {
+  const policy = votingPolicyOf(circle);
+  if (!policy) return { status: 'approved', voting_closes_at: null };
+
+  const closesAt = policy.deadlineHours
+    ? new Date(Date.now() + policy.deadlineHours * 60 * 60 * 1000).toISOString()
+    : null;
+  return { status: 'proposed', voting_closes_at: closesAt };
+};
+
+const isVotingClosed = (item: CartItem): boolean =>
+  !!item.voting_closes_at && new Date(item.voting_closes_at).getTime() <= Date.now();
+
+// Approved once the quorum has voted and more than approvalPercent of the
+// votes are upvotes. Short of that an item stays proposed while voting is
+// open, and is rejected when it closes; without a deadline that happens as
+// soon as the quorum is reached, though later votes can still approve it.
+export function decideStatus(policy: NonNullable<VotingPolicy>, votes: Pick<ItemVote, 'vote'>[], item: CartItem): CartItemStatus {
+  const upvotes = votes.filter(vote => vote.vote > 0).length;
+  if (votes.length >= policy.quorum && upvotes * 100 > policy.approvalPercent * votes.length) {
+    return 'approved';
+  }
+  if (item.voting_closes_at) {
+    return isVotingClosed(item) ? 'rejected' : 'proposed';
+  }
+  return votes.length >= policy.quorum ? 'rejected' : 'proposed';
+}
+
+async function createApprovalNotifications(item: CartItem, votes: ItemVote[]): Promise<Notification[]> {
+  const upvotes = votes.filter(vote => vote.vote > 0).length;
+  const notifications: Notification[] = [];
+  for (const member of await storage.getCircleMembers(item.circle_id)) {
+    notifications.push(await storage.createNotification({
+      user_id: member.user_id,
+      circle_id: item.circle_id,
+      type: 'item_approved',
+      title: 'Item got majority votes',
+      message: `${item.name} was approved with ${upvotes} of ${votes.length} votes`,
+      read: false
+    }));
+  }
+  return notifications;
+}
+
+export interface VoteOutcome {
+  item: CartItem;
+  settlement: BudgetSettlement | null;
+  notifications: Notification[];
+}
+
+// Voting the same way again takes the vote back. While the circle has a
+// voting policy the item's status follows the tally: reaching approval
+// notifies every member, and going into or out of rejected settles the
+// item against the budget.
+export async function voteOnItem(userId: string, circleId: number, itemId: number, vote: 1 | -1): Promise<VoteOutcome> {
+  const item = await storage.getCartItem(itemId);
+  if (!item || item.circle_id !== circleId) {
+    throw new VotingError('Item not found', 404);
+  }
+  if (item.status === 'purchased') {
+    throw new VotingError('This item has already been purchased', 409);
+  }
+  if (isVotingClosed(item)) {
+    throw new VotingError('Voting on this item has closed', 409);
+  }
+
+  const existingVote = await storage.getItemVote(itemId, userId);
+  if (!existingVote) {
+    await storage.createItemVote({ item_id: itemId, user_id: userId, vote });
+  } else if (existingVote.vote === vote) {
+    await storage.deleteItemVote(itemId, userId);
+  } else {
+    await storage.updateItemVote(itemId, userId, vote);
+  }
+
+  const circle = await storage.getCircle(circleId);
+  const policy = circle && votingPolicyOf(circle);
+  if (!policy) return { item, settlement: null, notifications: [] };
+
+  const votes = await storage.getItemVotes(itemId);
+  const status = decideStatus(policy, votes, item);
+  if (status === item.status) return { item, settlement: null, notifications: [] };
+
+  const written = await writeCartItem(userId, circleId, itemId, { status }, 'item_voted');
+  if (!written?.item) {
+    throw new VotingError('Item not found', 404);
+  }
+  const updated = written.item;
+  const settlement = (status === 'rejected') !== (item.status === 'rejected') ? written.settlement : null;
+  const notifications = status === 'approved' ? await createApprovalNotifications(updated, votes) : [];
+  return { item: updated, settlement, notifications };
+}
+
+// Sets the voting policy without leaving items waiting on votes it no
+// longer needs: turning voting off approves every proposed item, and a new
+// policy decides the ones its quorum or deadline already settles. The
+// items change along with the policy and rejected ones leave the budget.
+export async function changeVotingPolicy(
+  userId: string,
+  circleId: number,
+  columns: PolicyColumns
+): Promise<VotingPolicyChange | null> {
+  const policy = votingPolicyOf(columns);
+  const decisions: Record<number, CartItemStatus> = {};
+  for (const item of await storage.getCartItems(circleId)) {
+    if (item.status !== 'proposed') continue;
+    const status = policy ? decideStatus(policy, item.votes, item) : 'approved';
+    if (status !== 'proposed') decisions[item.id] = status;
+  }
+  return storage.setVotingPolicy(circleId, columns, decisions, userId);
+}
+
+// Rejects every proposed item whose voting has closed and takes it out of
+// the budget. Resolves to the settlement for each circle affected.
+export async function closeExpiredVoting(): Promise<Map<number, BudgetSettlement | null>> {
+  const targets = new Map<number, Record<number, number>>();
+  for (const item of await storage.closeExpiredVoting(new Date().toISOString())) {
+    const circleTargets = targets.get(item.circle_id) ?? {};
+    circleTargets[item.id] = 0;
+    targets.set(item.circle_id, circleTargets);
+  }
+
+  const settlements = new Map<number, BudgetSettlement | null>();
+  for (const [circleId, circleTargets] of Array.from(targets)) {
+    settlements.set(circleId, await storage.settleBudget(circleId, circleTargets, null, 'item_voted'));
+  }
+  return settlements;
+}
@@ -1,40 +1,121 @@
 import { WebSocketServer, WebSocket } from "ws";
+import { randomUUID } from "crypto";
 import { verifyToken } from "./auth";
 import { storage } from "./storage";
+import { authorize, PermissionError, type AuthorizedCircle, type CircleAction } from "./permissions";
+import { HttpError } from "./errors";
+import { pickTaskUpdates, authorizeTaskAssignment } from "./tasks";
+import { addCartItem, editCartItem, markItemPurchased, toCartItemChanges } from "./cart";
+import { buildBudgetEvent, createBudgetAlerts } from "./budget";
+import {
+  postMessage, buildNewMessageEvent, buildMessageChangeEvent, editMessage, deleteMessage,
+  setMessageReaction, buildReactionEvent, createMentionNotifications, markCircleRead, buildReadEvent
+} from "./messages";
+import { voteOnItem, closeExpiredVoting, VOTING_SWEEP_MS } from "./voting";
+import { PresenceService, PRESENCE_HEARTBEAT_MS, type PresenceStatus } from "./presence";
+import { CircleEventLog } from "./replay";
+import { createPubSub, pubSubDriver, type PubSub } from "./pubsub";
+import { rateLimiter, type RateLimiter, type RateLimitPolicyName } from "./rateLimit";
+import {
+  clientMessageSchema, describeInvalidMessage,
+  type AckResult, type ClientMessage, type ClientMessageData, type CircleEvent, type ServerMessage
+} from "../shared/protocol";
+import type { Circle, Notification } from "./supabase";
 import type { Server } from "http";
 
 interface AuthenticatedWebSocket extends WebSocket {
+  // Keys the connection's rate limits until, and for auth after, it has a user
+  connectionId?: string;
   userId?: string;
   circleId?: number;
+  // Cleared when a ping goes out and set again by the pong
+  isAlive?: boolean;
 }
 
-interface WebSocketMessage {
-  type: string;
-  data: any;
-  circleId?: number;
-}
+// Sockets are pinged this often and terminated if they haven't answered the
+// previous ping by the next one
+export const PING_INTERVAL_MS = parseInt(process.env.WS_PING_INTERVAL_MS || '30000', 10);
+
+// Every node publishes to this channel and delivers what comes back to its
+// own sockets, so a broadcast reaches the circle whichever node its members
+// are connected to
+const BUS_CHANNEL = 'ws:events';
+
+// How often each node re-announces its users' presence. Nodes that go
+// quiet for a few of these are dropped from everyone's merged presence.
+const PRESENCE_SYNC_MS = PRESENCE_HEARTBEAT_MS;
+
+// Each of these also counts against the sender's budget for that policy,
+// per user once authenticated. Auth attempts are counted per connection:
+// tokens are checked without a password so there is nothing to guess.
+const SOCKET_RATE_LIMITS: Partial<Record<ClientMessage['type'], RateLimitPolicyName>> = {
+  auth: 'auth',
+  send_message: 'message',
+  vote_item: 'cart',
+  add_cart_item: 'cart',
+  update_cart_item: 'cart',
+  mark_item_purchased: 'cart',
+  typing: 'typing'
+};
+
+type BusMessage =
+  | { kind: 'circle'; circleId: number; event: CircleEvent; excludeUserId?: string }
+  | { kind: 'user'; userId: string; event: ServerMessage }
+  | { kind: 'remove_member'; userId: string; circleId: number }
+  | { kind: 'presence'; nodeId: string; userId: string; status: PresenceStatus }
+  | { kind: 'presence_snapshot'; nodeId: string; statuses: Record<string, PresenceStatus> };
 
 export class WebSocketManager {
   private wss: WebSocketServer;
   private clients: Map<string, AuthenticatedWebSocket[]> = new Map(); // userId -> WebSocket[]
   private circleRooms: Map<number, Set<string>> = new Map(); // circleId -> Set of userIds
+  public presence: PresenceService;
+  private eventLog = new CircleEventLog();
+  private nodeId = randomUUID();
+  private reaping = { lastInterval: 0, total: 0, lastPingAt: null as string | null };
 
-  constructor(server: Server) {
+  constructor(server: Server, private bus: PubSub = createPubSub(), private limiter: RateLimiter = rateLimiter) {
     this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.presence = new PresenceService({
+      onChange: (userId, status) => {
+        this.publishPresence(userId, status).catch(error => console.error('Presence broadcast error:', error));
+      },
+      onLocalChange: (userId, status) => {
+        this.publish({ kind: 'presence', nodeId: this.nodeId, userId, status });
+      }
+    });
+    this.presence.start();
+    this.bus.subscribe(BUS_CHANNEL, message => this.handleBusMessage(message))
+      .catch(error => console.error('Pub/sub subscribe error:', error));
     this.setupWebSocketServer();
+    this.startPingLoop();
+    this.startPresenceSync();
+    this.startVotingSweep();
   }
 
   private setupWebSocketServer() {
     this.wss.on('connection', (ws: AuthenticatedWebSocket, req) => {
       console.log('New WebSocket connection');
+      ws.connectionId = randomUUID();
+      ws.isAlive = true;
+
+      ws.on('pong', () => {
+        ws.isAlive = true;
+      });
 
       ws.on('message', async (message: string) => {
         try {
-          const data: WebSocketMessage = JSON.parse(message);
-          await this.handleMessage(ws, data);
+          const payload = JSON.parse(message);
+          const parsed = clientMessageSchema.safeParse(payload);
+          if (!parsed.success) {
+            const requestId = typeof payload?.requestId === 'string' ? payload.requestId : undefined;
+            this.send(ws, describeInvalidMessage(parsed.error, requestId));
+            return;
+          }
+          await this.handleMessage(ws, parsed.data);
         } catch (error) {
           console.error('WebSocket message error:', error);
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+          this.send(ws, { type: 'error', message: 'Invalid message format' });
         }
       });
 
@@ -48,41 +129,189 @@ export class WebSocketManager {
     });
   }
 
-  private async handleMessage(ws: AuthenticatedWebSocket, message: WebSocketMessage) {
+  private startPingLoop() {
+    const timer = setInterval(() => this.pingClients(), PING_INTERVAL_MS);
+    timer.unref();
+    this.wss.on('close', () => clearInterval(timer));
+  }
+
+  // Half-open connections never emit 'close', so without this they would
+  // stay in clients and circleRooms and keep receiving broadcasts. Sockets
+  // that missed the last ping get the usual disconnect cleanup and are
+  // terminated; the rest are pinged again.
+  private pingClients() {
+    let reaped = 0;
+    this.wss.clients.forEach((client: AuthenticatedWebSocket) => {
+      if (!client.isAlive) {
+        this.handleDisconnect(client);
+        client.terminate();
+        reaped++;
+        return;
+      }
+
+      client.isAlive = false;
+      client.ping();
+    });
+
+    this.reaping.lastInterval = reaped;
+    this.reaping.total += reaped;
+    this.reaping.lastPingAt = new Date().toISOString();
+    if (reaped > 0) {
+      console.log(`Reaped ${reaped} unresponsive WebSocket connection(s), ${this.countOpenSockets()} still open`);
+    }
+  }
+
+  // Terminated sockets stay in wss.clients until their 'close' fires
+  private countOpenSockets(): number {
+    return Array.from(this.wss.clients).filter(client => client.readyState === WebSocket.OPEN).length;
+  }
+
+  private startPresenceSync() {
+    const timer = setInterval(() => {
+      this.publish({ kind: 'presence_snapshot', nodeId: this.nodeId, statuses: this.presence.getLocalSnapshot() });
+    }, PRESENCE_SYNC_MS);
+    timer.unref();
+    this.wss.on('close', () => clearInterval(timer));
+  }
+
+  // Every node sweeps, but each closed item is only returned to one of them
+  private startVotingSweep() {
+    const timer = setInterval(() => {
+      this.closeExpiredVoting().catch(error => console.error('Voting sweep error:', error));
+    }, VOTING_SWEEP_MS);
+    timer.unref();
+    this.wss.on('close', () => clearInterval(timer));
+  }
+
+  private async closeExpiredVoting() {
+    const settlements = await closeExpiredVoting();
+    for (const [circleId, settlement] of Array.from(settlements)) {
+      this.broadcastToCircle(circleId, { type: 'cart_updated', cartItems: await storage.getCartItems(circleId) });
+      if (settlement) {
+        await this.sendBudgetUpdate(circleId, settlement);
+      }
+    }
+  }
+
+  public getMetrics() {
+    return {
+      nodeId: this.nodeId,
+      pubSubDriver,
+      liveConnections: this.countOpenSockets(),
+      connectedUsers: this.clients.size,
+      pingIntervalMs: PING_INTERVAL_MS,
+      reapedLastInterval: this.reaping.lastInterval,
+      reapedTotal: this.reaping.total,
+      lastPingAt: this.reaping.lastPingAt
+    };
+  }
+
+  // Mutations that carry a requestId get exactly one reply echoing it: an
+  // ack with what the handler returned, or an error. Messages over a rate
+  // limit are answered with rate_limited instead and not handled.
+  private async handleMessage(ws: AuthenticatedWebSocket, message: ClientMessage) {
+    const requestId = 'requestId' in message ? message.requestId : undefined;
+    const throttled = await this.checkRateLimits(ws, message.type);
+    if (throttled) {
+      this.send(ws, { type: 'rate_limited', ...throttled, requestId });
+      return;
+    }
+
+    // Anything the user sends besides a heartbeat counts as activity
+    if (ws.userId && message.type !== 'heartbeat') {
+      this.presence.heartbeat(ws.userId, ws, true);
+    }
+
+    try {
+      const result = await this.dispatch(ws, message);
+      if (requestId) {
+        this.send(ws, { type: 'ack', requestId, result: result ?? null });
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        console.error('WebSocket handler error:', error);
+        this.send(ws, { type: 'error', message: 'Request failed', requestId });
+        return;
+      }
+      const action = error instanceof PermissionError ? error.action : undefined;
+      this.send(ws, { type: 'error', message: error.message, action, code: error.code, requestId });
+    }
+  }
+
+  // The connection's own budget, then the one for the message type. Returns
+  // the first policy exceeded.
+  private async checkRateLimits(ws: AuthenticatedWebSocket, type: ClientMessage['type']) {
+    const connectionId = ws.connectionId!;
+    const connection = await this.limiter.consume('connection', connectionId);
+    if (!connection.allowed) {
+      return { policy: 'connection', retryAfterMs: connection.retryAfterMs };
+    }
+
+    const policy = SOCKET_RATE_LIMITS[type];
+    if (!policy) return null;
+
+    const key = policy === 'auth' ? connectionId : ws.userId ?? connectionId;
+    const { allowed, retryAfterMs } = await this.limiter.consume(policy, key);
+    return allowed ? null : { policy, retryAfterMs };
+  }
+
+  private async dispatch(ws: AuthenticatedWebSocket, message: ClientMessage): Promise<AckResult | void> {
     switch (message.type) {
       case 'auth':
-        await this.handleAuth(ws, message.data);
-        break;
+        return this.handleAuth(ws, message.data);
+      case 'heartbeat':
+        if (ws.userId) {
+          this.presence.heartbeat(ws.userId, ws, message.data.active);
+        }
+        return;
       case 'join_circle':
-        await this.handleJoinCircle(ws, message.data);
-        break;
+        return this.handleJoinCircle(ws, message.data);
       case 'leave_circle':
-        await this.handleLeaveCircle(ws, message.data);
-        break;
+        return this.handleLeaveCircle(ws, message.data);
       case 'send_message':
-        await this.handleSendMessage(ws, message.data);
-        break;
+        return this.handleSendMessage(ws, message.data);
+      case 'edit_message':
+        return this.handleEditMessage(ws, message.data);
+      case 'delete_message':
+        return this.handleDeleteMessage(ws, message.data);
+      case 'add_reaction':
+        return this.handleReaction(ws, message.data, true);
+      case 'remove_reaction':
+        return this.handleReaction(ws, message.data, false);
+      case 'mark_read':
+        return this.handleMarkRead(ws, message.data);
       case 'typing':
-        await this.handleTyping(ws, message.data);
-        break;
+        return this.handleTyping(ws, message.data);
       case 'vote_item':
-        await this.handleVoteItem(ws, message.data);
-        break;
+        return this.handleVoteItem(ws, message.data);
       case 'add_cart_item':
-        await this.handleAddCartItem(ws, message.data);
-        break;
+        return this.handleAddCartItem(ws, message.data);
+      case 'update_cart_item':
+        return this.handleUpdateCartItem(ws, message.data);
+      case 'mark_item_purchased':
+        return this.handleMarkItemPurchased(ws, message.data);
       case 'update_task':
-        await this.handleUpdateTask(ws, message.data);
-        break;
-      default:
-        ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
+        return this.handleUpdateTask(ws, message.data);
     }
   }
 
-  private async handleAuth(ws: AuthenticatedWebSocket, data: { token: string }) {
+  // Checks the action against the socket's current circle, or the one given
+  private async authorizeSocket(
+    ws: AuthenticatedWebSocket,
+    action: CircleAction,
+    options: { resourceOwnerId?: string; circleId?: number } = {}
+  ): Promise<AuthorizedCircle> {
+    const circleId = options.circleId ?? ws.circleId;
+    if (!ws.userId || !circleId) {
+      throw new HttpError('Not authenticated or not in a circle', 401);
+    }
+    return authorize(ws.userId, circleId, action, options);
+  }
+
+  private async handleAuth(ws: AuthenticatedWebSocket, data: ClientMessageData<'auth'>) {
     const decoded = verifyToken(data.token);
     if (!decoded) {
-      ws.send(JSON.stringify({ type: 'auth_error', message: 'Invalid token' }));
+      this.send(ws, { type: 'auth_error', message: 'Invalid token' });
       return;
     }
 
@@ -93,25 +322,27 @@ export class WebSocketManager {
       this.clients.set(decoded.userId, []);
     }
     this.clients.get(decoded.userId)!.push(ws);
+    this.presence.connect(decoded.userId, ws);
 
-    ws.send(JSON.stringify({ type: 'auth_success', userId: decoded.userId }));
+    this.send(ws, { type: 'auth_success', userId: decoded.userId, heartbeatMs: PRESENCE_HEARTBEAT_MS });
   }
 
-  private async handleJoinCircle(ws: AuthenticatedWebSocket, data: { circleId: number }) {
+  // A client rejoining after a reconnect passes the last sequence number and
+  // epoch it saw. It is sent the events it missed after joined_circle, or a
+  // resync_required when the log no longer has them.
+  private async handleJoinCircle(ws: AuthenticatedWebSocket, data: ClientMessageData<'join_circle'>) {
     if (!ws.userId) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Not authenticated' }));
-      return;
+      throw new HttpError('Not authenticated', 401);
     }
 
     const { circleId } = data;
     
     // Verify user is member of circle
-    const membership = await storage.getUserCircleMembership(ws.userId, circleId);
-    if (!membership) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Not a member of this circle' }));
-      return;
-    }
+    await this.authorizeSocket(ws, 'circle.view', { circleId });
 
+    if (ws.circleId && ws.circleId !== circleId) {
+      this.leaveRoom(ws, ws.circleId);
+    }
     ws.circleId = circleId;
     
     // Add to circle room
@@ -126,159 +357,166 @@ export class WebSocketManager {
       userId: ws.userId
     }, ws.userId);
 
-    ws.send(JSON.stringify({ type: 'joined_circle', circleId }));
+    const seq = this.eventLog.current(circleId);
+    const epoch = this.eventLog.epoch;
+    this.send(ws, { type: 'joined_circle', circleId, seq, epoch });
+
+    if (typeof data.lastSeq === 'number') {
+      const missed = this.eventLog.since(circleId, data.lastSeq, data.epoch ?? '', ws.userId);
+      if (missed) {
+        missed.forEach(event => this.send(ws, event));
+      } else {
+        this.send(ws, { type: 'resync_required', circleId, seq, epoch });
+      }
+    }
   }
 
-  private async handleLeaveCircle(ws: AuthenticatedWebSocket, data: { circleId: number }) {
+  private async handleLeaveCircle(ws: AuthenticatedWebSocket, data: ClientMessageData<'leave_circle'>) {
     if (!ws.userId) return;
 
     const { circleId } = data;
     
-    // Remove from circle room
-    if (this.circleRooms.has(circleId)) {
-      this.circleRooms.get(circleId)!.delete(ws.userId);
+    // Remove from circle room and notify others in circle
+    if (this.leaveRoom(ws, circleId)) {
+      this.broadcastToCircle(circleId, {
+        type: 'user_left',
+        userId: ws.userId
+      }, ws.userId);
     }
 
-    // Notify others in circle
-    this.broadcastToCircle(circleId, {
-      type: 'user_left',
-      userId: ws.userId
-    }, ws.userId);
-
-    ws.circleId = undefined;
-    ws.send(JSON.stringify({ type: 'left_circle', circleId }));
+    this.send(ws, { type: 'left_circle', circleId });
   }
 
-  private async handleSendMessage(ws: AuthenticatedWebSocket, data: { content: string, replyTo?: number }) {
-    if (!ws.userId || !ws.circleId) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Not authenticated or not in a circle' }));
-      return;
-    }
+  private async handleSendMessage(ws: AuthenticatedWebSocket, data: ClientMessageData<'send_message'>) {
+    const { membership } = await this.authorizeSocket(ws, 'message.send');
+    const { user_id: userId, circle_id: circleId } = membership;
 
-    const message = await storage.createMessage({
-      circle_id: ws.circleId,
-      user_id: ws.userId,
-      content: data.content,
-      reply_to: data.replyTo || null
-    });
+    const { message, mentions } = await postMessage(userId, circleId, data);
 
-    const user = await storage.getUser(ws.userId);
+    const user = await storage.getUser(userId);
     
     // Broadcast to all circle members
-    this.broadcastToCircle(ws.circleId, {
-      type: 'new_message',
-      message: {
-        ...message,
-        user
-      }
-    });
+    const event = await buildNewMessageEvent(message, user);
+    this.broadcastToCircle(circleId, event);
+    if (!message.reply_to) {
+      await this.sendUnreadChanged(circleId, userId);
+    }
 
-    // Create notifications for other members
-    const members = await storage.getCircleMembers(ws.circleId);
-    for (const member of members) {
-      if (member.user_id !== ws.userId) {
-        await storage.createNotification({
-          user_id: member.user_id,
-          circle_id: ws.circleId,
-          type: 'new_message',
-          title: 'New message',
-          message: `${user?.first_name} ${user?.last_name} sent a message`,
-          read: false
-        });
-      }
+    // Only mentioned members are notified; everyone else sees the message
+    // in their unread count, as with REST sends
+    this.sendNotifications(await createMentionNotifications(message, user, mentions));
+    return event.message;
+  }
+
+  private async handleEditMessage(ws: AuthenticatedWebSocket, data: ClientMessageData<'edit_message'>) {
+    if (!ws.userId) {
+      throw new HttpError('Not authenticated', 401);
     }
+
+    const { message, mentions } = await editMessage(ws.userId, data.messageId, data.content);
+    const event = await buildMessageChangeEvent('message_updated', message);
+    this.broadcastToCircle(message.circle_id, event);
+    this.sendNotifications(
+      await createMentionNotifications(message, await storage.getUser(ws.userId), mentions)
+    );
+    return event.message;
+  }
+
+  private async handleDeleteMessage(ws: AuthenticatedWebSocket, data: ClientMessageData<'delete_message'>) {
+    if (!ws.userId) {
+      throw new HttpError('Not authenticated', 401);
+    }
+
+    const message = await deleteMessage(ws.userId, data.messageId);
+    const event = await buildMessageChangeEvent('message_deleted', message);
+    this.broadcastToCircle(message.circle_id, event);
+    if (!message.reply_to) {
+      await this.sendUnreadChanged(message.circle_id);
+    }
+    return event.message;
+  }
+  private async handleReaction(ws: AuthenticatedWebSocket, data: ClientMessageData<'add_reaction'>, reacted: boolean) {
+    if (!ws.userId) {
+      throw new HttpError('Not authenticated', 401);
+    }
+
+    const { message, reactions } = await setMessageReaction(ws.userId, data.messageId, data.emoji, reacted);
+    this.broadcastToCircle(message.circle_id, buildReactionEvent(message, reactions));
+    return { message_id: message.id, reactions };
   }
 
-  private async handleTyping(ws: AuthenticatedWebSocket, data: { isTyping: boolean }) {
-    if (!ws.userId || !ws.circleId) return;
+  // Reported by clients as messages scroll into view
+  private async handleMarkRead(ws: AuthenticatedWebSocket, data: ClientMessageData<'mark_read'>) {
+    const { membership } = await this.authorizeSocket(ws, 'circle.view');
+    const { user_id: userId, circle_id: circleId } = membership;
 
-    const user = await storage.getUser(ws.userId);
+    const member = await markCircleRead(userId, circleId, data.messageId);
+    if (!member) return;
+
+    this.broadcastToCircle(circleId, buildReadEvent(member), userId);
+    this.broadcastToUser(userId, { type: 'unread_changed', circleId });
+  }
+
+  private async handleTyping(ws: AuthenticatedWebSocket, data: ClientMessageData<'typing'>) {
+    const { membership } = await this.authorizeSocket(ws, 'message.send');
+
+    const user = await storage.getUser(membership.user_id);
     
-    this.broadcastToCircle(ws.circleId, {
+    this.broadcastToCircle(membership.circle_id, {
       type: 'typing',
-      userId: ws.userId,
+      userId: membership.user_id,
       userName: `${user?.first_name} ${user?.last_name}`,
       isTyping: data.isTyping
-    }, ws.userId);
+    }, membership.user_id);
   }
 
-  private async handleVoteItem(ws: AuthenticatedWebSocket, data: { itemId: number, vote: number }) {
-    if (!ws.userId || !ws.circleId) return;
+  private async handleVoteItem(ws: AuthenticatedWebSocket, data: ClientMessageData<'vote_item'>) {
+    const { membership } = await this.authorizeSocket(ws, 'cart.vote');
+    const { user_id: userId, circle_id: circleId } = membership;
 
-    const existingVote = await storage.getItemVote(data.itemId, ws.userId);
-    
-    if (existingVote) {
-      if (existingVote.vote === data.vote) {
-        // Remove vote if same vote
-        await storage.deleteItemVote(data.itemId, ws.userId);
-      } else {
-        // Update vote
-        await storage.updateItemVote(data.itemId, ws.userId, data.vote);
-      }
-    } else {
-      // Create new vote
-      await storage.createItemVote({
-        item_id: data.itemId,
-        user_id: ws.userId,
-        vote: data.vote
-      });
-    }
+    const { settlement, notifications } = await voteOnItem(userId, circleId, data.itemId, data.vote);
 
     // Get updated cart items
-    const cartItems = await storage.getCartItems(ws.circleId);
+    const cartItems = await storage.getCartItems(circleId);
     
-    this.broadcastToCircle(ws.circleId, {
+    this.broadcastToCircle(circleId, {
       type: 'cart_updated',
       cartItems
     });
+    if (settlement) {
+      await this.sendBudgetUpdate(circleId, settlement);
+    }
+    this.sendNotifications(notifications);
+    return cartItems.find(cartItem => cartItem.id === data.itemId) ?? null;
   }
 
-  private async handleAddCartItem(ws: AuthenticatedWebSocket, data: { name: string, price: number, quantity?: number }) {
-    if (!ws.userId || !ws.circleId) return;
-
-    const item = await storage.createCartItem({
-      circle_id: ws.circleId,
-      name: data.name,
-      price: Math.round(data.price * 100), // Convert to cents
-      quantity: data.quantity || 1,
-      added_by: ws.userId,
-      assigned_to: null
-    });
+  private async handleAddCartItem(ws: AuthenticatedWebSocket, data: ClientMessageData<'add_cart_item'>) {
+    const { membership, circle } = await this.authorizeSocket(ws, 'cart.add');
+    const { user_id: userId, circle_id: circleId } = membership;
 
-    // Add to cart history
-    await storage.createCartHistory({
-      circle_id: ws.circleId,
-      user_id: ws.userId,
-      action: 'added',
-      item_name: data.name,
-      details: { price: Math.round(data.price * 100), quantity: data.quantity || 1 }
-    });
+    const { item, settlement } = await addCartItem(
+      userId,
+      circle,
+      { name: data.name, price: Math.round(data.price * 100), quantity: data.quantity }, // Convert to cents
+      data.overrideBudgetLock
+    );
 
-    // Update circle spent amount
-    const circle = await storage.getCircle(ws.circleId);
-    if (circle) {
-      await storage.updateCircle(ws.circleId, {
-        spent: circle.spent + (Math.round(data.price * 100) * (data.quantity || 1))
-      });
-    }
-
-    const user = await storage.getUser(ws.userId);
+    const user = await storage.getUser(userId);
+    const added = { ...item, user };
     
-    this.broadcastToCircle(ws.circleId, {
+    this.broadcastToCircle(circleId, {
       type: 'item_added',
-      item: {
-        ...item,
-        user
-      }
+      item: added
     });
+    await this.sendBudgetUpdate(circleId, settlement);
 
     // Create notifications
-    const members = await storage.getCircleMembers(ws.circleId);
+    const members = await storage.getCircleMembers(circleId);
     for (const member of members) {
-      if (member.user_id !== ws.userId) {
+      if (member.user_id !== userId) {
         await storage.createNotification({
           user_id: member.user_id,
-          circle_id: ws.circleId,
+          circle_id: circleId,
           type: 'item_added',
           title: 'New item added',
           message: `${user?.first_name} ${user?.last_name} added ${data.name} to the cart`,
@@ -286,23 +524,73 @@ export class WebSocketManager {
         });
       }
     }
+    return added;
   }
 
-  private async handleUpdateTask(ws: AuthenticatedWebSocket, data: { taskId: number, updates: any }) {
-    if (!ws.userId || !ws.circleId) return;
+  private async handleUpdateCartItem(ws: AuthenticatedWebSocket, data: ClientMessageData<'update_cart_item'>) {
+    const { membership } = await this.authorizeSocket(ws, 'circle.view');
+    const { user_id: userId, circle_id: circleId } = membership;
 
-    const task = await storage.updateTask(data.taskId, data.updates);
-    if (!task) return;
+    const { item, settlement } = await editCartItem(
+      userId, circleId, data.itemId, toCartItemChanges(data.updates), data.overrideBudgetLock
+    );
 
-    const user = await storage.getUser(ws.userId);
+    const cartItems = await storage.getCartItems(circleId);
+    this.broadcastToCircle(circleId, {
+      type: 'cart_updated',
+      cartItems
+    });
+    if (settlement) {
+      await this.sendBudgetUpdate(circleId, settlement);
+    }
+    return cartItems.find(cartItem => cartItem.id === item.id) ?? null;
+  }
+
+  private async handleMarkItemPurchased(ws: AuthenticatedWebSocket, data: ClientMessageData<'mark_item_purchased'>) {
+    const { membership } = await this.authorizeSocket(ws, 'circle.view');
+    const { user_id: userId, circle_id: circleId } = membership;
+
+    const item = await markItemPurchased(userId, circleId, data.itemId, data.purchased);
+
+    const cartItems = await storage.getCartItems(circleId);
+    this.broadcastToCircle(circleId, {
+      type: 'cart_updated',
+      cartItems
+    });
+    return cartItems.find(cartItem => cartItem.id === item.id) ?? null;
+  }
+
+  private async handleUpdateTask(ws: AuthenticatedWebSocket, data: ClientMessageData<'update_task'>) {
+    const { membership } = await this.authorizeSocket(ws, 'task.update');
+    const { user_id: userId, circle_id: circleId } = membership;
+
+    const existing = await storage.getTask(data.taskId);
+    if (!existing || existing.circle_id !== circleId) {
+      throw new HttpError('Task not found', 404);
+    }
+
+    const updates = pickTaskUpdates(data.updates);
+    if ('assigned_to' in updates) {
+      await authorizeTaskAssignment(userId, circleId, updates.assigned_to, existing.assigned_to);
+    }
+
+    const task = await storage.updateTask(data.taskId, updates);
+    if (!task) {
+      throw new HttpError('Task not found', 404);
+    }
+
+    const user = await storage.getUser(userId);
     
-    this.broadcastToCircle(ws.circleId, {
+    this.broadcastToCircle(circleId, {
       type: 'task_updated',
       task,
       updatedBy: user
     });
+    return task;
   }
 
+  // Safe to call more than once: reaped sockets are cleaned up straight away
+  // and again when their 'close' finally fires
   private handleDisconnect(ws: AuthenticatedWebSocket) {
     if (ws.userId) {
       // Remove from clients map
@@ -316,35 +604,107 @@ export class WebSocketManager {
           this.clients.delete(ws.userId);
         }
       }
+      this.presence.disconnect(ws.userId, ws);
+
+      // Remove from circle room and notify others in circle
+      const circleId = ws.circleId;
+      if (circleId && this.leaveRoom(ws, circleId)) {
+        this.broadcastToCircle(circleId, {
+          type: 'user_left',
+          userId: ws.userId
+        }, ws.userId);
+      }
 
-      // Remove from circle room
-      if (ws.circleId) {
-        const circleUsers = this.circleRooms.get(ws.circleId);
-        if (circleUsers) {
-          circleUsers.delete(ws.userId);
-          
-          // Notify others in circle
-          this.broadcastToCircle(ws.circleId, {
-            type: 'user_left',
-            userId: ws.userId
-          }, ws.userId);
-        }
+      ws.userId = undefined;
+      ws.circleId = undefined;
+    }
+  }
+
+  // Rooms hold user ids, so a user stays in a room while any of their other
+  // sockets has the circle open. Returns whether they left it.
+  private leaveRoom(ws: AuthenticatedWebSocket, circleId: number): boolean {
+    ws.circleId = undefined;
+    if (this.clients.get(ws.userId!)?.some(client => client.circleId === circleId)) {
+      return false;
+    }
+    return !!this.circleRooms.get(circleId)?.delete(ws.userId!);
+  }
+
+  private publish(message: BusMessage) {
+    this.bus.publish(BUS_CHANNEL, JSON.stringify(message))
+      .catch(error => console.error('Pub/sub publish error:', error));
+  }
+
+  private handleBusMessage(raw: string) {
+    try {
+      const message: BusMessage = JSON.parse(raw);
+      switch (message.kind) {
+        case 'circle':
+          this.deliverToCircle(message.circleId, message.event, message.excludeUserId);
+          break;
+        case 'user':
+          this.deliverToUser(message.userId, message.event);
+          break;
+        case 'remove_member':
+          this.deliverMemberRemoval(message.userId, message.circleId);
+          break;
+        case 'presence':
+          if (message.nodeId !== this.nodeId) {
+            this.presence.setRemoteStatus(message.nodeId, message.userId, message.status);
+          }
+          break;
+        case 'presence_snapshot':
+          if (message.nodeId !== this.nodeId) {
+            this.presence.setRemoteSnapshot(message.nodeId, message.statuses);
+          }
+          break;
       }
+    } catch (error) {
+      console.error('Pub/sub message error:', error);
     }
   }
 
-  private broadcastToCircle(circleId: number, message: any, excludeUserId?: string) {
+  // Drops a user's sockets from a circle room after they stop being a member
+  public removeUserFromCircle(userId: string, circleId: number) {
+    this.publish({ kind: 'remove_member', userId, circleId });
+  }
+
+  private deliverMemberRemoval(userId: string, circleId: number) {
+    this.circleRooms.get(circleId)?.delete(userId);
+
+    const userClients = this.clients.get(userId);
+    userClients?.forEach(client => {
+      if (client.circleId === circleId) {
+        client.circleId = undefined;
+      }
+    });
+
+    this.deliverToUser(userId, { type: 'removed_from_circle', circleId });
+  }
+
+  public broadcastToCircle(circleId: number, message: CircleEvent, excludeUserId?: string) {
+    this.publish({ kind: 'circle', circleId, event: message, excludeUserId });
+  }
+
+  // Every event gets the circle's next sequence number, even with nobody in
+  // the room, so reconnecting clients can catch up on it. Nodes number events
+  // as they arrive from the bus, which delivers them in the same order
+  // everywhere. Typing indicators are numbered but not kept for replay since
+  // they'd be stale.
+  private deliverToCircle(circleId: number, message: CircleEvent, excludeUserId?: string) {
+    const event = this.eventLog.append(circleId, message, { excludeUserId, keep: message.type !== 'typing' });
     const circleUsers = this.circleRooms.get(circleId);
     if (!circleUsers) return;
 
+    const messageStr = JSON.stringify(event);
     for (const userId of circleUsers) {
       if (excludeUserId && userId === excludeUserId) continue;
       
       const userClients = this.clients.get(userId);
       if (userClients) {
-        const messageStr = JSON.stringify(message);
+        // The user's other tabs may have a different circle open
         userClients.forEach(client => {
-          if (client.readyState === WebSocket.OPEN) {
+          if (client.circleId === circleId && client.readyState === WebSocket.OPEN) {
             client.send(messageStr);
           }
         });
@@ -352,7 +712,55 @@ export class WebSocketManager {
     }
   }
 
-  public broadcastToUser(userId: string, message: any) {
+  // Pushes stored notifications to their recipients' open sockets
+  public sendNotifications(notifications: Notification[]) {
+    for (const notification of notifications) {
+      this.broadcastToUser(notification.user_id, { type: 'notification', notification });
+    }
+  }
+
+  // New budget figures for the circle, plus an alert for every member if
+  // spending has reached one of its thresholds
+  public async sendBudgetUpdate(circleId: number, figures: Pick<Circle, 'budget' | 'spent'>) {
+    this.broadcastToCircle(circleId, buildBudgetEvent(circleId, figures));
+    this.sendNotifications(await createBudgetAlerts(circleId));
+  }
+
+  // Everyone who shares a circle with the user hears about their presence,
+  // whichever circle they have open. Every node sees the same merged status
+  // change, so each one only tells its own sockets.
+  private async publishPresence(userId: string, status: PresenceStatus) {
+    const recipients = new Set<string>();
+    for (const circle of await storage.getCirclesByUserId(userId)) {
+      for (const member of await storage.getCircleMembers(circle.id)) {
+        recipients.add(member.user_id);
+      }
+    }
+
+    const event: ServerMessage = { type: 'presence', userId, status };
+    recipients.forEach(recipient => this.deliverToUser(recipient, event));
+  }
+
+  // Unread counts show for every circle in the sidebar, so members hear
+  // about them even while they have another circle open
+  public async sendUnreadChanged(circleId: number, excludeUserId?: string) {
+    const members = await storage.getCircleMembers(circleId);
+    for (const member of members) {
+      if (member.user_id !== excludeUserId) {
+        this.broadcastToUser(member.user_id, { type: 'unread_changed', circleId });
+      }
+    }
+  }
+
+  private send(ws: AuthenticatedWebSocket, message: ServerMessage) {
+    ws.send(JSON.stringify(message));
+  }
+
+  public broadcastToUser(userId: string, message: ServerMessage) {
+    this.publish({ kind: 'user', userId, event: message });
+  }
+
+  private deliverToUser(userId: string, message: ServerMessage) {
     const userClients = this.clients.get(userId);
     if (userClients) {
       const messageStr = JSON.stringify(message);
@@ -0,0 +1,231 @@
+import { z, type ZodError } from "zod";
+
+// The WebSocket protocol. Both directions are discriminated unions on
+// `type`: the server validates everything it receives against
+// clientMessageSchema and the client does the same with serverMessageSchema.
+
+const id = z.number().int().positive();
+
+// Rows are sent as stored. Only the fields the protocol relies on are
+// checked; the rest pass through untouched.
+const record = z.object({}).catchall(z.any());
+const row = record.extend({ id: z.number() });
+
+const presenceStatusSchema = z.enum(["online", "idle", "offline"]);
+
+// Client -> server
+
+// Chosen by the client; only has to be unique among its own pending requests
+const requestIdSchema = z.string().min(1).max(64);
+
+// Mutations may carry a requestId, which the server answers with exactly
+// one ack or error echoing it
+const mutation = <T extends string, D extends z.ZodTypeAny>(type: T, data: D) =>
+  z.object({ type: z.literal(type), data, requestId: requestIdSchema.optional() });
+
+// Changes to an item already in the cart; also the body of
+// PATCH /api/circles/:id/cart/:itemId. price is in dollars like when adding
+// an item. Empty notes clear them; assigned_to null unassigns the item.
+export const cartItemUpdatesSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  price: z.number().nonnegative(),
+  quantity: z.number().int().positive(),
+  notes: z.string().trim().max(500).nullable().transform((notes) => notes || null),
+  assigned_to: z.string().nullable(),
+}).partial().refine((updates) => Object.keys(updates).length > 0, { message: "Nothing to update" });
+
+export type CartItemUpdates = z.input<typeof cartItemUpdatesSchema>;
+
+// PATCH /api/circles/:id { votingPolicy }; null turns voting off and
+// approves the items still proposed. Items are approved once at least
+// `quorum` votes are cast and more than `approvalPercent` of them are
+// upvotes; a new policy decides open items it already settles.
+export const votingPolicySchema = z.object({
+  quorum: z.number().int().min(1).max(100),
+  approvalPercent: z.number().int().min(0).max(99).default(50),
+  // How long voting stays open on new items; null never closes it
+  deadlineHours: z.number().int().min(1).max(720).nullable().default(null),
+}).nullable();
+
+export type VotingPolicy = z.infer<typeof votingPolicySchema>;
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auth"), data: z.object({ token: z.string() }) }),
+  z.object({ type: z.literal("heartbeat"), data: z.object({ active: z.boolean() }) }),
+  z.object({
+    type: z.literal("join_circle"),
+    data: z.object({
+      circleId: id,
+      // Where a reconnecting client left off (see server/replay.ts)
+      lastSeq: z.number().int().nonnegative().optional(),
+      epoch: z.string().optional(),
+    }),
+  }),
+  z.object({ type: z.literal("leave_circle"), data: z.object({ circleId: id }) }),
+  mutation("send_message", z.object({
+    content: z.string(),
+    replyTo: id.optional(),
+    attachmentIds: z.array(id).optional(),
+  })),
+  mutation("edit_message", z.object({ messageId: id, content: z.string() })),
+  mutation("delete_message", z.object({ messageId: id })),
+  mutation("add_reaction", z.object({ messageId: id, emoji: z.string() })),
+  mutation("remove_reaction", z.object({ messageId: id, emoji: z.string() })),
+  z.object({ type: z.literal("mark_read"), data: z.object({ messageId: id }) }),
+  z.object({ type: z.literal("typing"), data: z.object({ isTyping: z.boolean() }) }),
+  mutation("vote_item", z.object({ itemId: id, vote: z.union([z.literal(1), z.literal(-1)]) })),
+  mutation("add_cart_item", z.object({
+    name: z.string().trim().min(1),
+    price: z.number().nonnegative(), // in dollars; stored in cents
+    quantity: z.number().int().positive().optional(),
+    // Admins only: add even if it takes a locked budget over
+    overrideBudgetLock: z.boolean().optional(),
+  })),
+  mutation("update_cart_item", z.object({
+    itemId: id,
+    updates: cartItemUpdatesSchema,
+    overrideBudgetLock: z.boolean().optional(),
+  })),
+  mutation("mark_item_purchased", z.object({ itemId: id, purchased: z.boolean() })),
+  mutation("update_task", z.object({
+    taskId: id,
+    // Unknown fields are dropped
+    updates: z.object({
+      title: z.string().trim().min(1),
+      description: z.string().nullable(),
+      assigned_to: z.string().nullable(),
+      completed: z.boolean(),
+      due_date: z.string().nullable(),
+    }).partial(),
+  })),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageData<T extends ClientMessage["type"]> = Extract<ClientMessage, { type: T }>["data"];
+
+type WithRequestId<M> = M extends unknown ? ("requestId" extends keyof M ? M : never) : never;
+// The messages that can be sent as requests
+export type ClientMutation = WithRequestId<ClientMessage>;
+
+// Server -> client
+
+// Events broadcast to a circle are stamped with the circle and its next
+// sequence number on the way out
+const circleEvent = z.object({
+  circleId: z.number().int().optional(),
+  seq: z.number().int().optional(),
+});
+
+const errorEventSchema = z.object({
+  type: z.literal("error"),
+  message: z.string(),
+  // The permission that was missing
+  action: z.string().optional(),
+  // What went wrong when the client can do something about it, e.g.
+  // "budget_locked"
+  code: z.string().optional(),
+  // Set when the request didn't match clientMessageSchema; field is the
+  // first failing one, relative to `data`
+  field: z.string().optional(),
+  issues: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+  // Echoed when the error answers a request
+  requestId: z.string().optional(),
+});
+
+export const circleEventSchema = z.discriminatedUnion("type", [
+  circleEvent.extend({ type: z.literal("user_joined"), userId: z.string() }),
+  circleEvent.extend({ type: z.literal("user_left"), userId: z.string() }),
+  circleEvent.extend({
+    type: z.literal("new_message"),
+    message: row,
+    // Replies carry their thread's updated summary
+    thread: record.extend({ message_id: z.number() }).optional(),
+  }),
+  circleEvent.extend({ type: z.literal("message_updated"), message: row }),
+  circleEvent.extend({ type: z.literal("message_deleted"), message: row }),
+  circleEvent.extend({
+    type: z.literal("reaction_updated"),
+    message_id: z.number(),
+    reply_to: z.number().nullable(),
+    reactions: z.array(record),
+  }),
+  circleEvent.extend({
+    type: z.literal("read_updated"),
+    userId: z.string(),
+    messageId: z.number().nullable(),
+  }),
+  circleEvent.extend({
+    type: z.literal("typing"),
+    userId: z.string(),
+    userName: z.string(),
+    isTyping: z.boolean(),
+  }),
+  circleEvent.extend({ type: z.literal("cart_updated"), cartItems: z.array(row) }),
+  circleEvent.extend({ type: z.literal("item_added"), item: row }),
+  // In cents; spent is worked out from the circle's budget ledger
+  circleEvent.extend({ type: z.literal("budget_updated"), circleId: z.number(), budget: z.number(), spent: z.number() }),
+  circleEvent.extend({ type: z.literal("task_updated"), task: row, updatedBy: record.nullable() }),
+  circleEvent.extend({ type: z.literal("circle_updated"), circle: row.nullable() }),
+  circleEvent.extend({ type: z.literal("order_placed"), circleId: z.number(), order: row }),
+  circleEvent.extend({ type: z.literal("member_joined"), userId: z.string() }),
+  circleEvent.extend({ type: z.literal("member_left"), userId: z.string() }),
+  circleEvent.extend({ type: z.literal("member_removed"), userId: z.string(), removedBy: z.string() }),
+  circleEvent.extend({
+    type: z.literal("member_role_changed"),
+    userId: z.string(),
+    role: z.string(),
+    changedBy: z.string(),
+  }),
+  circleEvent.extend({
+    type: z.literal("ownership_transferred"),
+    previousOwnerId: z.string(),
+    newOwnerId: z.string(),
+  }),
+]);
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  ...circleEventSchema.options,
+  z.object({ type: z.literal("auth_success"), userId: z.string(), heartbeatMs: z.number() }),
+  z.object({ type: z.literal("auth_error"), message: z.string() }),
+  errorEventSchema,
+  // The successful answer to a request: the entity it created or changed
+  z.object({ type: z.literal("ack"), requestId: z.string(), result: record.nullable() }),
+  // The message was dropped unhandled because the sender went over a rate
+  // limit (see server/rateLimit.ts); requestId is echoed when it had one
+  z.object({
+    type: z.literal("rate_limited"),
+    policy: z.string(),
+    retryAfterMs: z.number(),
+    requestId: z.string().optional(),
+  }),
+  z.object({ type: z.literal("joined_circle"), circleId: z.number(), seq: z.number(), epoch: z.string() }),
+  z.object({ type: z.literal("resync_required"), circleId: z.number(), seq: z.number(), epoch: z.string() }),
+  z.object({ type: z.literal("left_circle"), circleId: z.number() }),
+  z.object({ type: z.literal("removed_from_circle"), circleId: z.number() }),
+  z.object({ type: z.literal("unread_changed"), circleId: z.number() }),
+  z.object({ type: z.literal("presence"), userId: z.string(), status: presenceStatusSchema }),
+  z.object({
+    type: z.literal("notification"),
+    notification: row.extend({ type: z.string(), title: z.string(), message: z.string() }),
+  }),
+]);
+
+export type CircleEvent = z.infer<typeof circleEventSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerEvent<T extends ServerMessage["type"]> = Extract<ServerMessage, { type: T }>;
+export type AckResult = ServerEvent<"ack">["result"];
+
+// The error reply for a message that failed clientMessageSchema
+export const describeInvalidMessage = (error: ZodError, requestId?: string): ServerEvent<"error"> => {
+  const issues = error.issues.map((issue) => {
+    // Fields are named relative to `data`, e.g. "content" or "updates.title"
+    const path = issue.path[0] === "data" && issue.path.length > 1 ? issue.path.slice(1) : issue.path;
+    return { field: path.join(".") || "message", message: issue.message };
+  });
+
+  const [first] = issues;
+  if (first.field === "type") {
+    return { type: "error", message: "Unknown message type", field: "type", issues, requestId };
+  }
+  return { type: "error", message: `Invalid ${first.field}: ${first.message}`, field: first.field, issues, requestId };
+};
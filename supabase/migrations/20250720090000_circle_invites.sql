@@ -0,0 +1,39 @@
+/*
+  # Circle invitations
+
+  1. New Tables
+    - `circle_invites` - Invite tokens created by circle admins. An invite can
+      be single-use (max_uses = 1), limited, or unlimited (max_uses IS NULL),
+      can expire, and can optionally be restricted to one email address.
+
+  2. Security
+    - Enable RLS
+    - Circle admins can manage invites for their circles
+*/
+
+CREATE TABLE IF NOT EXISTS circle_invites (
+  id SERIAL PRIMARY KEY,
+  circle_id INTEGER REFERENCES circles(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  email TEXT,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  uses INTEGER DEFAULT 0 NOT NULL,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE circle_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle admins can manage invites" ON circle_invites
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM circle_members
+      WHERE circle_members.circle_id = circle_invites.circle_id
+      AND circle_members.user_id = auth.uid()
+      AND circle_members.role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_circle_invites_circle_id ON circle_invites(circle_id);
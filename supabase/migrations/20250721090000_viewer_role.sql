@@ -0,0 +1,11 @@
+/*
+  # Viewer role
+
+  1. Changes
+    - `circle_members.role` also accepts 'viewer': read-only members who can
+      follow a circle without chatting or changing the cart.
+*/
+
+ALTER TABLE circle_members DROP CONSTRAINT IF EXISTS circle_members_role_check;
+ALTER TABLE circle_members ADD CONSTRAINT circle_members_role_check
+  CHECK (role IN ('admin', 'member', 'viewer'));
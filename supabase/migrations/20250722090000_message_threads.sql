@@ -0,0 +1,9 @@
+/*
+  # Message threads
+
+  1. Changes
+    - Index `messages.reply_to` so a thread's replies and the reply counts on
+      the timeline can be looked up without scanning the circle's messages.
+*/
+
+CREATE INDEX IF NOT EXISTS messages_reply_to_idx ON messages(reply_to, id);
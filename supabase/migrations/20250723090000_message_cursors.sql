@@ -0,0 +1,9 @@
+/*
+  # Message history cursors
+
+  1. Changes
+    - Index `messages(circle_id, id)` so paging a circle's history by message
+      id cursor reads a single index range instead of sorting the circle.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_circle_id_id ON messages(circle_id, id);
@@ -0,0 +1,54 @@
+/*
+  # Message edits and deletion
+
+  1. Changes
+    - `messages.edited_at` is set whenever the author edits a message
+    - `messages.deleted_at` / `deleted_by` turn a message into a tombstone:
+      the row stays (so replies keep their parent) but its content is cleared
+
+  2. New Tables
+    - `message_revisions` - The content a message had before each edit.
+      Revisions are dropped when the message is deleted.
+
+  3. Security
+    - Enable RLS on `message_revisions`
+    - Circle members can read revisions of their circle's messages
+    - Authors and circle admins can update messages
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(id);
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id SERIAL PRIMARY KEY,
+  message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL,
+  edited_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read message revisions" ON message_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      JOIN circle_members ON circle_members.circle_id = messages.circle_id
+      WHERE messages.id = message_revisions.message_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and circle admins can update messages" ON messages
+  FOR UPDATE USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM circle_members
+      WHERE circle_members.circle_id = messages.circle_id
+      AND circle_members.user_id = auth.uid()
+      AND circle_members.role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON message_revisions(message_id);
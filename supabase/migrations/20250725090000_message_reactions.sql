@@ -0,0 +1,38 @@
+/*
+  # Message reactions
+
+  1. New Tables
+    - `message_reactions` - One row per user, message and emoji. A user can
+      react to a message with several different emoji but each only once.
+
+  2. Security
+    - Enable RLS
+    - Circle members can read reactions on their circle's messages
+    - Users can add and remove their own reactions
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id SERIAL PRIMARY KEY,
+  message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read reactions" ON message_reactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      JOIN circle_members ON circle_members.circle_id = messages.circle_id
+      WHERE messages.id = message_reactions.message_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage own reactions" ON message_reactions
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id ON message_reactions(message_id);
@@ -0,0 +1,41 @@
+/*
+  # Message attachments
+
+  1. New Tables
+    - `message_attachments` - Files shared in a circle's chat. An attachment
+      is uploaded first (message_id IS NULL) and linked to its message when
+      the message is sent. The bytes live in the blob store under
+      `storage_key`; images also get a thumbnail under `thumbnail_key`.
+
+  2. Security
+    - Enable RLS
+    - Circle members can read attachments of their circle
+*/
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id SERIAL PRIMARY KEY,
+  circle_id INTEGER REFERENCES circles(id) ON DELETE CASCADE NOT NULL,
+  message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  storage_key TEXT UNIQUE NOT NULL,
+  thumbnail_key TEXT,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read attachments" ON message_attachments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM circle_members
+      WHERE circle_members.circle_id = message_attachments.circle_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message_id ON message_attachments(message_id);
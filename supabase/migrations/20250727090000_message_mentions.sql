@@ -0,0 +1,34 @@
+/*
+  # Message mentions
+
+  1. New Tables
+    - `message_mentions` - One row per circle member mentioned with
+      `@username` in a message. Parsed on the server when a message is sent
+      or edited; the row set is replaced on every edit.
+
+  2. Security
+    - Enable RLS
+    - Circle members can read mentions on their circle's messages
+*/
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  id SERIAL PRIMARY KEY,
+  message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(message_id, user_id)
+);
+
+ALTER TABLE message_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read mentions" ON message_mentions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      JOIN circle_members ON circle_members.circle_id = messages.circle_id
+      WHERE messages.id = message_mentions.message_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user_id ON message_mentions(user_id);
@@ -0,0 +1,99 @@
+/*
+  # Circle search
+
+  1. Changes
+    - Full-text GIN indexes on message content, cart item names and task
+      titles and descriptions. They index the same expressions that
+      `search_circle` matches against, so the function can use them.
+
+  2. New Functions
+    - `search_circle` - Ranked search over one circle's messages, cart items
+      and tasks with optional type, author and date filters. Each row carries
+      a snippet with the matched words wrapped in chr(2) ... chr(3), which
+      no user input can contain, so clients can highlight them without
+      treating the snippet as HTML. Deleted messages are never returned.
+
+  3. Security
+    - The function runs with the caller's privileges, so the existing RLS
+      policies still decide what a user can see
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages
+  USING GIN (to_tsvector('english', content));
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_search ON cart_items
+  USING GIN (to_tsvector('english', name));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks
+  USING GIN (to_tsvector('english', title || ' ' || COALESCE(description, '')));
+
+CREATE OR REPLACE FUNCTION search_circle(
+  p_circle_id INTEGER,
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_author UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  type TEXT,
+  id INTEGER,
+  user_id UUID,
+  "user" JSON,
+  title TEXT,
+  snippet TEXT,
+  rank REAL,
+  reply_to INTEGER,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q,
+           format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, ShortWord=0, MaxFragments=2', chr(2), chr(3)) AS options
+  ),
+  matches AS (
+    SELECT 'message'::text AS type, m.id, m.user_id, NULL::text AS title, m.content AS body,
+           ts_rank_cd(to_tsvector('english', m.content), query.q) AS rank,
+           m.reply_to, m.created_at
+    FROM messages m, query
+    WHERE m.circle_id = p_circle_id
+      AND m.deleted_at IS NULL
+      AND to_tsvector('english', m.content) @@ query.q
+      AND (p_types IS NULL OR 'message' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT 'cart_item', c.id, c.added_by, c.name, c.name,
+           ts_rank_cd(to_tsvector('english', c.name), query.q),
+           NULL, c.created_at
+    FROM cart_items c, query
+    WHERE c.circle_id = p_circle_id
+      AND to_tsvector('english', c.name) @@ query.q
+      AND (p_types IS NULL OR 'cart_item' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT 'task', t.id, t.created_by, t.title, t.title || ' ' || COALESCE(t.description, ''),
+           ts_rank_cd(to_tsvector('english', t.title || ' ' || COALESCE(t.description, '')), query.q),
+           NULL, t.created_at
+    FROM tasks t, query
+    WHERE t.circle_id = p_circle_id
+      AND to_tsvector('english', t.title || ' ' || COALESCE(t.description, '')) @@ query.q
+      AND (p_types IS NULL OR 'task' = ANY(p_types))
+  )
+  SELECT matches.type, matches.id, matches.user_id,
+         json_build_object('id', u.id, 'first_name', u.first_name, 'last_name', u.last_name),
+         matches.title,
+         ts_headline('english', matches.body, query.q, query.options),
+         matches.rank, matches.reply_to, matches.created_at
+  FROM matches
+  CROSS JOIN query
+  LEFT JOIN users u ON u.id = matches.user_id
+  WHERE (p_author IS NULL OR matches.user_id = p_author)
+    AND (p_from IS NULL OR matches.created_at >= p_from)
+    AND (p_to IS NULL OR matches.created_at < p_to)
+  ORDER BY matches.rank DESC, matches.created_at DESC, matches.id DESC
+  LIMIT p_limit OFFSET p_offset;
+$$;
@@ -0,0 +1,21 @@
+/*
+  # Read receipts
+
+  1. Changes
+    - `circle_members.last_read_message_id` - The newest top-level message
+      the member has had on screen. It only ever moves forward; top-level
+      messages from other members after it count as unread. Members without
+      a marker count the messages sent since they joined.
+    - Existing members start with everything already read, so the first
+      deploy doesn't light up every circle.
+*/
+
+ALTER TABLE circle_members ADD COLUMN IF NOT EXISTS last_read_message_id INTEGER
+  REFERENCES messages(id) ON DELETE SET NULL;
+
+UPDATE circle_members cm
+SET last_read_message_id = (
+  SELECT MAX(m.id) FROM messages m
+  WHERE m.circle_id = cm.circle_id AND m.reply_to IS NULL
+)
+WHERE cm.last_read_message_id IS NULL;
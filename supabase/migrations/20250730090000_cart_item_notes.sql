@@ -0,0 +1,10 @@
+/*
+  # Cart item notes
+
+  1. Changes
+    - `cart_items.notes` - Free text for whoever buys the item, e.g. a
+      preferred brand or size. Editable along with the name, price,
+      quantity and assignee after the item is added.
+*/
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS notes TEXT;
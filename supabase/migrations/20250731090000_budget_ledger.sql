@@ -0,0 +1,117 @@
+/*
+  # Budget ledger
+
+  1. New Tables
+    - `budget_entries` - Signed amounts in cents charged to a circle's
+      budget, tied to the cart item they're for. An item's entries add up to
+      what it currently costs; adding, repricing and removing it append new
+      entries rather than changing old ones. `cart_item_id` has no foreign
+      key so the entries of deleted items stay attributable.
+
+  2. New Functions
+    - `settle_budget` - Appends the entries that bring each given item's
+      total to its target cost and sets `circles.spent` to the sum of the
+      circle's ledger, all under a lock on the circle row so concurrent
+      changes can't race. With `p_reconcile`, items missing from the
+      targets are settled to zero as well. Returns the new spent amount, the
+      previous one and the entries appended.
+
+  3. Changes
+    - Every existing cart item gets an opening entry for its current cost
+      and `circles.spent` is recalculated from the ledger. Circles whose
+      counter had drifted from their cart (items added over REST, removed
+      items) change to match.
+*/
+
+CREATE TABLE IF NOT EXISTS budget_entries (
+  id SERIAL PRIMARY KEY,
+  circle_id INTEGER NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+  cart_item_id INTEGER,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  amount INTEGER NOT NULL, -- in cents, negative for refunds
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_entries_circle_item ON budget_entries(circle_id, cart_item_id);
+
+ALTER TABLE budget_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read budget entries" ON budget_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM circle_members
+      WHERE circle_members.circle_id = budget_entries.circle_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION settle_budget(
+  p_circle_id INTEGER,
+  p_targets JSONB, -- {"<cart item id>": cost in cents}
+  p_user_id UUID,
+  p_reason TEXT,
+  p_reconcile BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_previous_spent INTEGER;
+  v_spent INTEGER;
+  v_budget INTEGER;
+  v_entries JSON;
+BEGIN
+  SELECT spent INTO v_previous_spent FROM circles WHERE id = p_circle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  WITH targets AS (
+    SELECT key::INTEGER AS cart_item_id, value::INTEGER AS amount
+    FROM jsonb_each_text(p_targets)
+  ),
+  ledger AS (
+    SELECT cart_item_id, SUM(amount)::INTEGER AS amount
+    FROM budget_entries
+    WHERE circle_id = p_circle_id AND cart_item_id IS NOT NULL
+    GROUP BY cart_item_id
+  ),
+  differences AS (
+    SELECT COALESCE(t.cart_item_id, l.cart_item_id) AS cart_item_id,
+           COALESCE(t.amount, 0) - COALESCE(l.amount, 0) AS amount
+    FROM targets t
+    FULL JOIN ledger l ON l.cart_item_id = t.cart_item_id
+    WHERE t.cart_item_id IS NOT NULL OR p_reconcile
+  ),
+  inserted AS (
+    INSERT INTO budget_entries (circle_id, cart_item_id, user_id, amount, reason)
+    SELECT p_circle_id, cart_item_id, p_user_id, amount, p_reason
+    FROM differences
+    WHERE amount <> 0
+    ORDER BY cart_item_id
+    RETURNING *
+  )
+  SELECT COALESCE(json_agg(inserted ORDER BY inserted.id), '[]'::json) INTO v_entries FROM inserted;
+
+  UPDATE circles
+  SET spent = (SELECT COALESCE(SUM(amount), 0) FROM budget_entries WHERE circle_id = p_circle_id)
+  WHERE id = p_circle_id
+  RETURNING spent, budget INTO v_spent, v_budget;
+
+  RETURN json_build_object(
+    'budget', v_budget,
+    'spent', v_spent,
+    'previous_spent', v_previous_spent,
+    'entries', v_entries
+  );
+END;
+$$;
+
+INSERT INTO budget_entries (circle_id, cart_item_id, user_id, amount, reason, created_at)
+SELECT ci.circle_id, ci.id, ci.added_by, ci.price * COALESCE(ci.quantity, 1), 'opening', ci.created_at
+FROM cart_items ci
+WHERE ci.circle_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM budget_entries be WHERE be.cart_item_id = ci.id);
+
+UPDATE circles c
+SET spent = (SELECT COALESCE(SUM(amount), 0) FROM budget_entries be WHERE be.circle_id = c.id);
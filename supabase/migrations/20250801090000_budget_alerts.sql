@@ -0,0 +1,35 @@
+/*
+  # Budget alerts and locks
+
+  1. Changes
+    - `circles.budget_alert_thresholds` - Percentages of the budget that
+      notify every member when spending reaches them, 75% and 90% unless
+      an admin changes them. Going over the budget always notifies.
+    - `circles.budget_alert_level` - The highest alert already sent: a
+      threshold, or 101 once over budget. Spending has to fall back below
+      a threshold before it alerts again.
+    - `circles.budget_locked` - While set, cart additions and changes that
+      would take spending over the budget are refused unless an admin
+      overrides the lock. Overrides are recorded in cart_history, whose
+      actions now include 'budget_override'.
+    - Existing circles start at the level their spending is already at, so
+      the first deploy doesn't alert about old spending.
+*/
+
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS budget_alert_thresholds INTEGER[] NOT NULL DEFAULT '{75,90}';
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS budget_alert_level INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS budget_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE cart_history DROP CONSTRAINT IF EXISTS cart_history_action_check;
+ALTER TABLE cart_history ADD CONSTRAINT cart_history_action_check
+  CHECK (action IN ('added', 'removed', 'updated', 'budget_override'));
+
+UPDATE circles c
+SET budget_alert_level = CASE
+  WHEN c.spent > c.budget THEN 101
+  ELSE COALESCE(
+    (SELECT MAX(t) FROM unnest(c.budget_alert_thresholds) AS t WHERE c.spent * 100 >= t * c.budget),
+    0
+  )
+END
+WHERE c.budget > 0;
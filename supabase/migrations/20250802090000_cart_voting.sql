@@ -0,0 +1,30 @@
+/*
+  # Vote-driven cart workflow
+
+  1. Changes
+    - `circles.vote_quorum` - Votes an item needs before it can be decided.
+      NULL turns the voting policy off and items are approved as soon as
+      they are added, as before.
+    - `circles.vote_approval_percent` - The share of votes cast, in
+      percent, that upvotes have to exceed; 50 means a simple majority.
+    - `circles.vote_deadline_hours` - How long voting on a new item stays
+      open. Items still undecided when it closes are rejected. NULL leaves
+      voting open, and items are decided once they reach the quorum.
+    - `cart_items.status` - 'proposed', 'approved', 'rejected' or
+      'purchased'. Existing items are approved. Rejected items are settled
+      to zero in the budget ledger.
+    - `cart_items.voting_closes_at` - When voting on the item ends, from the
+      policy in force when it was added.
+*/
+
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS vote_quorum INTEGER CHECK (vote_quorum > 0);
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS vote_approval_percent INTEGER NOT NULL DEFAULT 50
+  CHECK (vote_approval_percent BETWEEN 0 AND 99);
+ALTER TABLE circles ADD COLUMN IF NOT EXISTS vote_deadline_hours INTEGER CHECK (vote_deadline_hours > 0);
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (status IN ('proposed', 'approved', 'rejected', 'purchased'));
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS voting_closes_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_voting_closes_at ON cart_items(voting_closes_at)
+  WHERE status = 'proposed';
@@ -0,0 +1,146 @@
+/*
+  # Orders
+
+  1. New Tables
+    - `orders` - What a circle checked out: the total in cents and a snapshot
+      of every item with its price, quantity, assignee and votes as they
+      were at checkout. Orders can't be changed once placed.
+
+  2. New Functions
+    - `checkout_cart` - Places an order for the circle's approved and
+      purchased items, provided they are still exactly the ones in
+      `p_items` (the snapshot the admin reviewed). Under a lock on the
+      circle row it records the order, moves what the items had charged to
+      the budget onto a single entry for the order, and removes them from
+      the cart along with any rejected items. Proposed items stay for the
+      next round. Returns the order and the budget settlement, or NULL if
+      the cart no longer matches the snapshot.
+
+  3. Changes
+    - `budget_entries.order_id` - Set on the entry charging an order. It has
+      no cart item, so reconciling the cart leaves it alone.
+*/
+
+CREATE TABLE IF NOT EXISTS orders (
+  id SERIAL PRIMARY KEY,
+  circle_id INTEGER NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+  placed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  total INTEGER NOT NULL, -- in cents
+  items JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_circle_created ON orders(circle_id, created_at DESC);
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Circle members can read orders" ON orders
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM circle_members
+      WHERE circle_members.circle_id = orders.circle_id
+      AND circle_members.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION reject_order_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'Orders cannot be changed once placed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_immutable ON orders;
+CREATE TRIGGER orders_immutable BEFORE UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION reject_order_changes();
+
+ALTER TABLE budget_entries ADD COLUMN IF NOT EXISTS order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION checkout_cart(
+  p_circle_id INTEGER,
+  p_user_id UUID,
+  p_items JSONB, -- [{"cart_item_id", "price", "quantity", ...}]
+  p_total INTEGER
+)
+RETURNS JSON
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_previous_spent INTEGER;
+  v_spent INTEGER;
+  v_budget INTEGER;
+  v_order orders;
+  v_item_ids INTEGER[];
+  v_cleared_ids INTEGER[];
+  v_matching INTEGER;
+  v_checkout_count INTEGER;
+  v_entries JSON;
+BEGIN
+  SELECT spent INTO v_previous_spent FROM circles WHERE id = p_circle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  PERFORM 1 FROM cart_items WHERE circle_id = p_circle_id FOR UPDATE;
+
+  SELECT COALESCE(array_agg((item->>'cart_item_id')::INTEGER), '{}') INTO v_item_ids
+  FROM jsonb_array_elements(p_items) AS item;
+
+  SELECT COUNT(*) INTO v_matching
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN cart_items ci ON ci.id = (item->>'cart_item_id')::INTEGER
+  WHERE ci.circle_id = p_circle_id
+    AND ci.status IN ('approved', 'purchased')
+    AND ci.price = (item->>'price')::INTEGER
+    AND COALESCE(ci.quantity, 1) = (item->>'quantity')::INTEGER;
+
+  SELECT COUNT(*) INTO v_checkout_count
+  FROM cart_items
+  WHERE circle_id = p_circle_id AND status IN ('approved', 'purchased');
+
+  IF v_matching = 0 OR v_matching <> jsonb_array_length(p_items) OR v_matching <> v_checkout_count THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO orders (circle_id, placed_by, total, items)
+  VALUES (p_circle_id, p_user_id, p_total, p_items)
+  RETURNING * INTO v_order;
+
+  SELECT v_item_ids || COALESCE(array_agg(id), '{}') INTO v_cleared_ids
+  FROM cart_items
+  WHERE circle_id = p_circle_id AND status = 'rejected';
+
+  WITH refunds AS (
+    SELECT cart_item_id, -SUM(amount)::INTEGER AS amount
+    FROM budget_entries
+    WHERE circle_id = p_circle_id AND cart_item_id = ANY(v_cleared_ids)
+    GROUP BY cart_item_id
+  ),
+  inserted AS (
+    INSERT INTO budget_entries (circle_id, cart_item_id, order_id, user_id, amount, reason)
+    SELECT p_circle_id, cart_item_id, NULL::INTEGER, p_user_id, amount, 'checkout'
+    FROM refunds
+    WHERE amount <> 0
+    UNION ALL
+    SELECT p_circle_id, NULL, v_order.id, p_user_id, p_total, 'checkout'
+    RETURNING *
+  )
+  SELECT COALESCE(json_agg(inserted ORDER BY inserted.id), '[]'::json) INTO v_entries FROM inserted;
+
+  DELETE FROM cart_items WHERE id = ANY(v_cleared_ids);
+
+  UPDATE circles
+  SET spent = (SELECT COALESCE(SUM(amount), 0) FROM budget_entries WHERE circle_id = p_circle_id)
+  WHERE id = p_circle_id
+  RETURNING spent, budget INTO v_spent, v_budget;
+
+  RETURN json_build_object(
+    'order', row_to_json(v_order),
+    'settlement', json_build_object(
+      'budget', v_budget,
+      'spent', v_spent,
+      'previous_spent', v_previous_spent,
+      'entries', v_entries
+    )
+  );
+END;
+$$;
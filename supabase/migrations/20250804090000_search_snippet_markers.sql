@@ -0,0 +1,80 @@
+/*
+  # Search snippet markers
+
+  1. Changes
+    - `search_circle` - Drops chr(2) and chr(3) from the text before
+      highlighting it. Snippets use them to mark matched words, and nothing
+      stops them being typed into a message, item or task, so a stray one
+      could otherwise pass itself off as a match.
+*/
+
+CREATE OR REPLACE FUNCTION search_circle(
+  p_circle_id INTEGER,
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_author UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  type TEXT,
+  id INTEGER,
+  user_id UUID,
+  "user" JSON,
+  title TEXT,
+  snippet TEXT,
+  rank REAL,
+  reply_to INTEGER,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q,
+           format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, ShortWord=0, MaxFragments=2', chr(2), chr(3)) AS options
+  ),
+  matches AS (
+    SELECT 'message'::text AS type, m.id, m.user_id, NULL::text AS title, m.content AS body,
+           ts_rank_cd(to_tsvector('english', m.content), query.q) AS rank,
+           m.reply_to, m.created_at
+    FROM messages m, query
+    WHERE m.circle_id = p_circle_id
+      AND m.deleted_at IS NULL
+      AND to_tsvector('english', m.content) @@ query.q
+      AND (p_types IS NULL OR 'message' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT 'cart_item', c.id, c.added_by, c.name, c.name,
+           ts_rank_cd(to_tsvector('english', c.name), query.q),
+           NULL, c.created_at
+    FROM cart_items c, query
+    WHERE c.circle_id = p_circle_id
+      AND to_tsvector('english', c.name) @@ query.q
+      AND (p_types IS NULL OR 'cart_item' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT 'task', t.id, t.created_by, t.title, t.title || ' ' || COALESCE(t.description, ''),
+           ts_rank_cd(to_tsvector('english', t.title || ' ' || COALESCE(t.description, '')), query.q),
+           NULL, t.created_at
+    FROM tasks t, query
+    WHERE t.circle_id = p_circle_id
+      AND to_tsvector('english', t.title || ' ' || COALESCE(t.description, '')) @@ query.q
+      AND (p_types IS NULL OR 'task' = ANY(p_types))
+  )
+  SELECT matches.type, matches.id, matches.user_id,
+         json_build_object('id', u.id, 'first_name', u.first_name, 'last_name', u.last_name),
+         matches.title,
+         ts_headline('english', translate(matches.body, chr(2) || chr(3), ''), query.q, query.options),
+         matches.rank, matches.reply_to, matches.created_at
+  FROM matches
+  CROSS JOIN query
+  LEFT JOIN users u ON u.id = matches.user_id
+  WHERE (p_author IS NULL OR matches.user_id = p_author)
+    AND (p_from IS NULL OR matches.created_at >= p_from)
+    AND (p_to IS NULL OR matches.created_at < p_to)
+  ORDER BY matches.rank DESC, matches.created_at DESC, matches.id DESC
+  LIMIT p_limit OFFSET p_offset;
+$$;
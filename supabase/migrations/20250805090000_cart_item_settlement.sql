@@ -0,0 +1,95 @@
+/*
+  # Cart item settlement
+
+  1. New Functions
+    - `write_cart_item` - Adds, updates or deletes a cart item and settles
+      what it then charges the budget in the same transaction, under the
+      lock `settle_budget` takes on the circle row. A failure between the
+      two can no longer leave `circles.spent` out of step with the cart.
+      With `p_item_id` NULL the item in `p_values` is added; with
+      `p_values` NULL the item is deleted and refunded; otherwise the
+      columns in `p_values` are updated. Returns the item as written (NULL
+      once deleted) and the budget settlement, or NULL if the circle is
+      gone or the item isn't in it.
+
+      With `p_enforce_lock`, a write that would raise spending past a
+      locked budget is refused before anything is written, checked against
+      `spent` as it is under the lock. It returns `budget_locked` with the
+      budget, the amount spent and the increase instead.
+*/
+
+CREATE OR REPLACE FUNCTION write_cart_item(
+  p_circle_id INTEGER,
+  p_item_id INTEGER, -- NULL to add the item
+  p_values JSONB, -- the columns to set, NULL to delete the item
+  p_user_id UUID,
+  p_reason TEXT,
+  p_enforce_lock BOOLEAN DEFAULT FALSE
+)
+RETURNS JSON
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_circle circles;
+  v_item cart_items;
+  v_cost INTEGER := 0;
+  v_increase INTEGER;
+BEGIN
+  SELECT * INTO v_circle FROM circles WHERE id = p_circle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_item_id IS NOT NULL THEN
+    SELECT * INTO v_item FROM cart_items WHERE id = p_item_id AND circle_id = p_circle_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  -- What the item charges once written: rejected items and deleted ones
+  -- nothing
+  IF p_values IS NOT NULL THEN
+    v_item := jsonb_populate_record(v_item, p_values);
+    v_cost := CASE WHEN v_item.status = 'rejected' THEN 0 ELSE v_item.price * COALESCE(v_item.quantity, 1) END;
+  END IF;
+
+  IF p_enforce_lock AND v_circle.budget_locked AND COALESCE(v_circle.budget, 0) > 0 THEN
+    SELECT v_cost - COALESCE(SUM(amount), 0) INTO v_increase
+    FROM budget_entries
+    WHERE circle_id = p_circle_id AND cart_item_id = v_item.id;
+
+    IF v_increase > 0 AND v_circle.spent + v_increase > v_circle.budget THEN
+      RETURN json_build_object('budget_locked', json_build_object(
+        'budget', v_circle.budget,
+        'spent', v_circle.spent,
+        'increase', v_increase
+      ));
+    END IF;
+  END IF;
+
+  IF p_item_id IS NULL THEN
+    INSERT INTO cart_items (circle_id, name, price, quantity, added_by, assigned_to, notes, status, voting_closes_at)
+    VALUES (p_circle_id, v_item.name, v_item.price, COALESCE(v_item.quantity, 1), v_item.added_by,
+            v_item.assigned_to, v_item.notes, COALESCE(v_item.status, 'approved'), v_item.voting_closes_at)
+    RETURNING * INTO v_item;
+  ELSIF p_values IS NULL THEN
+    DELETE FROM cart_items WHERE id = p_item_id;
+  ELSE
+    UPDATE cart_items
+    SET name = v_item.name,
+        price = v_item.price,
+        quantity = v_item.quantity,
+        assigned_to = v_item.assigned_to,
+        notes = v_item.notes,
+        status = v_item.status,
+        voting_closes_at = v_item.voting_closes_at
+    WHERE id = p_item_id
+    RETURNING * INTO v_item;
+  END IF;
+
+  RETURN json_build_object(
+    'item', CASE WHEN p_values IS NULL THEN NULL ELSE row_to_json(v_item) END,
+    'settlement', settle_budget(p_circle_id, jsonb_build_object(v_item.id, v_cost), p_user_id, p_reason)
+  );
+END;
+$$;
@@ -0,0 +1,68 @@
+/*
+  # Deciding proposed items when the voting policy changes
+
+  1. New Functions
+    - `set_voting_policy` - Sets a circle's voting policy columns and, in
+      the same transaction, moves the items in `p_decisions` that are still
+      proposed to the status given for them. Turning voting off approves
+      every open item; a new policy decides the ones its quorum or deadline
+      already settles. Approved items have `voting_closes_at` cleared, and
+      the decided items are settled in the budget ledger under the
+      `settle_budget` lock, so rejected ones stop charging it. Returns the
+      circle, the items decided and the settlement, or NULL if the circle
+      is gone.
+*/
+
+CREATE OR REPLACE FUNCTION set_voting_policy(
+  p_circle_id INTEGER,
+  p_policy JSONB, -- {"vote_quorum", "vote_approval_percent", "vote_deadline_hours"}
+  p_decisions JSONB, -- {"<cart item id>": "approved" | "rejected"}
+  p_user_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_circle circles;
+  v_items JSON;
+  v_targets JSONB;
+  v_settlement JSON;
+BEGIN
+  PERFORM 1 FROM circles WHERE id = p_circle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE circles
+  SET vote_quorum = (p_policy->>'vote_quorum')::INTEGER,
+      vote_approval_percent = COALESCE((p_policy->>'vote_approval_percent')::INTEGER, vote_approval_percent),
+      vote_deadline_hours = (p_policy->>'vote_deadline_hours')::INTEGER
+  WHERE id = p_circle_id;
+
+  WITH decided AS (
+    UPDATE cart_items ci
+    SET status = decision.value,
+        voting_closes_at = CASE WHEN decision.value = 'approved' THEN NULL ELSE ci.voting_closes_at END
+    FROM jsonb_each_text(p_decisions) AS decision
+    WHERE ci.id = decision.key::INTEGER
+      AND ci.circle_id = p_circle_id
+      AND ci.status = 'proposed'
+    RETURNING ci.*
+  )
+  SELECT COALESCE(json_agg(decided ORDER BY decided.id), '[]'::json),
+         COALESCE(jsonb_object_agg(
+           decided.id,
+           CASE WHEN decided.status = 'rejected' THEN 0 ELSE decided.price * COALESCE(decided.quantity, 1) END
+         ), '{}'::jsonb)
+  INTO v_items, v_targets
+  FROM decided;
+
+  v_settlement := settle_budget(p_circle_id, v_targets, p_user_id, 'item_voted');
+  SELECT * INTO v_circle FROM circles WHERE id = p_circle_id;
+
+  RETURN json_build_object(
+    'circle', row_to_json(v_circle),
+    'items', v_items,
+    'settlement', v_settlement
+  );
+END;
+$$;